@@ -0,0 +1,129 @@
+import path from 'path';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { addEnhancement, applyEnhancementPlan, detectFlavor, planEnhancement } from '../generators/add-enhancement';
+import { hashContent, readProjectManifest, writeProjectManifest } from '../generators/project-manifest';
+
+describe('add enhancement', () => {
+  const sandbox = path.join(__dirname, 'test-add-enhancement');
+
+  const writeProject = (packageJson: Record<string, unknown>) => {
+    mkdirSync(path.join(sandbox, 'src'), { recursive: true });
+    writeFileSync(path.join(sandbox, 'package.json'), JSON.stringify(packageJson, null, 2));
+    writeFileSync(path.join(sandbox, 'src', 'index.js'), 'module.exports = () => 42;\n');
+  };
+
+  beforeEach(() => {
+    writeProject({ name: 'billing', scripts: { test: 'jest' }, dependencies: { express: '^4.18.2' } });
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('plans the files and package.json entries without writing them', async () => {
+    const plan = await planEnhancement('logging', { cwd: sandbox });
+
+    expect(plan.template).toBe('node');
+    expect(plan.files.map(file => [file.action, file.path])).toEqual([
+      ['update', 'package.json'],
+      ['create', 'src/utils/logger.js']
+    ]);
+    expect(plan.packageChanges).toEqual([{ section: 'dependencies', name: 'winston', to: '^3.11.0' }]);
+    expect(plan.deferred).toEqual([{ cwd: '.', command: 'npm', args: ['install'] }]);
+    expect(existsSync(path.join(sandbox, 'src', 'utils', 'logger.js'))).toBe(false);
+    expect(JSON.parse(readFileSync(path.join(sandbox, 'package.json'), 'utf8')).dependencies).toEqual({ express: '^4.18.2' });
+  });
+
+  it('installs with the package manager the project uses', async () => {
+    writeFileSync(path.join(sandbox, 'pnpm-lock.yaml'), '');
+
+    const plan = await planEnhancement('validation', { cwd: sandbox });
+
+    expect(plan.deferred).toEqual([{ cwd: '.', command: 'pnpm', args: ['install'] }]);
+  });
+
+  it('applies the plan and records it in .stackstart.json', async () => {
+    writeProjectManifest(sandbox, {
+      manifestVersion: 1,
+      stackstartVersion: '0.0.1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      projectName: 'billing',
+      template: { spec: 'node', name: 'node', source: 'bundled' },
+      options: { deployTarget: 'vercel', withDemo: false, aiEnhanced: false },
+      enhancements: ['security'],
+      files: {}
+    });
+
+    await addEnhancement('logging', { cwd: sandbox });
+
+    const logger = readFileSync(path.join(sandbox, 'src', 'utils', 'logger.js'), 'utf8');
+    expect(logger).toContain("require('winston')");
+    expect(JSON.parse(readFileSync(path.join(sandbox, 'package.json'), 'utf8')).dependencies.winston).toBe('^3.11.0');
+    const manifest = readProjectManifest(sandbox)!;
+    expect(manifest.enhancements).toEqual(['security', 'logging']);
+    expect(manifest.files['src/utils/logger.js']).toBe(hashContent(logger));
+
+    await expect(planEnhancement('logging', { cwd: sandbox })).rejects.toThrow("'logging' was already added to this project");
+  });
+
+  it('rejects enhancements written for another kind of project', async () => {
+    await expect(planEnhancement('react-router', { cwd: sandbox }))
+      .rejects.toThrow("Enhancement 'react-router' is not for node projects. It applies to: react, full-stack");
+    await expect(planEnhancement('loging', { cwd: sandbox })).rejects.toThrow("Did you mean 'logging'?");
+  });
+
+  it('leaves projects that already have it alone unless forced', async () => {
+    writeProject({ name: 'billing', dependencies: { pino: '^8.0.0' } });
+
+    await expect(planEnhancement('logging', { cwd: sandbox })).rejects.toThrow('The project already has logging. Use --force');
+    const plan = await planEnhancement('logging', { cwd: sandbox, force: true });
+    expect(plan.files.map(file => file.path)).toContain('src/utils/logger.js');
+  });
+
+  it('refuses to replace a file the project already has', async () => {
+    mkdirSync(path.join(sandbox, 'src', 'utils'), { recursive: true });
+    writeFileSync(path.join(sandbox, 'src', 'utils', 'validation.js'), '// ours\n');
+
+    await expect(planEnhancement('validation', { cwd: sandbox }))
+      .rejects.toThrow("'validation' would replace src/utils/validation.js, which already exists");
+
+    const plan = await planEnhancement('validation', { cwd: sandbox, force: true });
+    applyEnhancementPlan(plan);
+    expect(readFileSync(path.join(sandbox, 'src', 'utils', 'validation.js'), 'utf8')).not.toBe('// ours\n');
+  });
+
+  it('adds Python enhancements to requirements.txt', async () => {
+    rmSync(sandbox, { recursive: true, force: true });
+    mkdirSync(sandbox, { recursive: true });
+    writeFileSync(path.join(sandbox, 'requirements.txt'), 'flask==3.0.0\n');
+
+    const plan = await planEnhancement('python-type-hints', { cwd: sandbox });
+
+    expect(plan.template).toBe('python');
+    expect(plan.files.find(file => file.path === 'requirements.txt')!.after).toContain('mypy==');
+    expect(plan.deferred).toEqual([{ cwd: '.', command: 'pip', args: ['install', '-r', 'requirements.txt'] }]);
+  });
+
+  it('keeps JavaScript enhancements out of Python projects', async () => {
+    rmSync(sandbox, { recursive: true, force: true });
+    mkdirSync(sandbox, { recursive: true });
+    writeFileSync(path.join(sandbox, 'requirements.txt'), 'flask==3.0.0\n');
+
+    for (const id of ['logging', 'error-handling', 'env-config', 'test-coverage']) {
+      await expect(addEnhancement(id, { cwd: sandbox }))
+        .rejects.toThrow(`Enhancement '${id}' is not for python projects. It applies to: node, react, full-stack`);
+    }
+    expect(existsSync(path.join(sandbox, 'src'))).toBe(false);
+  });
+
+  it('tells the kind of project from its files', () => {
+    expect(detectFlavor(sandbox)).toBe('node');
+    writeProject({ name: 'web', dependencies: { react: '^18.2.0' } });
+    expect(detectFlavor(sandbox)).toBe('react');
+
+    rmSync(sandbox, { recursive: true, force: true });
+    mkdirSync(sandbox, { recursive: true });
+    expect(() => detectFlavor(sandbox)).toThrow('Pass --template');
+  });
+});
@@ -1,6 +1,8 @@
 import path from 'path';
 import { existsSync, readFileSync, writeFileSync, mkdirSync, rmSync } from 'fs';
 import { AIProjectAnalyzer, enhanceWithAI } from '../generators/ai-enhancer';
+import { ScaffoldEvent } from '../generators/events';
+import { diskFileSystem } from '../generators/filesystem';
 
 // Create test project directory
 const testProjectPath = path.join(__dirname, 'test-project');
@@ -118,6 +120,15 @@ describe('AIProjectAnalyzer', () => {
       const analysis = await analyzer.analyze();
       expect(analysis.structure.hasValidation).toBe(true);
     });
+
+    it('should record what satisfied each check', async () => {
+      writeFileSync(path.join(testProjectPath, 'requirements.txt'), '# api\npydantic>=2.0\n');
+
+      const analysis = await analyzer.analyze();
+      expect(analysis.evidence.hasDocumentation).toBe('README.md');
+      expect(analysis.evidence.hasValidation).toBe('pydantic in requirements.txt');
+      expect(analysis.evidence.hasLogging).toBeUndefined();
+    });
   });
 
   describe('Enhancement Identification', () => {
@@ -553,5 +564,24 @@ describe('Integration Tests', () => {
       // Restore console.log
       consoleSpy.mockRestore();
     });
+
+    it('should return the enhancements applied before one failed', async () => {
+      mkdirSync(testProjectPath, { recursive: true });
+      writeFileSync(path.join(testProjectPath, 'package.json'), JSON.stringify({ name: 'test-project', version: '1.0.0' }, null, 2));
+      const fs = {
+        ...diskFileSystem,
+        writeFile: (target: string, data: string | Buffer) => {
+          if (path.basename(target) === '.env.example') throw new Error('EACCES: permission denied');
+          diskFileSystem.writeFile(target, data);
+        }
+      };
+      const events: ScaffoldEvent[] = [];
+
+      const applied = await enhanceWithAI(testProjectPath, 'node', fs, event => events.push(event), ['logging', 'env-config']);
+
+      expect(applied).toEqual(['logging']);
+      expect(existsSync(path.join(testProjectPath, 'src', 'utils', 'logger.js'))).toBe(true);
+      expect(events).toContainEqual({ type: 'warning', message: 'AI enhancements stopped after logging (EACCES: permission denied)' });
+    });
   });
 }); 
\ No newline at end of file
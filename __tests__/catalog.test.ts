@@ -0,0 +1,72 @@
+import path from 'path';
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { catalogEnhancements, catalogTargets, catalogTemplates, TemplateInfo } from '../generators/catalog';
+
+const sandboxPath = path.join(__dirname, 'test-catalog');
+
+function templateInfo(name: string, deployTargets: string[], extra: Partial<TemplateInfo> = {}): TemplateInfo {
+  return {
+    name,
+    displayName: name,
+    description: '',
+    source: 'bundled',
+    path: `/templates/${name}`,
+    deployTargets,
+    shadowed: false,
+    ...extra
+  };
+}
+
+describe('catalog', () => {
+  beforeEach(() => {
+    mkdirSync(sandboxPath, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should describe the bundled templates', () => {
+    const templates = catalogTemplates({ cwd: sandboxPath, homeDir: sandboxPath, env: {} });
+
+    expect(templates.map(template => template.name)).toEqual(['full-stack', 'node', 'python', 'react']);
+    expect(templates[2]).toEqual(expect.objectContaining({
+      displayName: 'Python',
+      source: 'bundled',
+      language: 'python',
+      deployTargets: ['vercel', 'aws', 'gcp'],
+      shadowed: false
+    }));
+  });
+
+  it('should list which usable templates support each deploy target', () => {
+    const targets = catalogTargets([
+      templateInfo('api', ['aws', 'gcp']),
+      templateInfo('web', ['vercel', 'netlify', 'aws']),
+      templateInfo('api', ['vercel'], { shadowed: true }),
+      templateInfo('broken', ['vercel'], { error: 'Invalid template manifest' })
+    ]);
+
+    expect(targets.map(target => [target.name, target.configFile, target.templates])).toEqual([
+      ['vercel', 'vercel.json', ['web']],
+      ['netlify', 'netlify.toml', ['web']],
+      ['aws', 'serverless.yml', ['api', 'web']],
+      ['gcp', 'app.yaml', ['api']]
+    ]);
+  });
+
+  it('should expose every AI enhancement with its compatible templates', () => {
+    const enhancements = catalogEnhancements();
+
+    expect(enhancements.find(enhancement => enhancement.id === 'logging')).toEqual({
+      id: 'logging',
+      description: 'Add structured logging with Winston',
+      type: 'dependency',
+      priority: 'high',
+      templates: ['node', 'react', 'full-stack']
+    });
+    expect(enhancements.find(enhancement => enhancement.id === 'python-type-hints')!.templates).toEqual(['python']);
+  });
+});
@@ -0,0 +1,81 @@
+import path from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { configDefaults, findPreset, findProjectConfig, loadConfig, readConfigFile } from '../generators/config';
+
+describe('stackstart config', () => {
+  const sandbox = path.join(__dirname, 'test-config');
+  const homeDir = path.join(sandbox, 'home');
+  const projectDir = path.join(sandbox, 'work', 'team');
+  const nestedDir = path.join(projectDir, 'services', 'new');
+
+  const write = (file: string, content: unknown) => {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    mkdirSync(nestedDir, { recursive: true });
+    mkdirSync(homeDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should find the nearest project config up the tree', () => {
+    write(path.join(sandbox, 'work', 'stackstart.config.json'), {});
+    write(path.join(projectDir, 'stackstart.config.js'), 'module.exports = {};');
+
+    expect(findProjectConfig(nestedDir)).toBe(path.join(projectDir, 'stackstart.config.js'));
+    expect(findProjectConfig(path.join(sandbox, 'work'))).toBe(path.join(sandbox, 'work', 'stackstart.config.json'));
+  });
+
+  it('should overlay the project config on ~/.stackstartrc', () => {
+    write(path.join(homeDir, '.stackstartrc'), {
+      author: 'Jamie Doe',
+      license: 'MIT',
+      templatePaths: ['templates'],
+      policy: 'policies/stackstart-policy.json',
+      presets: { personal: { template: 'react' } }
+    });
+    write(path.join(projectDir, 'stackstart.config.json'), {
+      license: 'UNLICENSED',
+      githubOrg: 'acme',
+      templatePaths: ['./shared-templates'],
+      presets: { 'internal-api': { template: 'node', deployTarget: 'aws', enhancements: ['logging', 'security'] } }
+    });
+
+    const { config, files } = loadConfig({ cwd: nestedDir, homeDir });
+
+    expect(files).toEqual([path.join(homeDir, '.stackstartrc'), path.join(projectDir, 'stackstart.config.json')]);
+    expect(configDefaults(config)).toEqual({ author: 'Jamie Doe', license: 'UNLICENSED', githubOrg: 'acme' });
+    // Paths are relative to the file that lists them; the project's come first.
+    expect(config.templatePaths).toEqual([path.join(projectDir, 'shared-templates'), path.join(homeDir, 'templates')]);
+    expect(config.policy).toBe(path.join(homeDir, 'policies', 'stackstart-policy.json'));
+    expect(Object.keys(config.presets!)).toEqual(['personal', 'internal-api']);
+    expect(findPreset(config, 'internal-api')).toEqual({ template: 'node', deployTarget: 'aws', enhancements: ['logging', 'security'] });
+  });
+
+  it('should load JavaScript configs', () => {
+    write(path.join(projectDir, 'stackstart.config.js'), "module.exports = { deployTarget: 'gcp', withDemo: true };");
+
+    expect(readConfigFile(path.join(projectDir, 'stackstart.config.js'))).toEqual({ deployTarget: 'gcp', withDemo: true });
+  });
+
+  it('should reject invalid settings with the file name', () => {
+    const file = path.join(projectDir, 'stackstart.config.json');
+    write(file, { withDemo: 'yes' });
+    expect(() => readConfigFile(file)).toThrow(`Invalid stackstart config at ${file}: "withDemo" must be true or false`);
+
+    write(file, { presets: { api: { enhancements: ['telepathy'] } } });
+    expect(() => readConfigFile(file)).toThrow('preset "api": unknown enhancement \'telepathy\'');
+
+    write(file, '{ nope');
+    expect(() => readConfigFile(file)).toThrow(`Invalid stackstart config at ${file}`);
+  });
+
+  it('should name the available presets when one is missing', () => {
+    expect(() => findPreset({ presets: { web: {}, api: {} } }, 'svc')).toThrow("Unknown preset 'svc'. Available presets: web, api");
+    expect(() => findPreset({}, 'svc')).toThrow('No presets are configured.');
+  });
+});
@@ -0,0 +1,106 @@
+import path from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { ConflictingFileSystem, isEmptyDirectory, keepBothName, mergeJson } from '../generators/conflicts';
+import { MemoryFileSystem, readText } from '../generators/filesystem';
+
+describe('conflict handling', () => {
+  const sandbox = path.join(__dirname, 'test-conflicts');
+  const file = (name: string) => path.join(sandbox, name);
+
+  beforeEach(() => {
+    mkdirSync(path.join(sandbox, '.git'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should treat a directory with only .git as empty', () => {
+    expect(isEmptyDirectory(sandbox)).toBe(true);
+    writeFileSync(file('README.md'), '# Mine\n');
+    expect(isEmptyDirectory(sandbox)).toBe(false);
+  });
+
+  it('should name the second copy next to the original', () => {
+    expect(keepBothName('docs/README.md')).toBe(path.join('docs', 'README.stackstart.md'));
+    expect(keepBothName('.gitignore')).toBe('.gitignore.stackstart');
+  });
+
+  it('should merge JSON with the existing values winning', () => {
+    expect(mergeJson(
+      { name: 'mine', scripts: { test: 'vitest' }, keywords: ['a'] },
+      { name: 'template', scripts: { test: 'jest', lint: 'eslint .' }, keywords: ['a', 'b'], private: true }
+    )).toEqual({ name: 'mine', scripts: { test: 'vitest', lint: 'eslint .' }, keywords: ['a', 'b'], private: true });
+  });
+
+  describe('ConflictingFileSystem', () => {
+    beforeEach(() => {
+      writeFileSync(file('README.md'), '# Mine\n');
+      writeFileSync(file('package.json'), JSON.stringify({ name: 'mine', dependencies: { lodash: '^4.0.0' } }));
+    });
+
+    const create = (policy: 'skip' | 'overwrite' | 'keep-both' | 'ask', mode: 'merge' | 'force' = 'merge') => {
+      const memory = new MemoryFileSystem();
+      return { memory, fs: new ConflictingFileSystem(memory, { root: sandbox, mode, policy }) };
+    };
+
+    it('should write new files and merge JSON', () => {
+      const { memory, fs } = create('skip');
+      fs.writeFile(file('src/index.js'), 'run();\n');
+      fs.writeFile(file('package.json'), JSON.stringify({ name: 'template', dependencies: { express: '^4.18.2' } }));
+      // Files this run already wrote are not conflicts any more.
+      fs.writeFile(file('package.json'), JSON.stringify({ name: 'template', license: 'MIT' }));
+
+      expect(readText(memory, file('src/index.js'))).toBe('run();\n');
+      expect(JSON.parse(readText(memory, file('package.json')))).toEqual({ name: 'template', license: 'MIT' });
+      expect(fs.conflicts).toEqual([{ path: 'package.json', resolution: 'merged' }]);
+    });
+
+    it('should apply the policy to other files', () => {
+      const skip = create('skip');
+      skip.fs.writeFile(file('README.md'), '# Template\n');
+      skip.fs.writeFile(file('README.md'), '# Template again\n');
+      expect(readText(skip.memory, file('README.md'))).toBe('# Mine\n');
+      expect(skip.fs.conflicts).toEqual([{ path: 'README.md', resolution: 'skip' }]);
+
+      const keepBoth = create('keep-both');
+      keepBoth.fs.writeFile(file('README.md'), '# Template\n');
+      expect(readText(keepBoth.memory, file('README.stackstart.md'))).toBe('# Template\n');
+      expect(keepBoth.fs.conflicts).toEqual([{ path: 'README.md', resolution: 'keep-both', keptAs: 'README.stackstart.md' }]);
+
+      const force = create('skip', 'force');
+      force.fs.writeFile(file('package.json'), '{}');
+      expect(readText(force.memory, file('package.json'))).toBe('{}');
+    });
+
+    it('should copy new files and hold copies over existing ones to the policy', () => {
+      writeFileSync(file('logo.png'), Buffer.from([0, 1, 2]));
+      const { memory, fs } = create('keep-both');
+      fs.copyFile(file('logo.png'), file('assets/logo.png'));
+      fs.copyFile(file('logo.png'), file('README.md'));
+
+      expect(memory.readFile(file('assets/logo.png'))).toEqual(Buffer.from([0, 1, 2]));
+      expect(readText(memory, file('README.md'))).toBe('# Mine\n');
+      expect(memory.readFile(file('README.stackstart.md'))).toEqual(Buffer.from([0, 1, 2]));
+      expect(fs.conflicts).toEqual([{ path: 'README.md', resolution: 'keep-both', keptAs: 'README.stackstart.md' }]);
+    });
+
+    it('should hold asked conflicts until they are resolved', async () => {
+      const { memory, fs } = create('ask');
+      fs.writeFile(file('README.md'), '# Template\n');
+      expect(fs.hasPending).toBe(true);
+      expect(readText(fs, file('README.md'))).toBe('# Template\n');
+      expect(readText(memory, file('README.md'))).toBe('# Mine\n');
+
+      const asked: string[] = [];
+      await fs.resolvePending(async conflict => {
+        asked.push(`${conflict.path}: ${conflict.existing.toString()} -> ${conflict.incoming.toString()}`);
+        return 'overwrite';
+      });
+
+      expect(asked).toEqual(['README.md: # Mine\n -> # Template\n']);
+      expect(readText(memory, file('README.md'))).toBe('# Template\n');
+      expect(fs.conflicts).toEqual([{ path: 'README.md', resolution: 'overwrite' }]);
+    });
+  });
+});
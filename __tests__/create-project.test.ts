@@ -0,0 +1,112 @@
+import { createProject, Logger } from '../generators';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from 'fs';
+import path from 'path';
+
+jest.mock('execa');
+jest.mock('simple-git');
+
+const mockExeca = require('execa');
+const mockSimpleGit = require('simple-git');
+
+describe('createProject', () => {
+  const sandboxPath = path.join(__dirname, 'test-create-project');
+
+  function recordingLogger(): Logger & { lines: string[] } {
+    const lines: string[] = [];
+    return {
+      lines,
+      debug: message => lines.push(`debug: ${message}`),
+      info: message => lines.push(`info: ${message}`),
+      warn: message => lines.push(`warn: ${message}`),
+      error: message => lines.push(`error: ${message}`)
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExeca.mockResolvedValue({ stdout: '', stderr: '' });
+    mockSimpleGit.mockReturnValue({
+      init: jest.fn().mockResolvedValue(undefined),
+      add: jest.fn().mockResolvedValue(undefined),
+      commit: jest.fn().mockResolvedValue(undefined)
+    });
+    mkdirSync(sandboxPath, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(sandboxPath, { recursive: true, force: true });
+  });
+
+  it('should create the project in the given directory with defaults for the rest', async () => {
+    const logger = recordingLogger();
+    const result = await createProject({ name: 'billing-api', directory: 'services/billing', cwd: sandboxPath, logger });
+
+    const projectRoot = path.join(sandboxPath, 'services', 'billing');
+    expect(result.projectRoot).toBe(projectRoot);
+    expect(JSON.parse(readFileSync(path.join(projectRoot, 'package.json'), 'utf8')).name).toBe('billing-api');
+    expect(existsSync(path.join(projectRoot, 'vercel.json'))).toBe(true);
+    expect(existsSync(path.join(process.cwd(), 'billing-api'))).toBe(false);
+    // Installs run in the staging directory, which becomes the project on success.
+    expect(mockExeca).toHaveBeenCalledWith('npm', ['install'], expect.objectContaining({ stdio: 'pipe' }));
+
+    expect(logger.lines).toContain('info: Project files generated');
+    expect(logger.lines).toContain('debug: wrote package.json (' + readFileSync(path.join(projectRoot, 'package.json')).length + ' bytes)');
+    expect(logger.lines).toContain('debug: running npm install in .');
+  });
+
+  it('should accept an empty existing directory but not one with files', async () => {
+    await createProject({ name: 'empty', directory: sandboxPath, skipInstall: true, skipGit: true });
+    expect(existsSync(path.join(sandboxPath, 'package.json'))).toBe(true);
+
+    await expect(createProject({ name: 'again', directory: sandboxPath }))
+      .rejects.toThrow('Directory test-create-project is not empty. Use --merge or --force to scaffold into it.');
+  });
+
+  it('should stop before writing anything when already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createProject({ name: 'cancelled', cwd: sandboxPath, signal: controller.signal }))
+      .rejects.toThrow('Scaffolding was cancelled');
+    expect(existsSync(path.join(sandboxPath, 'cancelled'))).toBe(false);
+  });
+
+  it('should stop between steps when cancelled', async () => {
+    const controller = new AbortController();
+    const logger = recordingLogger();
+
+    await expect(createProject({
+      name: 'halfway',
+      cwd: sandboxPath,
+      logger,
+      onEvent: event => {
+        if (event.type === 'step-succeeded' && event.step === 'generate') controller.abort();
+      },
+      signal: controller.signal
+    })).rejects.toThrow('Scaffolding was cancelled');
+
+    expect(readdirSync(sandboxPath)).toEqual([]);
+    expect(mockExeca).not.toHaveBeenCalled();
+    expect(mockSimpleGit).not.toHaveBeenCalled();
+  });
+
+  it('should report failures through the logger and reject', async () => {
+    mockExeca.mockRejectedValueOnce(new Error('registry unreachable'));
+    const logger = recordingLogger();
+
+    await expect(createProject({ name: 'offline', cwd: sandboxPath, logger })).rejects.toThrow('registry unreachable');
+    expect(logger.lines).toContain('error: Dependency installation failed: registry unreachable');
+  });
+
+  it('should not create a GitHub repository unless asked', async () => {
+    const previous = process.env.GITHUB_TOKEN;
+    process.env.GITHUB_TOKEN = 'token';
+    try {
+      const result = await createProject({ name: 'private', cwd: sandboxPath, dryRun: true });
+      expect(result.commands.map(command => command.command)).not.toContain('github');
+    } finally {
+      if (previous === undefined) delete process.env.GITHUB_TOKEN;
+      else process.env.GITHUB_TOKEN = previous;
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { diffLines, formatUnifiedDiff, mergeText } from '../generators/diff';
+
+describe('diffLines', () => {
+  it('should keep common lines and mark the rest', () => {
+    expect(diffLines('a\nb\nc\n', 'a\nx\nc\n')).toEqual([
+      { type: 'same', line: 'a' },
+      { type: 'removed', line: 'b' },
+      { type: 'added', line: 'x' },
+      { type: 'same', line: 'c' }
+    ]);
+    expect(diffLines('', 'a\n')).toEqual([{ type: 'added', line: 'a' }]);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('should print hunks with three lines of context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+    const after = ['1', '2', '3', '4', '5', '6', '7', '8', 'nine', '10'].join('\n');
+
+    expect(formatUnifiedDiff('notes.txt', before, after)).toBe([
+      '--- notes.txt (existing)',
+      '+++ notes.txt (template)',
+      '@@ -6,5 +6,5 @@',
+      ' 6',
+      ' 7',
+      ' 8',
+      '-9',
+      '+nine',
+      ' 10'
+    ].join('\n'));
+  });
+});
+
+describe('mergeText', () => {
+  const base = ['a', 'b', 'c', 'd', 'e', ''].join('\n');
+
+  it('should take changes from both sides when they do not overlap', () => {
+    const ours = ['a', 'B', 'c', 'd', 'e', ''].join('\n');
+    const theirs = ['a', 'b', 'c', 'd', 'E', 'f', ''].join('\n');
+
+    expect(mergeText(base, ours, theirs)).toEqual({ text: ['a', 'B', 'c', 'd', 'E', 'f', ''].join('\n'), conflicts: 0 });
+  });
+
+  it('should accept the same change made on both sides', () => {
+    const both = ['a', 'b', 'x', 'd', 'e', ''].join('\n');
+
+    expect(mergeText(base, both, both)).toEqual({ text: both, conflicts: 0 });
+  });
+
+  it('should mark clashing changes', () => {
+    const ours = ['a', 'b', 'mine', 'd', 'e', ''].join('\n');
+    const theirs = ['a', 'b', 'theirs', 'd', 'e', ''].join('\n');
+
+    expect(mergeText(base, ours, theirs, ['yours', 'node 2.0.0'])).toEqual({
+      text: ['a', 'b', '<<<<<<< yours', 'mine', '=======', 'theirs', '>>>>>>> node 2.0.0', 'd', 'e', ''].join('\n'),
+      conflicts: 1
+    });
+  });
+
+  it('should treat a file added on both sides as one conflict', () => {
+    expect(mergeText('', 'x\n', 'y\n').conflicts).toBe(1);
+    expect(mergeText('', 'x\n', 'x\n')).toEqual({ text: 'x\n', conflicts: 0 });
+  });
+});
@@ -0,0 +1,68 @@
+import path from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { runDoctor } from '../generators/doctor';
+
+describe('runDoctor', () => {
+  const sandbox = path.join(__dirname, 'test-doctor');
+
+  const write = (file: string, content: string) => {
+    mkdirSync(path.dirname(path.join(sandbox, file)), { recursive: true });
+    writeFileSync(path.join(sandbox, file), content);
+  };
+
+  beforeEach(() => {
+    write('package.json', JSON.stringify({ name: 'billing', devDependencies: { jest: '^29.7.0', eslint: '^8.0.0' } }));
+    write('src/index.js', 'module.exports = () => 42;\n');
+    write('README.md', '# billing\n');
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('reports each check with its evidence and scores the project', async () => {
+    const report = await runDoctor({ cwd: sandbox });
+
+    expect(report.template).toBe('node');
+    expect(report.checks.find(check => check.id === 'hasTests')).toEqual({
+      id: 'hasTests',
+      label: 'tests',
+      passed: true,
+      evidence: 'jest in devDependencies'
+    });
+    expect(report.checks.find(check => check.id === 'hasLinting')!.evidence).toBe('eslint in devDependencies');
+    expect(report.checks.find(check => check.id === 'hasDocumentation')!.evidence).toBe('README.md');
+    expect(report.checks.filter(check => check.passed).map(check => check.id)).toEqual(['hasTests', 'hasLinting', 'hasDocumentation']);
+    expect(report.score).toBe(27);
+  });
+
+  it('suggests the enhancement that fills each gap', async () => {
+    const report = await runDoctor({ cwd: sandbox });
+    const fixes = Object.fromEntries(report.checks.map(check => [check.id, check.fix]));
+
+    expect(fixes.hasLogging).toBe('logging');
+    expect(fixes.hasValidation).toBe('validation');
+    expect(fixes.hasApiDocumentation).toBe('api-docs');
+    expect(fixes.hasFormatting).toBeUndefined();
+    expect(fixes.hasTests).toBeUndefined();
+  });
+
+  it('only counts the checks that apply to the kind of project', async () => {
+    rmSync(sandbox, { recursive: true, force: true });
+    write('requirements.txt', 'flask==3.0.0\npytest==7.4.0\n');
+    write('app.py', 'print("hi")\n');
+
+    const report = await runDoctor({ cwd: sandbox });
+
+    expect(report.template).toBe('python');
+    expect(report.checks.map(check => check.id)).not.toContain('hasTypeScript');
+    expect(report.checks.find(check => check.id === 'hasTests')!.evidence).toBe('pytest in requirements.txt');
+    expect(report.checks.find(check => check.id === 'hasLogging')!.fix).toBe('python-logging');
+    expect(report.checks.find(check => check.id === 'hasErrorHandling')!.fix).toBeUndefined();
+    expect(report.score).toBe(10);
+  });
+
+  it('fails on a directory that does not exist', async () => {
+    await expect(runDoctor({ cwd: path.join(sandbox, 'missing') })).rejects.toThrow('does not exist');
+  });
+});
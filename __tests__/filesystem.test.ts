@@ -0,0 +1,47 @@
+import path from 'path';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { MemoryFileSystem, readText, recordWrites } from '../generators/filesystem';
+
+describe('MemoryFileSystem', () => {
+  const sandbox = path.join(__dirname, 'test-filesystem');
+
+  beforeEach(() => {
+    mkdirSync(path.join(sandbox, 'on-disk'), { recursive: true });
+    writeFileSync(path.join(sandbox, 'on-disk', 'existing.txt'), 'from disk');
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('keeps writes in memory', () => {
+    const fs = new MemoryFileSystem();
+    const target = path.join(sandbox, 'project', 'src', 'index.js');
+    fs.writeFile(target, 'console.log(1);\n');
+
+    expect(existsSync(path.join(sandbox, 'project'))).toBe(false);
+    expect(fs.exists(target)).toBe(true);
+    expect(fs.isDirectory(path.join(sandbox, 'project', 'src'))).toBe(true);
+    expect(readText(fs, target)).toBe('console.log(1);\n');
+    expect(fs.list(path.join(sandbox, 'project')).map(file => file.path)).toEqual([target]);
+  });
+
+  it('falls back to disk for paths it has not written', () => {
+    const fs = new MemoryFileSystem();
+    fs.writeFile(path.join(sandbox, 'on-disk', 'new.txt'), 'from memory');
+
+    expect(readText(fs, path.join(sandbox, 'on-disk', 'existing.txt'))).toBe('from disk');
+    expect(fs.readdir(path.join(sandbox, 'on-disk'))).toEqual(['existing.txt', 'new.txt']);
+    expect(() => fs.readdir(path.join(sandbox, 'missing'))).toThrow('ENOENT');
+  });
+
+  it('reports writes through recordWrites', () => {
+    const written: string[] = [];
+    const fs = recordWrites(new MemoryFileSystem(), target => written.push(target));
+    fs.writeFile(path.join(sandbox, 'a.txt'), 'a');
+    fs.copyFile(path.join(sandbox, 'on-disk', 'existing.txt'), path.join(sandbox, 'b.txt'));
+    fs.mkdir(path.join(sandbox, 'dir'));
+
+    expect(written).toEqual([path.join(sandbox, 'a.txt'), path.join(sandbox, 'b.txt')]);
+  });
+});
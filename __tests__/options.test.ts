@@ -0,0 +1,39 @@
+import { createOptionProblems, validateCreateOptions } from '../generators/options';
+import { loadTemplateManifest } from '../generators/template-manifest';
+import { bundledTemplatesRoot } from '../generators/template-resolver';
+import path from 'path';
+
+describe('create options', () => {
+  const python = loadTemplateManifest(path.join(bundledTemplatesRoot(), 'python'));
+  const node = loadTemplateManifest(path.join(bundledTemplatesRoot(), 'node'));
+
+  it('should accept known options', () => {
+    expect(createOptionProblems({ deployTarget: 'aws', license: 'mit', packageManager: 'pnpm', enhancements: ['logging'] }, node)).toEqual([]);
+  });
+
+  it('should reject unknown names with a suggestion', () => {
+    expect(createOptionProblems({ deployTarget: 'aws-lambda' })).toEqual([
+      "Unknown deploy target 'aws-lambda'. Did you mean 'aws'? Choose one of: vercel, netlify, aws, gcp"
+    ]);
+    expect(createOptionProblems({ license: 'MTI' })[0]).toMatch(/^Unknown license 'MTI'\. Did you mean 'MIT'\?/);
+    expect(createOptionProblems({ packageManager: 'yran' })[0]).toMatch(/^Unknown package manager 'yran'\. Did you mean 'yarn'\?/);
+    expect(createOptionProblems({ enhancements: ['loging'] })[0]).toMatch(/^Unknown enhancement 'loging'\. Did you mean 'logging'\?/);
+  });
+
+  it('should reject deploy targets the template does not support', () => {
+    expect(createOptionProblems({ deployTarget: 'netlify' })).toEqual([]);
+    expect(createOptionProblems({ deployTarget: 'netlify' }, python)).toEqual([
+      "Template 'python' does not support deploy target 'netlify'. It supports: vercel, aws, gcp"
+    ]);
+  });
+
+  it('should only check the package manager of JavaScript templates', () => {
+    expect(createOptionProblems({ packageManager: 'poetry' }, python)).toEqual([]);
+    expect(createOptionProblems({ packageManager: 'poetry' }, node)).toHaveLength(1);
+  });
+
+  it('should report every problem at once', () => {
+    expect(() => validateCreateOptions({ deployTarget: 'heroku', license: 'BSD' }))
+      .toThrow(/^Unknown deploy target 'heroku'\. Choose one of: .*\nUnknown license 'BSD'\./);
+  });
+});
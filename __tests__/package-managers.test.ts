@@ -0,0 +1,46 @@
+import path from 'path';
+import { MemoryFileSystem } from '../generators/filesystem';
+import {
+  detectPackageManager,
+  findPackageManager,
+  PackageManager,
+  projectPackageManager,
+  translateCommand
+} from '../generators/package-managers';
+
+describe('package managers', () => {
+  const npm = findPackageManager('npm') as PackageManager;
+  const pnpm = findPackageManager('pnpm') as PackageManager;
+  const bun = findPackageManager('bun') as PackageManager;
+
+  it('should detect the package manager from its user agent', () => {
+    expect(detectPackageManager('pnpm/9.1.0 npm/? node/v20.11.0 linux x64')).toBe('pnpm');
+    expect(detectPackageManager('npm/10.2.4 node/v20.11.0 darwin arm64 workspaces/false')).toBe('npm');
+    expect(detectPackageManager('yarn/1.22.19 npm/? node/v18.19.0 win32 x64')).toBe('yarn');
+    expect(detectPackageManager('bun/1.1.8 npm/? node/v21.6.0 linux x64')).toBe('bun');
+    expect(detectPackageManager('cnpm/9.0.0 node/v20.11.0')).toBeUndefined();
+    expect(detectPackageManager('')).toBeUndefined();
+  });
+
+  it('should translate template commands', () => {
+    expect(translateCommand('npm install', npm, pnpm)).toBe('pnpm install');
+    expect(translateCommand('npm test', npm, bun)).toBe('bun run test');
+    expect(translateCommand('npm run build', npm, pnpm)).toBe('pnpm run build');
+    expect(translateCommand('npm start', npm, bun)).toBe('bun run start');
+    expect(translateCommand('node src/index.js', npm, pnpm)).toBe('node src/index.js');
+    expect(translateCommand('npm install --legacy-peer-deps', npm, npm)).toBe('npm install --legacy-peer-deps');
+  });
+
+  it('should read the package manager off an existing project', () => {
+    const fs = new MemoryFileSystem();
+    const project = path.join(__dirname, 'test-package-managers');
+    expect(projectPackageManager(project, fs)).toBeUndefined();
+
+    fs.writeFile(path.join(project, 'package.json'), '{}');
+    fs.writeFile(path.join(project, 'yarn.lock'), '');
+    expect(projectPackageManager(project, fs)!.name).toBe('yarn');
+
+    fs.writeFile(path.join(project, 'package.json'), JSON.stringify({ packageManager: 'pnpm@9.1.0' }));
+    expect(projectPackageManager(project, fs)!.name).toBe('pnpm');
+  });
+});
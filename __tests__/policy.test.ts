@@ -0,0 +1,117 @@
+import path from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { checkPolicy, findPolicy, POLICY_FILE, policySarif, readPolicy } from '../generators/policy';
+
+describe('policy', () => {
+  const sandbox = path.join(__dirname, 'test-policy');
+  const projectRoot = path.join(sandbox, 'services', 'billing');
+  const policyFile = path.join(sandbox, POLICY_FILE);
+
+  const write = (file: string, content: unknown) => {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    write(path.join(projectRoot, 'package.json'), {
+      name: 'billing',
+      dependencies: { express: '^4.18.2', mongoose: '^8.0.0', winston: '^3.11.0' },
+      devDependencies: { jest: '^29.7.0' }
+    });
+    write(path.join(projectRoot, 'src', 'index.js'), 'module.exports = () => 42;\n');
+    write(policyFile, {
+      templates: {
+        '*': { required: ['tests', 'codeql'] },
+        node: { required: ['logging', 'validation'], forbidden: ['dependency:mongoose', 'file:.npmrc'], recommended: ['api-docs'] },
+        react: { required: ['typescript'] }
+      }
+    });
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('finds the nearest policy, else the configured one', () => {
+    expect(findPolicy(projectRoot)).toBe(policyFile);
+    rmSync(policyFile);
+    expect(findPolicy(projectRoot, '/etc/acme/policy.json')).toBe('/etc/acme/policy.json');
+    expect(findPolicy(projectRoot)).toBeUndefined();
+  });
+
+  it('reports broken rules for the sections that apply', async () => {
+    const report = await checkPolicy(readPolicy(policyFile), { cwd: projectRoot });
+
+    expect(report.template).toBe('node');
+    expect(report.sections).toEqual(['*', 'node']);
+    expect(report.violations).toEqual([
+      { rule: 'required', capability: 'codeql', level: 'error', message: 'CodeQL is required but missing' },
+      { rule: 'required', capability: 'validation', level: 'error', message: 'validation is required but missing', fix: 'validation' },
+      { rule: 'forbidden', capability: 'dependency:mongoose', level: 'error', message: 'mongoose is forbidden (mongoose in dependencies)', file: 'package.json' },
+      { rule: 'recommended', capability: 'api-docs', level: 'warning', message: 'API documentation is recommended but missing', fix: 'api-docs' }
+    ]);
+    expect(report.errors).toBe(3);
+  });
+
+  it('finds dependencies subprojects declare', async () => {
+    write(path.join(projectRoot, 'package.json'), { name: 'billing', private: true, workspaces: ['server', 'client'] });
+    write(path.join(projectRoot, 'server', 'package.json'), { name: 'billing-server', dependencies: { express: '^4.18.2', mongoose: '^8.0.0' } });
+    write(path.join(projectRoot, 'client', 'package.json'), { name: 'billing-client', dependencies: { react: '^18.2.0' } });
+    write(path.join(projectRoot, 'server', 'node_modules', 'left-pad', 'package.json'), { name: 'left-pad', dependencies: { 'is-odd': '^3.0.0' } });
+    write(policyFile, { templates: { '*': { forbidden: ['dependency:mongoose', 'dependency:react', 'dependency:is-odd'] } } });
+
+    const report = await checkPolicy(readPolicy(policyFile), { cwd: projectRoot });
+
+    expect(report.violations).toEqual([
+      { rule: 'forbidden', capability: 'dependency:mongoose', level: 'error', message: 'mongoose is forbidden (mongoose in server/package.json)', file: 'server/package.json' },
+      { rule: 'forbidden', capability: 'dependency:react', level: 'error', message: 'react is forbidden (react in client/package.json)', file: 'client/package.json' }
+    ]);
+  });
+
+  it('passes a project that follows the policy', async () => {
+    write(path.join(projectRoot, 'package.json'), {
+      name: 'billing',
+      dependencies: { express: '^4.18.2', joi: '^17.11.0', pino: '^8.0.0' },
+      devDependencies: { jest: '^29.7.0' }
+    });
+    write(path.join(projectRoot, '.github', 'codeql.yml'), 'steps:\n  - uses: github/codeql-action/init@v3\n');
+    write(path.join(projectRoot, 'swagger.json'), '{}');
+
+    const report = await checkPolicy(readPolicy(policyFile), { cwd: projectRoot });
+
+    expect(report.violations).toEqual([]);
+    expect(report.errors).toBe(0);
+  });
+
+  it('writes violations as SARIF', async () => {
+    const report = await checkPolicy(readPolicy(policyFile), { cwd: projectRoot });
+    const sarif = policySarif(report) as any;
+
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver.name).toBe('stackstart');
+    expect(run.tool.driver.rules.map((rule: any) => rule.id)).toEqual([
+      'required:codeql', 'required:validation', 'forbidden:dependency:mongoose', 'recommended:api-docs'
+    ]);
+    expect(run.results[1]).toEqual({
+      ruleId: 'required:validation',
+      level: 'error',
+      message: { text: 'validation is required but missing. Run `stackstart add validation` to fix it.' }
+    });
+    expect(run.results[2].locations).toEqual([{ physicalLocation: { artifactLocation: { uri: 'package.json' } } }]);
+  });
+
+  it('rejects policies it cannot enforce', () => {
+    write(policyFile, { templates: { node: { required: ['loging'] } } });
+    expect(() => readPolicy(policyFile)).toThrow(`Invalid stackstart policy at ${policyFile}: "node"."required": unknown capability 'loging'. Did you mean 'logging'?`);
+
+    write(policyFile, { templates: { node: { banned: ['dependency:mongoose'] } } });
+    expect(() => readPolicy(policyFile)).toThrow('"node": unknown rule "banned"');
+
+    write(policyFile, { templates: { node: { forbidden: ['dependency:'] } } });
+    expect(() => readPolicy(policyFile)).toThrow("'dependency:' needs a package name after the colon");
+
+    write(policyFile, { node: {} });
+    expect(() => readPolicy(policyFile)).toThrow('expected an object with "templates"');
+  });
+});
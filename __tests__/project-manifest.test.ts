@@ -0,0 +1,98 @@
+import path from 'path';
+import { mkdirSync, rmSync, writeFileSync, unlinkSync } from 'fs';
+import {
+  fileChanges,
+  hashContent,
+  hashFiles,
+  PROJECT_MANIFEST_FILE,
+  ProjectManifest,
+  readProjectManifest,
+  STACKSTART_VERSION,
+  updateProjectManifest,
+  writeProjectManifest
+} from '../generators/project-manifest';
+
+describe('project manifest', () => {
+  const sandbox = path.join(__dirname, 'test-project-manifest');
+
+  const manifestFor = (files: Record<string, string>): ProjectManifest => ({
+    manifestVersion: 1,
+    stackstartVersion: '0.0.1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    projectName: 'demo',
+    template: { spec: 'node', name: 'node', source: 'bundled', version: '0.0.1' },
+    options: { deployTarget: 'vercel', withDemo: false, aiEnhanced: false },
+    enhancements: [],
+    files
+  });
+
+  beforeEach(() => {
+    mkdirSync(path.join(sandbox, 'src'), { recursive: true });
+    writeFileSync(path.join(sandbox, 'src', 'index.js'), 'console.log(1);\n');
+    writeFileSync(path.join(sandbox, 'README.md'), '# demo\n');
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('hashes files by their project-relative path', () => {
+    const hashes = hashFiles(sandbox, ['src/index.js', 'README.md', 'missing.txt', PROJECT_MANIFEST_FILE]);
+
+    expect(Object.keys(hashes)).toEqual(['README.md', 'src/index.js']);
+    expect(hashes['src/index.js']).toBe(hashContent('console.log(1);\n'));
+    expect(hashes['src/index.js']).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('returns undefined for a project without a manifest', () => {
+    expect(readProjectManifest(sandbox)).toBeUndefined();
+  });
+
+  it('reads back what was written', () => {
+    const manifest = manifestFor({ 'README.md': hashContent('# demo\n') });
+    writeProjectManifest(sandbox, manifest);
+
+    expect(readProjectManifest(sandbox)).toEqual(manifest);
+  });
+
+  it('rejects a manifest that is not valid JSON', () => {
+    writeFileSync(path.join(sandbox, PROJECT_MANIFEST_FILE), '{ nope');
+
+    expect(() => readProjectManifest(sandbox)).toThrow('Invalid .stackstart.json');
+  });
+
+  it('rejects a manifest from a newer stackstart', () => {
+    writeProjectManifest(sandbox, { ...manifestFor({}), manifestVersion: 99, stackstartVersion: '9.0.0' });
+
+    expect(() => readProjectManifest(sandbox)).toThrow('written by a newer stackstart (9.0.0)');
+  });
+
+  it('stamps updates with this stackstart', () => {
+    writeProjectManifest(sandbox, manifestFor({}));
+
+    const updated = updateProjectManifest(sandbox, manifest => ({ ...manifest, enhancements: ['logging'] }));
+
+    expect(updated.stackstartVersion).toBe(STACKSTART_VERSION);
+    expect(updated.updatedAt).not.toBe('2024-01-01T00:00:00.000Z');
+    expect(updated.createdAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(readProjectManifest(sandbox)!.enhancements).toEqual(['logging']);
+  });
+
+  it('refuses to update a project stackstart did not create', () => {
+    expect(() => updateProjectManifest(sandbox, manifest => manifest)).toThrow('No .stackstart.json');
+  });
+
+  it('tells edited and deleted files from untouched ones', () => {
+    const manifest = manifestFor(hashFiles(sandbox, ['src/index.js', 'README.md']));
+    writeFileSync(path.join(sandbox, 'README.md'), '# demo\n\nEdited.\n');
+    unlinkSync(path.join(sandbox, 'src', 'index.js'));
+    writeFileSync(path.join(sandbox, 'extra.txt'), 'not generated');
+
+    expect(fileChanges(sandbox, manifest)).toEqual({
+      unchanged: [],
+      modified: ['README.md'],
+      deleted: ['src/index.js']
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { deriveProjectNames, projectNameProblems, suggestProjectName, validateProjectName } from '../generators/project-name';
+
+describe('project names', () => {
+  it('should accept names that are valid everywhere', () => {
+    expect(projectNameProblems('billing-service', ['javascript', 'python'])).toEqual([]);
+    expect(projectNameProblems('@acme/billing', ['javascript'])).toEqual([]);
+    expect(projectNameProblems('Billing_Service', ['python'])).toEqual([]);
+  });
+
+  it('should apply npm rules to JavaScript projects', () => {
+    expect(projectNameProblems('My App', ['javascript'])).toEqual([
+      'npm names must be lowercase',
+      'npm names cannot contain spaces'
+    ]);
+    expect(projectNameProblems('_private', ['javascript'])).toEqual(['npm names cannot start with . or _']);
+    expect(projectNameProblems('acme/billing', ['javascript'])).toContain('npm names can only contain a slash after an @scope');
+    expect(projectNameProblems('café', ['javascript'])).toEqual(['npm names can only contain letters, digits, - . _ and ~']);
+  });
+
+  it('should apply PyPI rules to Python projects', () => {
+    expect(projectNameProblems('@acme/billing', ['python'])).toEqual([
+      'PyPI names can only contain letters, digits, - . and _, and must start and end with a letter or digit'
+    ]);
+    expect(projectNameProblems('billing-', ['python'])).toHaveLength(1);
+  });
+
+  it('should apply directory rules to every project', () => {
+    expect(projectNameProblems('con', ['python'])).toEqual(["'con' is a reserved file name on Windows"]);
+    expect(projectNameProblems('what?', [])).toEqual(['directory names cannot contain < > : " / \\ | ? * or control characters']);
+    expect(projectNameProblems('  ', ['javascript'])).toEqual(['the project name cannot be empty']);
+  });
+
+  it('should suggest a name that passes', () => {
+    expect(suggestProjectName('My Billing App', ['javascript'])).toBe('my-billing-app');
+    expect(suggestProjectName('@Acme/Billing API', ['javascript'])).toBe('@acme/billing-api');
+    expect(suggestProjectName('@acme/billing', ['javascript', 'python'])).toBe('acme-billing');
+    expect(() => validateProjectName('My App', ['javascript'])).toThrow(
+      "Invalid project name 'My App': npm names must be lowercase; npm names cannot contain spaces. Try 'my-app'."
+    );
+  });
+
+  it('should derive an identifier for each ecosystem', () => {
+    expect(deriveProjectNames('@acme/billing-api')).toEqual({
+      projectName: '@acme/billing-api',
+      npmName: '@acme/billing-api',
+      directoryName: 'billing-api',
+      pythonModule: 'billing_api',
+      projectTitle: 'Billing Api',
+      serviceName: 'billing-api'
+    });
+    expect(deriveProjectNames('3D Viewer')).toEqual(expect.objectContaining({
+      npmName: '3-d-viewer',
+      directoryName: '3D Viewer',
+      pythonModule: 'app_3_d_viewer',
+      serviceName: 'svc-3-d-viewer'
+    }));
+  });
+});
@@ -1,5 +1,6 @@
 import { generateScaffold } from '../generators/scaffold';
-import { existsSync, readFileSync, rmSync } from 'fs';
+import { ScaffoldEvent } from '../generators/events';
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
 import path from 'path';
 
 // Mock dependencies
@@ -70,6 +71,35 @@ describe('generateScaffold', () => {
       const packageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8'));
       expect(packageJson.name).toBe(testProjectName);
     });
+
+    it('should rename underscore dotfiles on copy', async () => {
+      await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false
+      });
+
+      expect(existsSync(path.join(testProjectPath, '.gitignore'))).toBe(true);
+      expect(existsSync(path.join(testProjectPath, '_gitignore'))).toBe(false);
+      expect(readFileSync(path.join(testProjectPath, '.gitignore'), 'utf8')).toContain('node_modules/');
+    });
+
+    it('should write the chosen license and use the chosen package manager', async () => {
+      await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        license: 'MIT',
+        packageManager: 'pnpm'
+      });
+
+      expect(readFileSync(path.join(testProjectPath, 'LICENSE'), 'utf8')).toContain(`Copyright (c) ${new Date().getFullYear()} ${testProjectName} contributors`);
+      const packageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8'));
+      expect(packageJson.license).toBe('MIT');
+      expect(mockExeca).toHaveBeenCalledWith('pnpm', ['install'], expect.anything());
+    });
   });
 
   describe('React template', () => {
@@ -86,6 +116,22 @@ describe('generateScaffold', () => {
       expect(existsSync(path.join(testProjectPath, 'src/App.jsx'))).toBe(true);
       expect(existsSync(path.join(testProjectPath, '.github/workflows/ci.yml'))).toBe(true);
     });
+
+    it('should render placeholders without mangling JSX', async () => {
+      await generateScaffold(testProjectName, {
+        template: 'react',
+        aiEnhanced: false,
+        deployTarget: 'aws',
+        withDemo: false
+      });
+
+      const app = readFileSync(path.join(testProjectPath, 'src/App.jsx'), 'utf8');
+      expect(app).toContain("style={{ textAlign: 'center', marginTop: '2rem' }}");
+      expect(app).toContain(`Hello from ${testProjectName}!`);
+
+      const serverless = JSON.parse(readFileSync(path.join(testProjectPath, 'serverless.yml'), 'utf8'));
+      expect(serverless.service).toBe(testProjectName);
+    });
   });
 
   describe('Python template', () => {
@@ -102,6 +148,25 @@ describe('generateScaffold', () => {
       expect(existsSync(path.join(testProjectPath, 'src'))).toBe(true);
       expect(existsSync(path.join(testProjectPath, '.github/workflows/ci.yml'))).toBe(true);
     });
+
+    it('should generate Python CI and Dependabot config from the manifest', async () => {
+      await generateScaffold(testProjectName, {
+        template: 'python',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false
+      });
+
+      const ciYaml = readFileSync(path.join(testProjectPath, '.github/workflows/ci.yml'), 'utf8');
+      expect(ciYaml).toContain('name: CI (Python)');
+      expect(ciYaml).toContain('run: pip install -r requirements.txt');
+      expect(ciYaml).toContain('${{ matrix.python-version }}');
+
+      const dependabot = readFileSync(path.join(testProjectPath, '.github/dependabot.yml'), 'utf8');
+      expect(dependabot).toContain('package-ecosystem: pip');
+      expect(existsSync(path.join(testProjectPath, 'template.json'))).toBe(false);
+      expect(mockExeca).toHaveBeenCalledWith('pip', ['install', '-r', 'requirements.txt'], expect.anything());
+    });
   });
 
   describe('Full-stack template', () => {
@@ -119,6 +184,149 @@ describe('generateScaffold', () => {
       expect(existsSync(path.join(testProjectPath, 'package.json'))).toBe(true);
       expect(existsSync(path.join(testProjectPath, '.github/workflows/ci.yml'))).toBe(true);
     });
+
+    it('should derive CI jobs, dependencies and deploy config from subprojects', async () => {
+      await generateScaffold(testProjectName, {
+        template: 'full-stack',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: true
+      });
+
+      const ciYaml = readFileSync(path.join(testProjectPath, '.github/workflows/ci.yml'), 'utf8');
+      expect(ciYaml).toContain('working-directory: server');
+      expect(ciYaml).toContain('working-directory: client');
+
+      const serverPackageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'server/package.json'), 'utf8'));
+      expect(serverPackageJson.dependencies.express).toBeDefined();
+
+      const vercelJson = JSON.parse(readFileSync(path.join(testProjectPath, 'vercel.json'), 'utf8'));
+      expect(vercelJson.routes[0]).toEqual({ src: '/api/(.*)', dest: '/server/$1' });
+
+      const serverIndex = readFileSync(path.join(testProjectPath, 'server/src/index.js'), 'utf8');
+      expect(serverIndex).toContain(`Hello from the ${testProjectName} API!`);
+      expect(existsSync(path.join(testProjectPath, 'demo'))).toBe(false);
+      // server/ and client/ are workspaces, installed together from the root.
+      const rootPackageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8'));
+      expect(rootPackageJson.workspaces).toEqual(['server', 'client']);
+      // npm and pnpm refuse workspaces that share a name with each other or the root.
+      const clientPackageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'client/package.json'), 'utf8'));
+      expect([rootPackageJson.name, serverPackageJson.name, clientPackageJson.name])
+        .toEqual([testProjectName, `${testProjectName}-server`, `${testProjectName}-client`]);
+      expect(mockExeca).toHaveBeenCalledTimes(1);
+    });
+
+    it('should set the whole project up for the chosen package manager', async () => {
+      await generateScaffold(testProjectName, {
+        template: 'full-stack',
+        aiEnhanced: false,
+        deployTarget: 'netlify',
+        withDemo: false,
+        packageManager: 'pnpm'
+      });
+
+      const rootPackageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8'));
+      expect(rootPackageJson.workspaces).toBeUndefined();
+      expect(rootPackageJson.scripts['dev:server']).toBe('cd server && pnpm run start');
+      expect(rootPackageJson.scripts['install:all']).toBe('pnpm install');
+      expect(readFileSync(path.join(testProjectPath, 'pnpm-workspace.yaml'), 'utf8')).toBe("packages:\n  - 'server'\n  - 'client'\n");
+
+      const ciYaml = readFileSync(path.join(testProjectPath, '.github/workflows/ci.yml'), 'utf8');
+      expect(ciYaml).toContain('uses: pnpm/action-setup@v4');
+      expect(ciYaml).toContain("cache: 'pnpm'\n          cache-dependency-path: pnpm-lock.yaml");
+      expect(ciYaml).toContain('run: pnpm install --frozen-lockfile\n        working-directory: .');
+      expect(ciYaml).toContain('run: pnpm run lint');
+      expect(ciYaml).toContain('run: pnpm test');
+      expect(ciYaml).not.toContain('npm ci');
+
+      expect(readFileSync(path.join(testProjectPath, 'netlify.toml'), 'utf8')).toContain('command = "pnpm run build"');
+      const dependabot = readFileSync(path.join(testProjectPath, '.github/dependabot.yml'), 'utf8');
+      expect(dependabot).not.toContain('/server');
+      expect(mockExeca).toHaveBeenCalledTimes(1);
+      expect(mockExeca).toHaveBeenCalledWith('pnpm', ['install'], expect.anything());
+    });
+  });
+
+  describe('Composed templates', () => {
+    const composedTemplatePath = path.join(__dirname, 'test-composed-template');
+
+    beforeEach(() => {
+      const { mkdirSync, writeFileSync } = require('fs');
+      mkdirSync(composedTemplatePath, { recursive: true });
+      writeFileSync(path.join(composedTemplatePath, 'template.json'), JSON.stringify({
+        name: 'fastapi-react',
+        displayName: 'FastAPI + React',
+        language: 'python',
+        packageManager: 'pip',
+        installCommand: 'pip install -r requirements.txt',
+        testCommand: 'pytest',
+        buildOutputDir: 'web/dist',
+        entryPoint: 'api/src/main.py',
+        startCommand: 'python api/src/main.py',
+        ci: 'python',
+        deployTargets: ['vercel', 'aws'],
+        subprojects: [
+          { name: 'api', template: 'python', path: 'api', role: 'api', dependencies: { fastapi: '>=0.110' } },
+          { name: 'web', template: 'react', path: 'web', role: 'web', context: { projectName: '{{projectName}}-web' } }
+        ]
+      }));
+      writeFileSync(path.join(composedTemplatePath, 'README.md'), '{{#each subprojects}}- {{path}} ({{template}})\n{{/each}}');
+    });
+
+    afterEach(() => {
+      rmSync(composedTemplatePath, { recursive: true, force: true });
+    });
+
+    it('should give each mount its own context, install step and CI job', async () => {
+      await generateScaffold(testProjectName, {
+        template: composedTemplatePath,
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false
+      });
+
+      const webPackageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'web/package.json'), 'utf8'));
+      expect(webPackageJson.name).toBe(`${testProjectName}-web`);
+      expect(readFileSync(path.join(testProjectPath, 'api/requirements.txt'), 'utf8')).toContain('fastapi>=0.110');
+      expect(readFileSync(path.join(testProjectPath, 'README.md'), 'utf8')).toBe('- api (python)\n- web (react)\n');
+
+      const ciYaml = readFileSync(path.join(testProjectPath, '.github/workflows/ci.yml'), 'utf8');
+      expect(ciYaml).toContain('  api:');
+      expect(ciYaml).toContain('Setup Python');
+      expect(ciYaml).toContain('working-directory: web');
+
+      const dependabot = readFileSync(path.join(testProjectPath, '.github/dependabot.yml'), 'utf8');
+      expect(dependabot).toContain('package-ecosystem: pip\n    directory: "/api"');
+      expect(dependabot).toContain('package-ecosystem: npm\n    directory: "/web"');
+      expect(dependabot).not.toContain('directory: "/"\n');
+
+      const codeql = readFileSync(path.join(testProjectPath, '.github/codeql.yml'), 'utf8');
+      expect(codeql).toContain("language: ['python', 'javascript']");
+
+      const vercelJson = JSON.parse(readFileSync(path.join(testProjectPath, 'vercel.json'), 'utf8'));
+      expect(vercelJson.builds).toContainEqual({ src: 'api/src/main.py', use: '@vercel/python' });
+      expect(vercelJson.routes[0]).toEqual({ src: '/api/(.*)', dest: '/api/src/main.py' });
+
+      // No dependency manifest at the root, so only the mounts are installed.
+      expect(mockExeca).toHaveBeenCalledTimes(2);
+      // Installs run in the staging directory that becomes the project.
+      expect(mockExeca).toHaveBeenCalledWith('pip', ['install', '-r', 'requirements.txt'], expect.objectContaining({
+        cwd: expect.stringMatching(/[\\/]\.test-project\.stackstart-\w+[\\/]api$/)
+      }));
+    });
+
+    it('should deploy the api mount to AWS', async () => {
+      await generateScaffold(testProjectName, {
+        template: composedTemplatePath,
+        aiEnhanced: false,
+        deployTarget: 'aws',
+        withDemo: false
+      });
+
+      const serverless = JSON.parse(readFileSync(path.join(testProjectPath, 'serverless.yml'), 'utf8'));
+      expect(serverless.provider.runtime).toBe('python3.9');
+      expect(serverless.functions.api.handler).toBe('api/src/main.handler');
+    });
   });
 
   describe('Error handling', () => {
@@ -143,6 +351,38 @@ describe('generateScaffold', () => {
       })).rejects.toThrow("Template 'non-existent-template' not found");
     });
 
+    it('should suggest a template name for a typo', async () => {
+      await expect(generateScaffold(testProjectName, {
+        template: 'raect',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false
+      })).rejects.toThrow("Template 'raect' not found. Did you mean 'react'?");
+    });
+
+    it('should reject an unknown deploy target before writing anything', async () => {
+      await expect(generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'aws-lambda',
+        withDemo: false
+      })).rejects.toThrow("Unknown deploy target 'aws-lambda'. Did you mean 'aws'?");
+
+      expect(existsSync(testProjectPath)).toBe(false);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+
+    it('should reject a deploy target the template does not support', async () => {
+      await expect(generateScaffold(testProjectName, {
+        template: 'python',
+        aiEnhanced: false,
+        deployTarget: 'netlify',
+        withDemo: false
+      })).rejects.toThrow("Template 'python' does not support deploy target 'netlify'. It supports: vercel, aws, gcp");
+
+      expect(existsSync(testProjectPath)).toBe(false);
+    });
+
     it('should handle npm install failure gracefully', async () => {
       mockExeca.mockRejectedValueOnce(new Error('npm install failed'));
 
@@ -170,4 +410,450 @@ describe('generateScaffold', () => {
       expect(mockGit.commit).toHaveBeenCalledWith('chore: initial commit via stackstart');
     });
   });
+  describe('Skipping steps', () => {
+    it('should leave installing and git to the user', async () => {
+      const result = await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        packageManager: 'bun',
+        skipInstall: true,
+        skipGit: true
+      });
+
+      expect(existsSync(path.join(testProjectPath, 'package.json'))).toBe(true);
+      expect(mockExeca).not.toHaveBeenCalled();
+      expect(mockSimpleGit).not.toHaveBeenCalled();
+      expect(result.commands).toEqual([]);
+      expect(result.deferred).toEqual([
+        { cwd: '.', command: 'bun', args: ['install'] },
+        { cwd: '.', command: 'git', args: ['init'] },
+        { cwd: '.', command: 'git', args: ['add', '.'] },
+        { cwd: '.', command: 'git', args: ['commit', '-m', 'chore: initial commit via stackstart'] }
+      ]);
+
+      const ciYaml = readFileSync(path.join(testProjectPath, '.github/workflows/ci.yml'), 'utf8');
+      expect(ciYaml).toContain('uses: oven-sh/setup-bun@v2');
+      expect(ciYaml).toContain('run: bun run test');
+      expect(ciYaml).not.toContain('cache:');
+    });
+  });
+
+  describe('Dry run', () => {
+    it('should plan the project without touching disk or running commands', async () => {
+      const result = await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        license: 'MIT',
+        dryRun: true
+      });
+
+      expect(existsSync(testProjectPath)).toBe(false);
+      expect(mockExeca).not.toHaveBeenCalled();
+      expect(mockSimpleGit).not.toHaveBeenCalled();
+
+      expect(result.dryRun).toBe(true);
+      expect(result.files).toEqual(expect.arrayContaining(['package.json', 'vercel.json', 'LICENSE', '.github/workflows/ci.yml']));
+      // The license field is added after the template copied package.json.
+      expect(result.updates['package.json']).toBe(1);
+      const packageJson = JSON.parse(result.fs.readFile(path.join(testProjectPath, 'package.json')).toString('utf8'));
+      expect(packageJson.license).toBe('MIT');
+      expect(result.commands).toEqual([
+        { cwd: '.', command: 'npm', args: ['install'] },
+        { cwd: '.', command: 'git', args: ['init'] },
+        { cwd: '.', command: 'git', args: ['add', '.'] },
+        { cwd: '.', command: 'git', args: ['commit', '-m', 'chore: initial commit via stackstart'] }
+      ]);
+    });
+  });
+  describe('Progress events', () => {
+    it('should report steps, files and commands to the listener', async () => {
+      const events: ScaffoldEvent[] = [];
+      await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        onEvent: event => events.push(event)
+      });
+
+      const steps = events.filter(event => event.type.startsWith('step-')).map(event => `${event.type}:${(event as { step: string }).step}`);
+      expect(steps).toEqual([
+        'step-started:generate',
+        'step-succeeded:generate',
+        'step-started:install:.',
+        'step-succeeded:install:.',
+        'step-started:git',
+        'step-succeeded:git'
+      ]);
+      expect(events).toContainEqual({ type: 'file-written', path: 'vercel.json', bytes: expect.any(Number), updated: false });
+      expect(events).toContainEqual({ type: 'command-run', cwd: '.', command: 'npm', args: ['install'], dryRun: false });
+      // Without an interactive listener the install output is not sent to the terminal.
+      expect(mockExeca).toHaveBeenCalledWith('npm', ['install'], expect.objectContaining({ stdio: 'pipe' }));
+    });
+
+    it('should report a failed step before rethrowing', async () => {
+      mockExeca.mockRejectedValueOnce(new Error('npm install failed'));
+      const events: ScaffoldEvent[] = [];
+
+      await expect(generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        onEvent: event => events.push(event)
+      })).rejects.toThrow('npm install failed');
+      expect(events).toContainEqual({
+        type: 'step-failed',
+        step: 'install:.',
+        message: 'Dependency installation failed',
+        error: 'npm install failed'
+      });
+    });
+  });
+  describe('Project names', () => {
+    it('should reject names the template ecosystem cannot use', async () => {
+      await expect(generateScaffold('My Project', {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false
+      })).rejects.toThrow("Invalid project name 'My Project': npm names must be lowercase; npm names cannot contain spaces. Try 'my-project'.");
+      expect(existsSync(path.resolve(process.cwd(), 'My Project'))).toBe(false);
+    });
+
+    it('should create scoped packages in the unscoped directory', async () => {
+      const result = await generateScaffold('@acme/test-project', {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'aws',
+        withDemo: false
+      });
+
+      expect(result.projectRoot).toBe(testProjectPath);
+      expect(JSON.parse(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8')).name).toBe('@acme/test-project');
+      expect(readFileSync(path.join(testProjectPath, 'serverless.yml'), 'utf8')).toContain('"service": "test-project"');
+    });
+  });
+  describe('Rollback', () => {
+    const leftovers = () => require('fs').readdirSync(process.cwd()).filter((entry: string) => entry.startsWith('.test-project.'));
+
+    it('should leave nothing behind when installing fails', async () => {
+      mockExeca.mockRejectedValueOnce(new Error('npm install failed'));
+
+      await expect(generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false
+      })).rejects.toThrow('npm install failed');
+
+      expect(existsSync(testProjectPath)).toBe(false);
+      expect(leftovers()).toEqual([]);
+    });
+
+    it('should give the staged project the permissions the umask allows', async () => {
+      const umask = process.umask(0o022);
+      try {
+        await generateScaffold(testProjectName, {
+          template: 'node',
+          aiEnhanced: false,
+          deployTarget: 'vercel',
+          withDemo: false
+        });
+      } finally {
+        process.umask(umask);
+      }
+
+      expect(statSync(testProjectPath).mode & 0o777).toBe(0o755);
+    });
+
+    it('should keep the partial project when asked to', async () => {
+      mockExeca.mockRejectedValueOnce(new Error('npm install failed'));
+      const events: ScaffoldEvent[] = [];
+
+      await expect(generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        keepOnFailure: true,
+        onEvent: event => events.push(event)
+      })).rejects.toThrow('npm install failed');
+
+      expect(existsSync(path.join(testProjectPath, 'package.json'))).toBe(true);
+      expect(leftovers()).toEqual([]);
+      expect(events).toContainEqual({ type: 'warning', message: `Kept the partial project in ${testProjectPath} for debugging` });
+    });
+
+    it('should restore an existing directory', async () => {
+      const { mkdirSync, writeFileSync } = require('fs');
+      mkdirSync(testProjectPath, { recursive: true });
+      writeFileSync(path.join(testProjectPath, 'package.json'), '{ "name": "mine" }');
+      mockExeca.mockRejectedValueOnce(new Error('npm install failed'));
+
+      await expect(generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        onExisting: 'force'
+      })).rejects.toThrow('npm install failed');
+
+      expect(require('fs').readdirSync(testProjectPath)).toEqual(['package.json']);
+      expect(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8')).toBe('{ "name": "mine" }');
+    });
+
+    it('should only create the GitHub repository once the project is final', async () => {
+      const createForAuthenticatedUser = jest.fn().mockResolvedValue({});
+      jest.doMock('@octokit/rest', () => ({ Octokit: jest.fn(() => ({ rest: { repos: { createForAuthenticatedUser } } })) }));
+      const originalToken = process.env.GITHUB_TOKEN;
+      process.env.GITHUB_TOKEN = 'token';
+      const options = { template: 'node', aiEnhanced: false, deployTarget: 'vercel', withDemo: false };
+      try {
+        // The last step fails: a conflict with a file an AI enhancement writes.
+        mkdirSync(path.join(testProjectPath, 'src', 'utils'), { recursive: true });
+        writeFileSync(path.join(testProjectPath, 'src', 'utils', 'database.js'), '// mine\n');
+        await expect(generateScaffold(testProjectName, {
+          ...options,
+          aiEnhanced: true,
+          enhancements: ['database'],
+          onExisting: 'merge',
+          conflictPolicy: 'ask',
+          resolveConflict: jest.fn().mockRejectedValue(new Error('Cancelled'))
+        })).rejects.toThrow('Cancelled');
+        expect(readFileSync(path.join(testProjectPath, 'src', 'utils', 'database.js'), 'utf8')).toBe('// mine\n');
+        expect(createForAuthenticatedUser).not.toHaveBeenCalled();
+
+        rmSync(testProjectPath, { recursive: true, force: true });
+        await generateScaffold(testProjectName, options);
+        expect(createForAuthenticatedUser).toHaveBeenCalledWith(expect.objectContaining({ name: testProjectName }));
+      } finally {
+        if (originalToken === undefined) delete process.env.GITHUB_TOKEN; else process.env.GITHUB_TOKEN = originalToken;
+      }
+    });
+
+    it('should say when a rollback leaves a commit in an existing repository', async () => {
+      mkdirSync(path.join(testProjectPath, '.git'), { recursive: true });
+      const controller = new AbortController();
+      const events: ScaffoldEvent[] = [];
+
+      await expect(generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        onExisting: 'merge',
+        signal: controller.signal,
+        onEvent: event => {
+          events.push(event);
+          if (event.type === 'step-succeeded' && event.step === 'git') controller.abort();
+        }
+      })).rejects.toThrow();
+
+      expect(require('fs').readdirSync(testProjectPath)).toEqual(['.git']);
+      expect(events).toContainEqual({ type: 'warning', message: expect.stringContaining(`the initial commit in ${path.join(testProjectPath, '.git')} was kept`) });
+    });
+
+    it('should collect failed optional steps as warnings', async () => {
+      mockSimpleGit.mockReturnValue({
+        init: jest.fn().mockRejectedValue(new Error('git not found')),
+        add: jest.fn(),
+        commit: jest.fn()
+      });
+
+      const result = await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false
+      });
+
+      expect(existsSync(testProjectPath)).toBe(true);
+      expect(result.warnings).toEqual(['Git initialization failed (git not found); run git init yourself']);
+    });
+  });
+
+  describe('Project manifest', () => {
+    it('should record how the project was made and hash the generated files', async () => {
+      let committed: string[] = [];
+      mockSimpleGit.mockImplementation((dir: string) => ({
+        init: jest.fn().mockResolvedValue(undefined),
+        add: jest.fn().mockImplementation(async () => {
+          committed = require('fs').readdirSync(dir);
+        }),
+        commit: jest.fn().mockResolvedValue(undefined)
+      }));
+
+      const result = await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'aws',
+        withDemo: false,
+        license: 'MIT',
+        packageManager: 'pnpm',
+        answers: { description: 'Billing service' }
+      });
+
+      const manifest = JSON.parse(readFileSync(path.join(testProjectPath, '.stackstart.json'), 'utf8'));
+      expect(manifest).toEqual(result.manifest);
+      expect(manifest).toMatchObject({
+        manifestVersion: 1,
+        projectName: testProjectName,
+        template: { spec: 'node', name: 'node', source: 'bundled', version: require('../package.json').version },
+        options: {
+          deployTarget: 'aws',
+          withDemo: false,
+          aiEnhanced: false,
+          license: 'MIT',
+          packageManager: 'pnpm',
+          answers: { description: 'Billing service' }
+        },
+        enhancements: []
+      });
+      expect(manifest.files['package.json']).toBe(
+        require('../generators/project-manifest').hashContent(readFileSync(path.join(testProjectPath, 'package.json')))
+      );
+      expect(Object.keys(manifest.files)).toEqual(expect.arrayContaining(['serverless.yml', 'LICENSE', '.github/workflows/ci.yml']));
+      expect(manifest.files['.stackstart.json']).toBeUndefined();
+      // Part of the initial commit.
+      expect(committed).toContain('.stackstart.json');
+    });
+
+    it('should record applied enhancements and the files they wrote', async () => {
+      const result = await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: true,
+        enhancements: ['logging'],
+        deployTarget: 'vercel',
+        withDemo: false
+      });
+
+      const manifest = JSON.parse(readFileSync(path.join(testProjectPath, '.stackstart.json'), 'utf8'));
+      expect(manifest.enhancements).toEqual(['logging']);
+      expect(manifest.files['src/utils/logger.js']).toBeDefined();
+      expect(manifest.files['AI_ENHANCEMENTS.md']).toBeDefined();
+      expect(result.manifest!.enhancements).toEqual(['logging']);
+    });
+  });
+
+  describe('Policy', () => {
+    const policyDir = path.join(__dirname, 'test-scaffold-policy');
+    const policyFile = path.join(policyDir, 'stackstart-policy.json');
+
+    beforeEach(() => {
+      mkdirSync(policyDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      rmSync(policyDir, { recursive: true, force: true });
+    });
+
+    it('should warn about the rules the new project breaks', async () => {
+      writeFileSync(policyFile, JSON.stringify({ templates: { node: { required: ['codeql', 'logging'], forbidden: ['dependency:mongoose'] } } }));
+
+      const result = await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        policy: policyFile
+      });
+
+      expect(result.policy!.violations.map(violation => violation.capability)).toEqual(['logging']);
+      expect(result.warnings).toContain('Policy: logging is required but missing (stackstart add logging)');
+      expect(existsSync(testProjectPath)).toBe(true);
+    });
+
+    it('should refuse a broken policy before writing anything', async () => {
+      writeFileSync(policyFile, JSON.stringify({ templates: { node: { required: ['telepathy'] } } }));
+
+      await expect(generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        policy: policyFile
+      })).rejects.toThrow('Invalid stackstart policy');
+      expect(existsSync(testProjectPath)).toBe(false);
+    });
+  });
+
+  describe('Existing directories', () => {
+    beforeEach(() => {
+      const { mkdirSync, writeFileSync } = require('fs');
+      mkdirSync(testProjectPath, { recursive: true });
+      writeFileSync(path.join(testProjectPath, 'README.md'), '# Already here\n');
+      writeFileSync(path.join(testProjectPath, 'package.json'), JSON.stringify({ name: 'test-project', scripts: { test: 'vitest' } }));
+    });
+
+    it('should merge into a directory that already has files', async () => {
+      const result = await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        onExisting: 'merge',
+        conflictPolicy: 'skip'
+      });
+
+      expect(readFileSync(path.join(testProjectPath, 'README.md'), 'utf8')).toBe('# Already here\n');
+      const packageJson = JSON.parse(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8'));
+      expect(packageJson.scripts.test).toBe('vitest');
+      expect(packageJson.devDependencies.jest).toBeDefined();
+      expect(packageJson.scripts.lint).toBeDefined();
+      expect(existsSync(path.join(testProjectPath, 'src/index.js'))).toBe(true);
+      expect(result.conflicts).toEqual([
+        { path: 'README.md', resolution: 'skip' },
+        { path: 'package.json', resolution: 'merged' }
+      ]);
+    });
+
+    it('should ask about conflicts before installing', async () => {
+      const resolveConflict = jest.fn().mockResolvedValue('keep-both');
+      await generateScaffold(testProjectName, {
+        template: 'node',
+        aiEnhanced: false,
+        deployTarget: 'vercel',
+        withDemo: false,
+        onExisting: 'merge',
+        conflictPolicy: 'ask',
+        resolveConflict
+      });
+
+      expect(resolveConflict).toHaveBeenCalledWith(expect.objectContaining({ path: 'README.md' }));
+      expect(readFileSync(path.join(testProjectPath, 'README.md'), 'utf8')).toBe('# Already here\n');
+      expect(readFileSync(path.join(testProjectPath, 'README.stackstart.md'), 'utf8')).toContain('test-project');
+    });
+
+    it('should scaffold into the working directory with --here', async () => {
+      const cwd = jest.spyOn(process, 'cwd').mockReturnValue(testProjectPath);
+      try {
+        await expect(generateScaffold('my-service', {
+          template: 'node',
+          aiEnhanced: false,
+          deployTarget: 'vercel',
+          withDemo: false,
+          here: true
+        })).rejects.toThrow('Directory test-project is not empty. Use --merge or --force to scaffold into it.');
+
+        await generateScaffold('my-service', {
+          template: 'node',
+          aiEnhanced: false,
+          deployTarget: 'vercel',
+          withDemo: false,
+          here: true,
+          onExisting: 'force'
+        });
+      } finally {
+        cwd.mockRestore();
+      }
+
+      expect(JSON.parse(readFileSync(path.join(testProjectPath, 'package.json'), 'utf8')).name).toBe('my-service');
+      expect(existsSync(path.join(testProjectPath, 'my-service'))).toBe(false);
+    });
+  });
 }); 
\ No newline at end of file
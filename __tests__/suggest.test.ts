@@ -0,0 +1,28 @@
+import { closestMatch, didYouMean, editDistance } from '../generators/suggest';
+
+describe('suggestions', () => {
+  it('should count edits between strings', () => {
+    expect(editDistance('vercel', 'vercel')).toBe(0);
+    expect(editDistance('vercle', 'vercel')).toBe(1);
+    expect(editDistance('aws', 'gcp')).toBe(3);
+    expect(editDistance('', 'gcp')).toBe(3);
+  });
+
+  it('should suggest the closest candidate', () => {
+    expect(closestMatch('vercell', ['vercel', 'netlify', 'aws', 'gcp'])).toBe('vercel');
+    expect(closestMatch('Netlfy', ['vercel', 'netlify', 'aws', 'gcp'])).toBe('netlify');
+    expect(closestMatch('raect', ['node', 'react', 'python'])).toBe('react');
+  });
+
+  it('should treat a prefix as close', () => {
+    expect(closestMatch('aws-lambda', ['vercel', 'netlify', 'aws', 'gcp'])).toBe('aws');
+    expect(closestMatch('full', ['node', 'full-stack'])).toBe('full-stack');
+  });
+
+  it('should not suggest anything far away', () => {
+    expect(closestMatch('heroku', ['vercel', 'netlify', 'aws', 'gcp'])).toBeUndefined();
+    expect(closestMatch('BSD', ['MIT', 'ISC', 'UNLICENSED'])).toBeUndefined();
+    expect(didYouMean('heroku', ['vercel'])).toBe('');
+    expect(didYouMean('gpc', ['vercel', 'gcp'])).toBe(" Did you mean 'gcp'?");
+  });
+});
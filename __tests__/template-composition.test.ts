@@ -0,0 +1,119 @@
+import path from 'path';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { loadTemplateManifest, Template } from '../generators/template-manifest';
+import { describeMounts, mountContext, resolveMounts } from '../generators/template-composition';
+
+const sandboxPath = path.join(__dirname, 'test-composition');
+
+function writeTemplate(name: string, fields: Record<string, unknown> = {}): Template {
+  const templatePath = path.join(sandboxPath, name);
+  mkdirSync(templatePath, { recursive: true });
+  writeFileSync(path.join(templatePath, 'template.json'), JSON.stringify({
+    name,
+    language: 'javascript',
+    packageManager: 'npm',
+    installCommand: 'npm install',
+    testCommand: 'npm test',
+    buildOutputDir: 'dist',
+    entryPoint: 'src/index.js',
+    startCommand: 'node src/index.js',
+    ci: 'node',
+    ...fields
+  }));
+  return { name, path: templatePath, source: 'local', manifest: loadTemplateManifest(templatePath) };
+}
+
+describe('template composition', () => {
+  beforeEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+    mkdirSync(sandboxPath, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should mount bundled and relative templates at their subpaths', async () => {
+    writeTemplate('shared', { variables: { scope: { default: '@acme' } } });
+    const root = writeTemplate('platform', {
+      subprojects: [
+        { name: 'api', template: 'python', path: 'api', role: 'api' },
+        { name: 'web', template: 'react', path: 'web', role: 'web' },
+        { name: 'shared', template: '../shared', path: 'packages/shared', role: 'library' }
+      ]
+    });
+
+    const mounts = await resolveMounts(root);
+
+    expect(mounts.map(mount => [mount.name, mount.path, mount.template.manifest.language])).toEqual([
+      ['api', 'api', 'python'],
+      ['web', 'web', 'javascript'],
+      ['shared', 'packages/shared', 'javascript']
+    ]);
+    expect(describeMounts(mounts)[2]).toEqual({
+      name: 'shared',
+      path: 'packages/shared',
+      role: 'library',
+      template: 'shared',
+      language: 'javascript'
+    });
+  });
+
+  it('should flatten nested compositions', async () => {
+    writeTemplate('jobs');
+    writeTemplate('backend', {
+      subprojects: [{ name: 'worker', template: '../jobs', path: 'worker', role: 'worker' }]
+    });
+    const root = writeTemplate('platform', {
+      subprojects: [{ name: 'backend', template: '../backend', path: 'services/backend', role: 'api' }]
+    });
+
+    const mounts = await resolveMounts(root);
+
+    expect(mounts.map(mount => [mount.name, mount.path])).toEqual([
+      ['backend', 'services/backend'],
+      ['backend-worker', 'services/backend/worker']
+    ]);
+  });
+
+  it('should reject templates that mount themselves', async () => {
+    writeTemplate('a', { subprojects: [{ name: 'b', template: '../b', path: 'b', role: 'library' }] });
+    const root = writeTemplate('b', { subprojects: [{ name: 'a', template: '../a', path: 'a', role: 'library' }] });
+
+    await expect(resolveMounts(root)).rejects.toThrow('Template composition cycle: b -> a -> b');
+  });
+
+  it('should reject mounts outside the project', async () => {
+    const root = writeTemplate('platform', {
+      subprojects: [{ name: 'escape', template: 'node', path: '../elsewhere', role: 'api' }]
+    });
+
+    await expect(resolveMounts(root)).rejects.toThrow('must stay inside the project');
+  });
+
+  it('should give each mount its own placeholder context', async () => {
+    writeTemplate('shared', { variables: { scope: { default: '@acme' }, projectName: { default: 'ignored' } } });
+    const root = writeTemplate('platform', {
+      subprojects: [{
+        name: 'shared',
+        template: '../shared',
+        path: 'packages/shared',
+        role: 'library',
+        context: { packageName: '{{scope}}/{{projectName}}-shared', private: true }
+      }]
+    });
+    const [mount] = await resolveMounts(root);
+
+    const context = mountContext({ projectName: 'billing', scope: '@billing' }, mount);
+
+    expect(context.projectName).toBe('billing');
+    expect(context.packageName).toBe('@billing/billing-shared');
+    expect(context.private).toBe(true);
+    expect(context.mount).toEqual({ name: 'shared', path: 'packages/shared', role: 'library', template: 'shared' });
+    expect(mountContext({ projectName: 'billing' }, mount).scope).toBe('@acme');
+  });
+});
@@ -0,0 +1,119 @@
+import { escapeTemplate, FILTERS, renderTemplate, templateReferences } from '../generators/template-engine';
+
+describe('renderTemplate', () => {
+  const context = {
+    projectName: 'my-app',
+    deployTarget: 'aws',
+    withDemo: false,
+    port: '3000',
+    services: [{ name: 'api' }, { name: 'worker' }]
+  };
+
+  describe('Variables', () => {
+    it('should keep the original {{key}} syntax working', () => {
+      expect(renderTemplate('Hello from {{projectName}} on {{port}}!', context)).toBe('Hello from my-app on 3000!');
+    });
+
+    it('should apply chained filters', () => {
+      expect(renderTemplate('{{ projectName | pascal }}', context)).toBe('MyApp');
+      expect(renderTemplate('{{ projectName | camel }}', context)).toBe('myApp');
+      expect(renderTemplate('{{ projectName | snake }}', context)).toBe('my_app');
+      expect(renderTemplate('{{ projectName | snake | upper }}', context)).toBe('MY_APP');
+      expect(renderTemplate('{{ projectName | json }}', context)).toBe('"my-app"');
+    });
+
+    it('should leave unknown variables and filters untouched', () => {
+      expect(renderTemplate('{{ missing }} {{ projectName | shout }}', context)).toBe('{{ missing }} {{ projectName | shout }}');
+    });
+  });
+
+  describe('Literal braces', () => {
+    it('should not mangle GitHub Actions expressions', () => {
+      const workflow = 'node-version: ${{ matrix.node-version }}\nlanguages: ${{ matrix.language }}';
+      expect(renderTemplate(workflow, { ...context, matrix: { language: 'js' } })).toBe(workflow);
+    });
+
+    it('should not mangle JSX object literals', () => {
+      const jsx = "<div style={{ textAlign: 'center' }}>{{projectName}}</div>";
+      expect(renderTemplate(jsx, context)).toBe("<div style={{ textAlign: 'center' }}>my-app</div>");
+    });
+
+    it('should render escaped braces literally', () => {
+      expect(renderTemplate('\\{{projectName}} is {{projectName}}', context)).toBe('{{projectName}} is my-app');
+    });
+  });
+
+  describe('Blocks', () => {
+    it('should render if/else branches', () => {
+      const source = '{{#if deployTarget == "aws"}}lambda{{else}}server{{/if}}';
+      expect(renderTemplate(source, context)).toBe('lambda');
+      expect(renderTemplate(source, { ...context, deployTarget: 'gcp' })).toBe('server');
+      expect(renderTemplate('{{#if !withDemo}}no demo{{/if}}', context)).toBe('no demo');
+    });
+
+    it('should remove lines that only hold block tags', () => {
+      const source = 'steps:\n  {{#if deployTarget == "aws"}}\n  - deploy\n  {{/if}}\n  - test\n';
+      expect(renderTemplate(source, context)).toBe('steps:\n  - deploy\n  - test\n');
+      expect(renderTemplate(source, { ...context, deployTarget: 'gcp' })).toBe('steps:\n  - test\n');
+    });
+
+    it('should iterate with each', () => {
+      expect(renderTemplate('{{#each services}}{{@index}}:{{name}} {{/each}}', context)).toBe('0:api 1:worker ');
+      expect(renderTemplate('{{#each services as service}}{{ service.name | upper }};{{/each}}', context)).toBe('API;WORKER;');
+    });
+
+    it('should nest blocks', () => {
+      const source = '{{#each services}}{{#if name == "api"}}[{{name}}]{{else}}{{name}}{{/if}}{{/each}}';
+      expect(renderTemplate(source, context)).toBe('[api]worker');
+    });
+
+    it('should report unbalanced blocks', () => {
+      expect(() => renderTemplate('{{#if withDemo}}open', context)).toThrow('Unclosed {{#if}} block');
+      expect(() => renderTemplate('{{/each}}', context)).toThrow('Unexpected {{/each}}');
+    });
+  });
+});
+
+describe('FILTERS', () => {
+  it('should split camelCase, spaces and separators into words', () => {
+    expect(FILTERS.kebab('MyBillingService')).toBe('my-billing-service');
+    expect(FILTERS.snake('billing service v2')).toBe('billing_service_v2');
+    expect(FILTERS.pascal('@acme/billing')).toBe('AcmeBilling');
+  });
+});
+
+describe('templateReferences', () => {
+  it('should list the root of every variable, condition and loop', () => {
+    const source = '{{ projectName | pascal }} {{#if deployTarget == "aws"}}{{ region.name }}{{/if}} ${{ matrix.os }}';
+    expect(templateReferences(source)).toEqual([
+      { name: 'projectName', itemScoped: false },
+      { name: 'deployTarget', itemScoped: false },
+      { name: 'region', itemScoped: false }
+    ]);
+  });
+
+  it('should skip loop aliases and mark names inside unaliased loops', () => {
+    const source = '{{#each services as service}}{{ service.name }}{{@index}}{{/each}}{{#each jobs}}{{name}}{{this}}{{/each}}';
+    expect(templateReferences(source)).toEqual([
+      { name: 'services', itemScoped: false },
+      { name: 'jobs', itemScoped: false },
+      { name: 'name', itemScoped: true }
+    ]);
+  });
+});
+
+describe('escapeTemplate', () => {
+  it('should escape tags so the source renders back to itself', () => {
+    const source = "<p>{{ user.name }}</p>{% if x %}{{#if ok}}y{{/if}} ${{ matrix.os }} style={{ color: 'red' }}";
+    const escaped = escapeTemplate(source);
+
+    expect(escaped).toBe("<p>\\{{ user.name }}</p>{% if x %}\\{{#if ok}}y\\{{/if}} ${{ matrix.os }} style={{ color: 'red' }}");
+    expect(renderTemplate(escaped, { user: { name: 'x' }, ok: true })).toBe(source);
+  });
+
+  it('should keep backslashes that already escape braces', () => {
+    const source = 'Write \\{{ name }} for braces, \\\\{{ name }} for a backslash, \\{{ not a tag';
+
+    expect(renderTemplate(escapeTemplate(source), { name: 'x' })).toBe(source);
+  });
+});
@@ -0,0 +1,156 @@
+import path from 'path';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { extractTemplate } from '../generators/template-extractor';
+import { loadTemplateManifest, templateCopyRules } from '../generators/template-manifest';
+import { copyTemplateFiles } from '../generators/template-files';
+import { validateTemplate } from '../generators/template-validator';
+
+const sandboxPath = path.join(__dirname, 'test-extractor');
+const projectPath = path.join(sandboxPath, 'billing-api');
+const templatePath = path.join(sandboxPath, 'template');
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x62, 0x69, 0x6c, 0x6c]);
+
+function writeProject(files: Record<string, string | Buffer>): void {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(projectPath, file)), { recursive: true });
+    writeFileSync(path.join(projectPath, file), content);
+  }
+}
+
+const nodeProject = {
+  'package.json': JSON.stringify({
+    name: 'billing-api',
+    main: 'src/index.js',
+    scripts: { test: 'jest', build: 'tsc', start: 'node dist/index.js' }
+  }, null, 2),
+  'pnpm-lock.yaml': 'lockfileVersion: 6',
+  'node_modules/express/index.js': 'module.exports = {};',
+  '.git/HEAD': 'ref: refs/heads/main',
+  'dist/index.js': 'built',
+  '.env': 'SECRET=1',
+  '.gitignore': 'node_modules\n',
+  'src/index.js': [
+    'const BILLING_API_URL = process.env.BILLING_API_URL;',
+    'class BillingApi {}',
+    'const billingApi = new BillingApi();',
+    "console.log('billing-api', 'billing_api', 'billing-apis');",
+    "const jsx = <div style={{ margin: 0 }}>{{ user.name }}</div>;"
+  ].join('\n'),
+  'src/billing_api/__init__.py': '',
+  'logo.png': PNG
+};
+
+describe('extractTemplate', () => {
+  beforeEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should skip dependencies, VCS data, build output, lockfiles and secrets', () => {
+    writeProject(nodeProject);
+
+    const result = extractTemplate(projectPath, templatePath);
+
+    expect(result.skipped.sort()).toEqual(['.env', '.git', 'dist', 'node_modules', 'pnpm-lock.yaml']);
+    expect(existsSync(path.join(templatePath, 'node_modules'))).toBe(false);
+    expect(existsSync(path.join(templatePath, '_gitignore'))).toBe(true);
+    expect(existsSync(path.join(templatePath, 'src/{{ projectName | snake }}/__init__.py'))).toBe(true);
+    expect(readFileSync(path.join(templatePath, 'logo.png'))).toEqual(PNG);
+  });
+
+  it('should replace every spelling of the project name with placeholders', () => {
+    writeProject(nodeProject);
+
+    const result = extractTemplate(projectPath, templatePath);
+    const index = readFileSync(path.join(templatePath, 'src/index.js'), 'utf8');
+
+    expect(index).toContain('const {{ projectName | snake | upper }}_URL');
+    expect(index).toContain('class {{ projectName | pascal }} {}');
+    expect(index).toContain('const {{ projectName | camel }} = new {{ projectName | pascal }}();');
+    expect(index).toContain("'{{projectName}}', '{{ projectName | snake }}', 'billing-apis'");
+    expect(index).toContain('style={{ margin: 0 }}>\\{{ user.name }}');
+    expect(result.replacements).toBe(9);
+  });
+
+  it('should write a draft manifest from the detected package manager and scripts', () => {
+    writeProject(nodeProject);
+
+    const { manifest } = extractTemplate(projectPath, templatePath, { name: 'billing' });
+
+    expect(loadTemplateManifest(templatePath)).toEqual(expect.objectContaining({
+      name: 'billing',
+      displayName: 'Billing',
+      language: 'javascript',
+      packageManager: 'pnpm',
+      installCommand: 'pnpm install',
+      testCommand: 'pnpm test',
+      buildCommand: 'pnpm run build',
+      buildOutputDir: 'dist',
+      entryPoint: 'src/index.js',
+      startCommand: 'pnpm start',
+      ci: 'node'
+    }));
+    expect(manifest.name).toBe('billing');
+  });
+
+  it('should render back to the original project', async () => {
+    writeProject(nodeProject);
+    extractTemplate(projectPath, templatePath);
+
+    const outputPath = path.join(sandboxPath, 'output');
+    copyTemplateFiles(templatePath, outputPath, { projectName: 'billing-api' }, templateCopyRules(loadTemplateManifest(templatePath)));
+
+    for (const file of ['package.json', 'src/index.js', '.gitignore', 'src/billing_api/__init__.py', 'logo.png']) {
+      expect(readFileSync(path.join(outputPath, file))).toEqual(readFileSync(path.join(projectPath, file)));
+    }
+    expect((await validateTemplate(templatePath)).issues).toEqual([]);
+  });
+
+  it('should round-trip text that already escapes braces', () => {
+    const docs = 'Templates write \\{{ projectName }} to keep the braces; billing-api renders {{ user.name }}.\n';
+    writeProject({ ...nodeProject, 'docs/templating.md': docs });
+    extractTemplate(projectPath, templatePath);
+
+    const outputPath = path.join(sandboxPath, 'output');
+    copyTemplateFiles(templatePath, outputPath, { projectName: 'billing-api' }, templateCopyRules(loadTemplateManifest(templatePath)));
+
+    expect(readFileSync(path.join(outputPath, 'docs/templating.md'), 'utf8')).toBe(docs);
+  });
+
+  it('should detect Python projects', () => {
+    writeProject({
+      'pyproject.toml': '[project]\nname = "ledger"\n',
+      'requirements.txt': 'flask==3.0.0\npytest==8.0.0\n',
+      'app.py': 'app = Flask("ledger")\n'
+    });
+
+    const result = extractTemplate(projectPath, templatePath);
+
+    expect(result.projectName).toBe('ledger');
+    expect(result.manifest).toEqual(expect.objectContaining({
+      language: 'python',
+      packageManager: 'pip',
+      installCommand: 'pip install -r requirements.txt',
+      testCommand: 'pytest',
+      entryPoint: 'app.py',
+      startCommand: 'python app.py',
+      ci: 'python'
+    }));
+    expect(readFileSync(path.join(templatePath, 'app.py'), 'utf8')).toBe('app = Flask("{{projectName}}")\n');
+  });
+
+  it('should refuse to overwrite an existing directory', () => {
+    writeProject(nodeProject);
+    mkdirSync(templatePath);
+
+    expect(() => extractTemplate(projectPath, templatePath)).toThrow(`Directory ${templatePath} already exists.`);
+  });
+});
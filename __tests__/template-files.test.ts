@@ -0,0 +1,103 @@
+import path from 'path';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { diskFileSystem } from '../generators/filesystem';
+import { copyTemplateFiles, isBinaryFile } from '../generators/template-files';
+
+const sandboxPath = path.join(__dirname, 'test-files');
+const templatePath = path.join(sandboxPath, 'template');
+const outputPath = path.join(sandboxPath, 'output');
+const context = { projectName: 'my-app' };
+
+describe('copyTemplateFiles', () => {
+  beforeEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+    mkdirSync(path.join(templatePath, 'assets'), { recursive: true });
+    mkdirSync(path.join(templatePath, 'fixtures'), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should copy and render in a single pass', () => {
+    writeFileSync(path.join(templatePath, 'README.md'), '# {{projectName}}');
+    writeFileSync(path.join(templatePath, 'template.json'), '{}');
+
+    const written = copyTemplateFiles(templatePath, outputPath, context, { exclude: ['template.json'] });
+
+    expect(readFileSync(path.join(outputPath, 'README.md'), 'utf8')).toBe('# my-app');
+    expect(existsSync(path.join(outputPath, 'template.json'))).toBe(false);
+    expect(written).toEqual([path.join(outputPath, 'README.md')]);
+  });
+
+  it('should never alter binary files that contain placeholder bytes', () => {
+    const font = Buffer.concat([Buffer.from([0, 1, 2]), Buffer.from('{{projectName}}'), Buffer.from([255, 0])]);
+    writeFileSync(path.join(templatePath, 'assets/icon.woff2'), font);
+    writeFileSync(path.join(templatePath, 'assets/blob.bin'), font);
+
+    copyTemplateFiles(templatePath, outputPath, context);
+
+    expect(readFileSync(path.join(outputPath, 'assets/icon.woff2')).equals(font)).toBe(true);
+    expect(readFileSync(path.join(outputPath, 'assets/blob.bin')).equals(font)).toBe(true);
+  });
+
+  it('should copy files it does not render without reading them', () => {
+    writeFileSync(path.join(templatePath, 'assets/font.woff2'), Buffer.from([0, 1, 2]));
+    writeFileSync(path.join(templatePath, 'README.md'), '# {{projectName}}');
+    const fs = { ...diskFileSystem, writeFile: jest.fn(diskFileSystem.writeFile), copyFile: jest.fn(diskFileSystem.copyFile) };
+
+    copyTemplateFiles(templatePath, outputPath, context, {}, fs);
+
+    expect(fs.copyFile.mock.calls.map(call => call[1])).toEqual([path.join(outputPath, 'assets/font.woff2')]);
+    expect(fs.writeFile.mock.calls.map(call => call[0])).toEqual([path.join(outputPath, 'README.md')]);
+    expect(readFileSync(path.join(outputPath, 'assets/font.woff2'))).toEqual(Buffer.from([0, 1, 2]));
+  });
+
+  it('should render text files larger than 1 MB', () => {
+    const padding = 'x'.repeat(1024 * 1024);
+    writeFileSync(path.join(templatePath, 'large.txt'), `${padding}{{projectName}}`);
+
+    copyTemplateFiles(templatePath, outputPath, context);
+
+    expect(readFileSync(path.join(outputPath, 'large.txt'), 'utf8').endsWith('my-app')).toBe(true);
+  });
+
+  it('should honour copyOnly and render globs', () => {
+    writeFileSync(path.join(templatePath, 'fixtures/snapshot.txt'), '{{projectName}}');
+    writeFileSync(path.join(templatePath, 'notes.txt'), '{{projectName}}');
+    writeFileSync(path.join(templatePath, 'index.js'), '{{projectName}}');
+
+    copyTemplateFiles(templatePath, outputPath, context, {
+      render: ['*.js', 'fixtures/**'],
+      copyOnly: ['fixtures/**']
+    });
+
+    expect(readFileSync(path.join(outputPath, 'fixtures/snapshot.txt'), 'utf8')).toBe('{{projectName}}');
+    expect(readFileSync(path.join(outputPath, 'notes.txt'), 'utf8')).toBe('{{projectName}}');
+    expect(readFileSync(path.join(outputPath, 'index.js'), 'utf8')).toBe('my-app');
+  });
+});
+
+describe('isBinaryFile', () => {
+  beforeEach(() => {
+    mkdirSync(sandboxPath, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(sandboxPath, { recursive: true, force: true });
+  });
+
+  it('should detect binaries by extension or NUL bytes', () => {
+    writeFileSync(path.join(sandboxPath, 'logo.png'), 'not really a png');
+    writeFileSync(path.join(sandboxPath, 'data'), Buffer.from([104, 105, 0, 33]));
+    writeFileSync(path.join(sandboxPath, 'notes.md'), '# notes');
+
+    expect(isBinaryFile(path.join(sandboxPath, 'logo.png'))).toBe(true);
+    expect(isBinaryFile(path.join(sandboxPath, 'data'))).toBe(true);
+    expect(isBinaryFile(path.join(sandboxPath, 'notes.md'))).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import path from 'path';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { loadTemplateManifest, templateMetadataEntries } from '../generators/template-manifest';
+
+const templatesRoot = path.resolve(__dirname, '..', 'templates');
+const testTemplatePath = path.join(__dirname, 'test-template');
+
+describe('loadTemplateManifest', () => {
+  beforeEach(() => {
+    if (existsSync(testTemplatePath)) {
+      rmSync(testTemplatePath, { recursive: true, force: true });
+    }
+    mkdirSync(testTemplatePath, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testTemplatePath)) {
+      rmSync(testTemplatePath, { recursive: true, force: true });
+    }
+  });
+
+  it('should load every bundled template manifest', () => {
+    for (const name of ['node', 'react', 'python', 'full-stack']) {
+      const manifest = loadTemplateManifest(path.join(templatesRoot, name));
+      expect(manifest.name).toBe(name);
+      expect(manifest.deployTargets.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should describe full-stack as node and react subprojects', () => {
+    const manifest = loadTemplateManifest(path.join(templatesRoot, 'full-stack'));
+
+    expect(manifest.subprojects.map(sub => [sub.template, sub.path, sub.role])).toEqual([
+      ['node', 'server', 'api'],
+      ['react', 'client', 'web']
+    ]);
+  });
+
+  it('should fill in defaults for optional fields', () => {
+    writeFileSync(path.join(testTemplatePath, 'template.json'), JSON.stringify({
+      language: 'python',
+      packageManager: 'pip',
+      installCommand: 'pip install -r requirements.txt',
+      testCommand: 'pytest',
+      buildOutputDir: 'public',
+      entryPoint: 'app.py',
+      startCommand: 'python app.py',
+      ci: 'python'
+    }));
+
+    const manifest = loadTemplateManifest(testTemplatePath);
+
+    expect(manifest.name).toBe('test-template');
+    expect(manifest.displayName).toBe('test-template');
+    expect(manifest.deployTargets).toEqual([]);
+    expect(manifest.subprojects).toEqual([]);
+    expect(templateMetadataEntries(manifest)).toEqual(['template.json']);
+  });
+
+  it('should reject a manifest with missing fields', () => {
+    writeFileSync(path.join(testTemplatePath, 'template.json'), JSON.stringify({ language: 'javascript' }));
+
+    expect(() => loadTemplateManifest(testTemplatePath)).toThrow('"packageManager" must be a non-empty string');
+  });
+
+  it('should reject an unknown CI flavor', () => {
+    writeFileSync(path.join(testTemplatePath, 'template.json'), JSON.stringify({
+      language: 'javascript',
+      packageManager: 'npm',
+      installCommand: 'npm install',
+      testCommand: 'npm test',
+      buildOutputDir: 'dist',
+      entryPoint: 'index.js',
+      startCommand: 'node index.js',
+      ci: 'rust'
+    }));
+
+    expect(() => loadTemplateManifest(testTemplatePath)).toThrow('"ci" must be one of node, python');
+  });
+
+  it('should throw when the manifest is missing', () => {
+    expect(() => loadTemplateManifest(testTemplatePath)).toThrow('has no template.json manifest');
+  });
+});
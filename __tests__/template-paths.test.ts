@@ -0,0 +1,45 @@
+import { matchesGlob, renderEntryName } from '../generators/template-paths';
+
+describe('renderEntryName', () => {
+  const context = { projectName: 'my-app', withDemo: false };
+
+  it('should render placeholders in file and directory names', () => {
+    expect(renderEntryName('{{ projectName | snake }}', context)).toBe('my_app');
+    expect(renderEntryName('{{projectName}}.config.js', context)).toBe('my-app.config.js');
+  });
+
+  it('should restore dotfiles that npm would strip', () => {
+    expect(renderEntryName('_gitignore', context)).toBe('.gitignore');
+    expect(renderEntryName('_npmrc', context)).toBe('.npmrc');
+    expect(renderEntryName('_env.example', context)).toBe('.env.example');
+    expect(renderEntryName('_github', context)).toBe('.github');
+  });
+
+  it('should leave other underscore-prefixed names alone', () => {
+    expect(renderEntryName('__init__.py', context)).toBe('__init__.py');
+    expect(renderEntryName('_app.jsx', context)).toBe('_app.jsx');
+  });
+
+  it('should return an empty name for entries excluded by a condition', () => {
+    expect(renderEntryName('{{#if withDemo}}demo.js{{/if}}', context)).toBe('');
+  });
+
+  it('should reject names that escape their directory', () => {
+    expect(() => renderEntryName('{{ target }}', { target: '../etc' })).toThrow("rendered to an invalid name '../etc'");
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match file names at any depth when the pattern has no slash', () => {
+    expect(matchesGlob('assets/fonts/Inter.woff2', '*.woff2')).toBe(true);
+    expect(matchesGlob('src/index.js', '*.{js,ts}')).toBe(true);
+    expect(matchesGlob('src/index.jsx', '*.{js,ts}')).toBe(false);
+  });
+
+  it('should anchor patterns that contain a slash', () => {
+    expect(matchesGlob('fixtures/large/data.json', 'fixtures/**')).toBe(true);
+    expect(matchesGlob('src/fixtures/data.json', 'fixtures/**')).toBe(false);
+    expect(matchesGlob('src/fixtures/data.json', '**/fixtures/*.json')).toBe(true);
+    expect(matchesGlob('fixtures/data.json', '/fixtures/?ata.json')).toBe(true);
+  });
+});
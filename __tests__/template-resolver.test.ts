@@ -0,0 +1,126 @@
+import path from 'path';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import {
+  bundledTemplatesRoot,
+  listTemplates,
+  resolveTemplate,
+  templateSearchPath,
+  TEMPLATES_ENV_VAR
+} from '../generators/template-resolver';
+
+const sandboxPath = path.join(__dirname, 'test-resolver');
+const cwd = path.join(sandboxPath, 'work');
+const homeDir = path.join(sandboxPath, 'home');
+
+function writeTemplate(root: string, name: string, displayName: string): void {
+  const templatePath = path.join(root, name);
+  mkdirSync(templatePath, { recursive: true });
+  writeFileSync(path.join(templatePath, 'template.json'), JSON.stringify({
+    name,
+    displayName,
+    language: 'javascript',
+    packageManager: 'npm',
+    installCommand: 'npm install',
+    testCommand: 'npm test',
+    buildOutputDir: 'dist',
+    entryPoint: 'src/index.js',
+    startCommand: 'node src/index.js',
+    ci: 'node'
+  }));
+}
+
+describe('template resolution', () => {
+  beforeEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+    mkdirSync(cwd, { recursive: true });
+    mkdirSync(homeDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should locate bundled templates relative to the module', () => {
+    expect(bundledTemplatesRoot()).toBe(path.resolve(__dirname, '..', 'templates'));
+  });
+
+  it('should resolve bundled templates regardless of the working directory', () => {
+    const template = resolveTemplate('node', { cwd, homeDir, env: {} });
+
+    expect(template.source).toBe('bundled');
+    expect(template.path).toBe(path.join(bundledTemplatesRoot(), 'node'));
+    expect(template.manifest.name).toBe('node');
+  });
+
+  it('should search overrides, project, user and bundled locations in order', () => {
+    const locations = templateSearchPath({
+      cwd,
+      homeDir,
+      env: { [TEMPLATES_ENV_VAR]: 'from-env' },
+      extraPaths: ['from-config']
+    });
+
+    expect(locations.map(location => location.source)).toEqual(['override', 'override', 'project', 'user', 'bundled']);
+    expect(locations[0].root).toBe(path.join(cwd, 'from-config'));
+    expect(locations[1].root).toBe(path.join(cwd, 'from-env'));
+  });
+
+  it('should let user templates shadow bundled ones', () => {
+    writeTemplate(path.join(homeDir, '.stackstart', 'templates'), 'node', 'Company Node');
+
+    const template = resolveTemplate('node', { cwd, homeDir, env: {} });
+
+    expect(template.source).toBe('user');
+    expect(template.manifest.displayName).toBe('Company Node');
+  });
+
+  it('should prefer project-local templates over user templates', () => {
+    writeTemplate(path.join(homeDir, '.stackstart', 'templates'), 'api', 'User API');
+    writeTemplate(path.join(cwd, '.stackstart', 'templates'), 'api', 'Project API');
+
+    const template = resolveTemplate('api', { cwd, homeDir, env: {} });
+
+    expect(template.source).toBe('project');
+    expect(template.manifest.displayName).toBe('Project API');
+  });
+
+  it('should skip directories without a template.json', () => {
+    mkdirSync(path.join(cwd, '.stackstart', 'templates', 'node', 'notes'), { recursive: true });
+
+    const template = resolveTemplate('node', { cwd, homeDir, env: {} });
+
+    expect(template.source).toBe('bundled');
+  });
+
+  it('should list every searched location when a template is missing', () => {
+    expect(() => resolveTemplate('missing', { cwd, homeDir, env: { [TEMPLATES_ENV_VAR]: 'custom' } }))
+      .toThrow(/Template 'missing' not found\. Searched:\n {2}- .*custom\/missing \(override\)\n.*\(project\)\n.*\(user\)\n.*\(bundled\)/);
+  });
+
+  it('should list templates from every location and flag shadowed ones', () => {
+    writeTemplate(path.join(cwd, '.stackstart', 'templates'), 'node', 'Project Node');
+    writeTemplate(path.join(homeDir, '.stackstart', 'templates'), 'api', 'User API');
+    mkdirSync(path.join(homeDir, '.stackstart', 'templates', 'not-a-template'));
+    mkdirSync(path.join(homeDir, '.stackstart', 'templates', 'broken'));
+    writeFileSync(path.join(homeDir, '.stackstart', 'templates', 'broken', 'template.json'), '{');
+
+    const listings = listTemplates({ cwd, homeDir, env: {} });
+    const summary = listings.map(listing => [listing.name, listing.source, listing.shadowed]);
+
+    expect(summary).toEqual([
+      ['node', 'project', false],
+      ['api', 'user', false],
+      ['broken', 'user', false],
+      ['full-stack', 'bundled', false],
+      ['node', 'bundled', true],
+      ['python', 'bundled', false],
+      ['react', 'bundled', false]
+    ]);
+    expect(listings[0].template!.manifest.displayName).toBe('Project Node');
+    expect(listings[2].error).toContain('Invalid template manifest');
+  });
+});
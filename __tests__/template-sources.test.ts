@@ -0,0 +1,145 @@
+import path from 'path';
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import execa from 'execa';
+import simpleGit from 'simple-git';
+import { fetchTemplate, formatTemplateOrigin, listCachedTemplates, parseTemplateSpec } from '../generators/template-sources';
+
+const sandboxPath = path.join(__dirname, 'test-sources');
+const cacheDir = path.join(sandboxPath, 'cache');
+
+function writeTemplate(templatePath: string, displayName: string): void {
+  mkdirSync(path.join(templatePath, 'src'), { recursive: true });
+  writeFileSync(path.join(templatePath, 'template.json'), JSON.stringify({
+    name: 'api',
+    displayName,
+    language: 'javascript',
+    packageManager: 'npm',
+    installCommand: 'npm install',
+    testCommand: 'npm test',
+    buildOutputDir: 'dist',
+    entryPoint: 'src/index.js',
+    startCommand: 'node src/index.js',
+    ci: 'node'
+  }));
+  writeFileSync(path.join(templatePath, 'src/index.js'), `console.log('${displayName}');`);
+}
+
+describe('parseTemplateSpec', () => {
+  it('should classify template specs', () => {
+    expect(parseTemplateSpec('node')).toMatchObject({ kind: 'name', location: 'node' });
+    expect(parseTemplateSpec('./templates/api')).toMatchObject({ kind: 'path' });
+    expect(parseTemplateSpec('/srv/api.tgz')).toMatchObject({ kind: 'archive' });
+    expect(parseTemplateSpec('git+file:///srv/templates/api.git#v2')).toEqual({
+      kind: 'git',
+      raw: 'git+file:///srv/templates/api.git#v2',
+      location: 'file:///srv/templates/api.git',
+      ref: 'v2'
+    });
+    expect(parseTemplateSpec('https://git.example.com/api.git')).toMatchObject({ kind: 'git', ref: undefined });
+  });
+});
+
+describe('fetchTemplate', () => {
+  beforeEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+    mkdirSync(sandboxPath, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should load a template from a relative path', async () => {
+    writeTemplate(path.join(sandboxPath, 'local-api'), 'Local API');
+
+    const template = await fetchTemplate('./local-api', { baseDir: sandboxPath, cacheDir });
+
+    expect(template.source).toBe('local');
+    expect(template.path).toBe(path.join(sandboxPath, 'local-api'));
+    expect(template.manifest.displayName).toBe('Local API');
+  });
+
+  it('should clone a git template at a pinned ref into the cache', async () => {
+    const repoPath = path.join(sandboxPath, 'api.git');
+    writeTemplate(repoPath, 'Version 2');
+    const git = simpleGit(repoPath);
+    await git.init();
+    await git.addConfig('user.name', 'StackStart');
+    await git.addConfig('user.email', 'stackstart@example.com');
+    await git.add('.');
+    await git.commit('v2');
+    await git.addAnnotatedTag('v2', 'v2');
+    const commit = (await git.revparse(['HEAD'])).trim();
+    writeTemplate(repoPath, 'Version 3');
+    await git.add('.');
+    await git.commit('v3');
+
+    const spec = `git+file://${repoPath}#v2`;
+    const template = await fetchTemplate(spec, { cacheDir });
+
+    expect(template.source).toBe('git');
+    expect(template.manifest.displayName).toBe('Version 2');
+    expect(template.origin).toEqual({ spec, url: `file://${repoPath}`, ref: 'v2', commit });
+    expect(template.path.startsWith(cacheDir)).toBe(true);
+    expect(template.path.endsWith(commit)).toBe(true);
+    expect(existsSync(path.join(template.path, '.git'))).toBe(false);
+    expect(formatTemplateOrigin(template.origin!)).toBe(`Template: ${spec} (commit ${commit})`);
+
+    // A second fetch reuses the cached revision.
+    const again = await fetchTemplate(spec, { cacheDir });
+    expect(again.path).toBe(template.path);
+  });
+
+  it('should fail clearly when a git ref does not exist', async () => {
+    const repoPath = path.join(sandboxPath, 'empty.git');
+    writeTemplate(repoPath, 'Empty');
+    const git = simpleGit(repoPath);
+    await git.init();
+    await git.addConfig('user.name', 'StackStart');
+    await git.addConfig('user.email', 'stackstart@example.com');
+    await git.add('.');
+    await git.commit('initial');
+
+    await expect(fetchTemplate(`git+file://${repoPath}#missing`, { cacheDir }))
+      .rejects.toThrow(`Ref 'missing' not found in file://${repoPath}`);
+  });
+
+  it('should extract a .tgz archive into a content-addressed cache entry', async () => {
+    writeTemplate(path.join(sandboxPath, 'package'), 'Archived API');
+    const archivePath = path.join(sandboxPath, 'api.tgz');
+    await execa('tar', ['-czf', archivePath, '-C', sandboxPath, 'package']);
+
+    const template = await fetchTemplate(archivePath, { cacheDir });
+
+    expect(template.source).toBe('archive');
+    expect(template.manifest.displayName).toBe('Archived API');
+    expect(template.path).toBe(path.join(cacheDir, 'archives', template.origin!.integrity!, 'package'));
+    expect(readdirSync(path.join(cacheDir, 'archives'))).toEqual([template.origin!.integrity!, `${template.origin!.integrity!}.json`]);
+  });
+
+  it('should list cached templates with their origin', async () => {
+    writeTemplate(path.join(sandboxPath, 'package'), 'Archived API');
+    const archivePath = path.join(sandboxPath, 'api.tgz');
+    await execa('tar', ['-czf', archivePath, '-C', sandboxPath, 'package']);
+    const fetched = await fetchTemplate(archivePath, { cacheDir });
+
+    const cached = listCachedTemplates({ cacheDir });
+
+    expect(cached).toHaveLength(1);
+    expect(cached[0].source).toBe('archive');
+    expect(cached[0].path).toBe(fetched.path);
+    expect(cached[0].origin).toEqual(fetched.origin);
+    expect(listCachedTemplates({ cacheDir: path.join(sandboxPath, 'empty') })).toEqual([]);
+  });
+
+  it('should fall back to the template search path for plain names', async () => {
+    const template = await fetchTemplate('react', { cacheDir });
+
+    expect(template.source).toBe('bundled');
+    expect(template.origin).toBeUndefined();
+  });
+});
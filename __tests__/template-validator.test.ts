@@ -0,0 +1,136 @@
+import path from 'path';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { validateTemplate } from '../generators/template-validator';
+
+const sandboxPath = path.join(__dirname, 'test-validator');
+const templatePath = path.join(sandboxPath, 'api');
+
+function writeTemplate(fields: Record<string, unknown>, files: Record<string, string | Buffer>): void {
+  mkdirSync(templatePath, { recursive: true });
+  writeFileSync(path.join(templatePath, 'template.json'), JSON.stringify({
+    name: 'api',
+    language: 'javascript',
+    packageManager: 'npm',
+    installCommand: 'npm install',
+    testCommand: 'npm test',
+    buildOutputDir: 'dist',
+    entryPoint: 'src/index.js',
+    startCommand: 'node src/index.js',
+    ci: 'node',
+    ...fields
+  }));
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(templatePath, file)), { recursive: true });
+    writeFileSync(path.join(templatePath, file), content);
+  }
+}
+
+describe('validateTemplate', () => {
+  beforeEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  afterEach(() => {
+    if (existsSync(sandboxPath)) {
+      rmSync(sandboxPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should pass the bundled templates', async () => {
+    for (const name of ['node', 'react', 'python', 'full-stack']) {
+      const report = await validateTemplate(path.join(__dirname, '..', 'templates', name));
+      expect(report.issues).toEqual([]);
+      expect(report.renderedFiles).toBeGreaterThan(0);
+    }
+  });
+
+  it('should report undefined placeholders and unused variables', async () => {
+    writeTemplate({ variables: { region: { default: 'eu-west-1' }, unused: {} } }, {
+      'package.json': '{ "name": "{{projectName}}" }',
+      'src/index.js': 'const region = "{{region}}"; const db = "{{ databaseUrl }}";',
+      '{{stage}}.md': 'hello'
+    });
+
+    const report = await validateTemplate(templatePath);
+
+    expect(report.issues).toHaveLength(3);
+    expect(report.issues).toEqual(expect.arrayContaining([
+      { severity: 'error', file: 'src/index.js', message: 'Placeholder \'databaseUrl\' is used but not defined in the manifest "variables"' },
+      { severity: 'error', file: '{{stage}}.md', message: 'Placeholder \'stage\' is used but not defined in the manifest "variables"' },
+      { severity: 'warning', message: 'Variable \'unused\' is defined but never used' }
+    ]));
+    expect(report.renderedFiles).toBe(0);
+  });
+
+  it('should warn about placeholders in files that are copied verbatim', async () => {
+    writeTemplate({ copyOnly: ['fixtures/**', 'missing/**'] }, {
+      'src/index.js': 'console.log("{{projectName}}");',
+      'logo.png': '{{projectName}}',
+      'fixtures/data.txt': '{{ notAVariable }}'
+    });
+
+    const report = await validateTemplate(templatePath);
+
+    expect(report.issues).toEqual([
+      { severity: 'warning', file: 'logo.png', message: 'Looks like a binary file, so its placeholders will not be rendered' },
+      { severity: 'warning', message: '"copyOnly" pattern \'missing/**\' does not match any file' }
+    ]);
+  });
+
+  it('should check large text files like any other, as none are skipped for size', async () => {
+    writeTemplate({}, {
+      'src/index.js': 'console.log("{{projectName}}");',
+      'fixtures/big.txt': `${'x'.repeat(2 * 1024 * 1024)}\n{{ region }}\n`
+    });
+
+    const report = await validateTemplate(templatePath);
+
+    expect(report.issues).toContainEqual(
+      { severity: 'error', file: 'fixtures/big.txt', message: 'Placeholder \'region\' is used but not defined in the manifest "variables"' }
+    );
+  });
+
+  it('should report manifest references to missing files', async () => {
+    writeTemplate({
+      entryPoint: 'src/server.js',
+      demo: 'demo',
+      subprojects: [{ name: 'web', template: '../nowhere', path: 'web', role: 'web' }]
+    }, { 'src/index.js': '' });
+
+    const report = await validateTemplate(templatePath);
+
+    expect(report.issues.map(issue => issue.message)).toEqual([
+      '"demo" directory demo does not exist',
+      expect.stringContaining('nowhere')
+    ]);
+  });
+
+  it('should check the trial render for broken package files and a missing entry point', async () => {
+    writeTemplate({ entryPoint: 'src/{{projectName}}.js' }, {
+      'package.json': '{ "name": "{{projectName}}", }',
+      'requirements.txt': '# pinned\nflask==3.0.0\nrequests>=2,<3\nthis is not a requirement\n',
+      'src/index.js': ''
+    });
+
+    const report = await validateTemplate(templatePath);
+
+    expect(report.renderedFiles).toBe(3);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ severity: 'error', file: 'package.json', message: expect.stringContaining('invalid JSON') }),
+      { severity: 'error', file: 'requirements.txt', message: 'Line 4 is not a valid requirement: this is not a requirement' },
+      { severity: 'error', file: 'template.json', message: '"entryPoint" src/{{projectName}}.js does not exist in the generated project' }
+    ]);
+  });
+
+  it('should report a missing manifest without rendering', async () => {
+    mkdirSync(templatePath, { recursive: true });
+
+    const report = await validateTemplate(templatePath);
+
+    expect(report.issues).toEqual([
+      { severity: 'error', file: 'template.json', message: `Template at ${templatePath} has no template.json manifest.` }
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import path from 'path';
+import { cpSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { generateScaffold } from '../generators/scaffold';
+import { hashContent, readProjectManifest } from '../generators/project-manifest';
+import { fetchPublishedTemplate } from '../generators/template-sources';
+import { upgradeProject } from '../generators/upgrade';
+
+// Old bundled templates come from npm; no test should reach the registry.
+jest.mock('../generators/template-sources', () => ({
+  ...jest.requireActual('../generators/template-sources'),
+  fetchPublishedTemplate: jest.fn()
+}));
+
+describe('upgradeProject', () => {
+  const sandbox = path.join(__dirname, 'test-upgrade');
+  const templatePath = path.join(sandbox, 'service-template');
+  const oldTemplatePath = path.join(sandbox, 'service-template-1.0.0');
+  const projectRoot = path.join(sandbox, 'billing');
+
+  const writeTemplate = (version: string, files: Record<string, string>) => {
+    rmSync(templatePath, { recursive: true, force: true });
+    mkdirSync(templatePath, { recursive: true });
+    writeFileSync(path.join(templatePath, 'template.json'), JSON.stringify({
+      name: 'service',
+      version,
+      language: 'javascript',
+      packageManager: 'npm',
+      installCommand: 'npm install',
+      testCommand: 'npm test',
+      buildOutputDir: 'dist',
+      entryPoint: 'src/index.js',
+      startCommand: 'node src/index.js',
+      ci: 'node',
+      deployTargets: ['vercel']
+    }));
+    for (const [file, content] of Object.entries(files)) {
+      mkdirSync(path.dirname(path.join(templatePath, file)), { recursive: true });
+      writeFileSync(path.join(templatePath, file), content);
+    }
+  };
+  const read = (file: string) => readFileSync(path.join(projectRoot, file), 'utf8');
+  const edit = (file: string, from: string, to: string) => writeFileSync(path.join(projectRoot, file), read(file).replace(from, to));
+
+  beforeEach(async () => {
+    writeTemplate('1.0.0', {
+      'package.json': '{ "name": "{{projectName}}", "scripts": { "test": "jest" } }\n',
+      'README.md': '# {{projectName}}\n\nRun it.\n\nTest it.\n',
+      'src/index.js': "console.log('hello');\n",
+      'config.yml': 'port: 3000\nhost: 0.0.0.0\nlevel: info\n',
+      'OLD.md': 'going away\n'
+    });
+    cpSync(templatePath, oldTemplatePath, { recursive: true });
+    await generateScaffold('billing', {
+      template: templatePath,
+      aiEnhanced: false,
+      deployTarget: 'vercel',
+      withDemo: false,
+      cwd: sandbox,
+      skipInstall: true,
+      skipGit: true,
+      createGithubRepo: false
+    });
+    writeTemplate('2.0.0', {
+      'package.json': '{ "name": "{{projectName}}", "scripts": { "test": "jest --ci" } }\n',
+      'README.md': '# {{projectName}}\n\nRun it with npm start.\n\nTest it.\n',
+      'src/index.js': "console.log('hello, world');\n",
+      'config.yml': 'port: 3000\nhost: 0.0.0.0\nlevel: warn\n',
+      '.nvmrc': '20\n'
+    });
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should bring untouched files up to date and record the new version', async () => {
+    const result = await upgradeProject({ cwd: projectRoot, from: oldTemplatePath });
+
+    expect(result.changes).toEqual([
+      { path: '.nvmrc', action: 'added' },
+      { path: 'OLD.md', action: 'deleted' },
+      { path: 'README.md', action: 'updated' },
+      { path: 'config.yml', action: 'updated' },
+      { path: 'package.json', action: 'updated' },
+      { path: 'src/index.js', action: 'updated' }
+    ]);
+    expect(result.conflicts).toBe(0);
+    expect(read('README.md')).toBe('# billing\n\nRun it with npm start.\n\nTest it.\n');
+    expect(read('.nvmrc')).toBe('20\n');
+    expect(existsSync(path.join(projectRoot, 'OLD.md'))).toBe(false);
+
+    const manifest = readProjectManifest(projectRoot)!;
+    expect(manifest.template.version).toBe('2.0.0');
+    expect(manifest.template.spec).toBe(templatePath);
+    expect(manifest.files['config.yml']).toBe(hashContent('port: 3000\nhost: 0.0.0.0\nlevel: warn\n'));
+    expect(manifest.files['OLD.md']).toBeUndefined();
+  });
+
+  it('should merge template changes around the lines users edited', async () => {
+    edit('README.md', 'Test it.', 'Test it with npm test.');
+    edit('config.yml', 'port: 3000', 'port: 8080');
+
+    const result = await upgradeProject({ cwd: projectRoot, from: oldTemplatePath });
+
+    expect(result.changes).toEqual(expect.arrayContaining([
+      { path: 'README.md', action: 'merged' },
+      { path: 'config.yml', action: 'merged' }
+    ]));
+    expect(read('README.md')).toBe('# billing\n\nRun it with npm start.\n\nTest it with npm test.\n');
+    expect(read('config.yml')).toBe('port: 8080\nhost: 0.0.0.0\nlevel: warn\n');
+  });
+
+  it('should leave conflict markers where both sides changed the same lines', async () => {
+    edit('src/index.js', "'hello'", "'hello, billing'");
+    edit('OLD.md', 'going away', 'still needed');
+
+    const result = await upgradeProject({ cwd: projectRoot, from: oldTemplatePath });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.changes).toEqual(expect.arrayContaining([
+      { path: 'src/index.js', action: 'conflict', detail: '1 conflict marked in the file' },
+      { path: 'OLD.md', action: 'kept', detail: 'no longer in the template, but you changed it' }
+    ]));
+    expect(read('src/index.js')).toBe([
+      '<<<<<<< yours',
+      "console.log('hello, billing');",
+      '=======',
+      "console.log('hello, world');",
+      '>>>>>>> service 2.0.0',
+      ''
+    ].join('\n'));
+  });
+
+  it('should write .rej files instead when asked to', async () => {
+    edit('src/index.js', "'hello'", "'hello, billing'");
+
+    await upgradeProject({ cwd: projectRoot, from: oldTemplatePath, reject: true });
+
+    expect(read('src/index.js')).toBe("console.log('hello, billing');\n");
+    expect(read('src/index.js.rej')).toContain("-console.log('hello');\n+console.log('hello, world');");
+  });
+
+  it('should not touch anything in a dry run', async () => {
+    const result = await upgradeProject({ cwd: projectRoot, from: oldTemplatePath, dryRun: true });
+
+    expect(result.changes.length).toBeGreaterThan(0);
+    expect(read('config.yml')).toBe('port: 3000\nhost: 0.0.0.0\nlevel: info\n');
+    expect(readProjectManifest(projectRoot)!.template.version).toBe('1.0.0');
+  });
+
+  it('should ask for the old template when it cannot be found', async () => {
+    await expect(upgradeProject({ cwd: projectRoot })).rejects.toThrow('Cannot find service 1.0.0 as the project was generated from it');
+  });
+
+  it('should ask for the old bundled template when npm cannot provide it', async () => {
+    const manifestFile = path.join(projectRoot, '.stackstart.json');
+    const manifest = JSON.parse(readFileSync(manifestFile, 'utf8'));
+    manifest.template = { name: 'node', source: 'bundled', spec: 'node', version: '0.0.1' };
+    writeFileSync(manifestFile, JSON.stringify(manifest));
+    (fetchPublishedTemplate as jest.Mock).mockRejectedValue(new Error('npm ERR! code ENOTFOUND'));
+
+    const upgrade = upgradeProject({ cwd: projectRoot });
+
+    await expect(upgrade).rejects.toThrow('Cannot fetch node 0.0.1 from npm as the project was generated from it: npm ERR! code ENOTFOUND');
+    await expect(upgrade).rejects.toThrow('Pass --from with that version of the template, e.g. templates/node of stackstart 0.0.1.');
+    expect(fetchPublishedTemplate).toHaveBeenCalledWith('node', '0.0.1', expect.anything());
+  });
+
+  it('should find nothing to do on the same version', async () => {
+    rmSync(templatePath, { recursive: true, force: true });
+    cpSync(oldTemplatePath, templatePath, { recursive: true });
+
+    const result = await upgradeProject({ cwd: projectRoot });
+
+    expect(result.changes).toEqual([]);
+  });
+
+  it('should refuse projects without .stackstart.json', async () => {
+    await expect(upgradeProject({ cwd: sandbox })).rejects.toThrow('Only projects created with stackstart can be upgraded');
+  });
+});
@@ -0,0 +1,158 @@
+import { PassThrough } from 'stream';
+import { createConflictResolver, createReadlinePrompter, isInteractive, Prompter, runCreateWizard } from '../cli/wizard';
+
+// Answers questions in order and records what was asked.
+function scriptedPrompter(answers: unknown[]) {
+  const asked: Array<{ message: string; choices?: string[]; defaultValue: unknown }> = [];
+  const next = () => {
+    if (answers.length === 0) throw new Error('No scripted answer left');
+    return answers.shift();
+  };
+  const prompter: Prompter = {
+    select: async (message, choices, defaultValue) => {
+      asked.push({ message, choices: choices.map(choice => choice.value), defaultValue });
+      return next() as string;
+    },
+    confirm: async (message, defaultValue) => {
+      asked.push({ message, defaultValue });
+      return next() as boolean;
+    },
+    input: async (message, defaultValue) => {
+      asked.push({ message, defaultValue });
+      return next() as string;
+    }
+  };
+  return { prompter, asked };
+}
+
+describe('create wizard', () => {
+  const originalToken = process.env.GITHUB_TOKEN;
+
+  beforeEach(() => {
+    delete process.env.GITHUB_TOKEN;
+  });
+
+  afterAll(() => {
+    if (originalToken !== undefined) process.env.GITHUB_TOKEN = originalToken;
+  });
+
+  it('should only prompt on a TTY without --yes', () => {
+    expect(isInteractive(false, { isTTY: true }, { isTTY: true })).toBe(true);
+    expect(isInteractive(true, { isTTY: true }, { isTTY: true })).toBe(false);
+    expect(isInteractive(false, { isTTY: undefined }, { isTTY: true })).toBe(false);
+  });
+
+  it('should fall back to the defaults without asking anything', async () => {
+    const { prompter, asked } = scriptedPrompter([]);
+
+    const options = await runCreateWizard({ given: { deployTarget: 'aws' }, interactive: false, prompter });
+
+    expect(options).toEqual({ template: 'node', deployTarget: 'aws', withDemo: false, aiEnhanced: false });
+    expect(asked).toEqual([]);
+  });
+
+  it('should ask for everything that was not passed', async () => {
+    process.env.GITHUB_TOKEN = 'token';
+    const { prompter, asked } = scriptedPrompter(['react', 'netlify', true, false, 'ISC', 'pnpm', false]);
+
+    const options = await runCreateWizard({ given: {}, interactive: true, prompter });
+
+    expect(options).toEqual({
+      template: 'react',
+      deployTarget: 'netlify',
+      withDemo: true,
+      aiEnhanced: false,
+      license: 'ISC',
+      packageManager: 'pnpm',
+      createGithubRepo: false
+    });
+    expect(asked.map(question => question.message)).toEqual([
+      'Which template?',
+      'Where will it be deployed?',
+      'Include the demo app?',
+      'Apply AI enhancements?',
+      'Which license?',
+      'Which package manager?',
+      'Create a GitHub repository?'
+    ]);
+    expect(asked[0].choices).toEqual(['full-stack', 'node', 'python', 'react']);
+    expect(asked[1]).toEqual(expect.objectContaining({ choices: ['vercel', 'netlify', 'aws', 'gcp'], defaultValue: 'vercel' }));
+  });
+
+  it('should skip questions for passed flags and options the template does not have', async () => {
+    const { prompter, asked } = scriptedPrompter([false, 'MIT']);
+
+    const options = await runCreateWizard({
+      given: { template: 'python', deployTarget: 'gcp', withDemo: false },
+      interactive: true,
+      prompter
+    });
+
+    expect(asked.map(question => question.message)).toEqual(['Apply AI enhancements?', 'Which license?']);
+    expect(options.packageManager).toBeUndefined();
+    expect(options.license).toBe('MIT');
+  });
+
+  it('should offer no license and preselect it like --yes does', async () => {
+    const { prompter, asked } = scriptedPrompter([false, 'none']);
+
+    const options = await runCreateWizard({ given: { template: 'python', deployTarget: 'gcp', withDemo: false }, interactive: true, prompter });
+
+    const question = asked.find(entry => entry.message === 'Which license?')!;
+    expect(question.choices).toContain('none');
+    expect(question.defaultValue).toBe('none');
+    expect(options.license).toBeUndefined();
+    expect('license' in options).toBe(false);
+  });
+
+  it('should preselect config defaults and let passed options win', async () => {
+    const { prompter, asked } = scriptedPrompter(['python', 'aws', false, 'ISC']);
+
+    const options = await runCreateWizard({
+      given: { withDemo: false },
+      defaults: { template: 'python', deployTarget: 'aws', license: 'ISC', author: 'Platform Team', withDemo: true },
+      interactive: true,
+      prompter
+    });
+
+    expect(asked[0].defaultValue).toBe('python');
+    expect(asked[1].defaultValue).toBe('aws');
+    expect(asked.find(question => question.message === 'Which license?')!.defaultValue).toBe('ISC');
+    expect(options).toEqual(expect.objectContaining({ author: 'Platform Team', withDemo: false }));
+  });
+
+  it('should show a diff before resolving a conflict', async () => {
+    const { prompter, asked } = scriptedPrompter(['diff', 'overwrite']);
+    const output = new PassThrough();
+    const resolve = createConflictResolver(prompter, output);
+
+    const choice = await resolve({ path: 'README.md', existing: Buffer.from('# Mine\n'), incoming: Buffer.from('# Template\n') });
+
+    expect(choice).toBe('overwrite');
+    expect(asked).toHaveLength(2);
+    expect(asked[0].choices).toEqual(['skip', 'overwrite', 'keep-both', 'diff']);
+    expect(output.read().toString()).toContain('-# Mine\n+# Template');
+  });
+
+  it('should read answers from a terminal stream', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    output.resume();
+    const prompter = createReadlinePrompter(input, output);
+    // readline drops lines that arrive before the next question is asked.
+    const type = async (line: string) => {
+      await new Promise(resolve => setImmediate(resolve));
+      input.write(`${line}\n`);
+    };
+
+    const picked = prompter.select('Pick', [{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }], 'a');
+    await type('7');
+    await type('2');
+    expect(await picked).toBe('b');
+
+    const confirmed = prompter.confirm('Sure?', false);
+    await type('');
+    expect(await confirmed).toBe(false);
+    prompter.close!();
+  });
+});
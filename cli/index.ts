@@ -4,7 +4,25 @@ import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
 import { existsSync } from 'fs';
-import { generateScaffold } from '../generators/scaffold';
+import { generateScaffold, ScaffoldOptions } from '../generators/scaffold';
+import { validateTemplate } from '../generators/template-validator';
+import { extractTemplate } from '../generators/template-extractor';
+import { catalogEnhancements, catalogTargets, catalogTemplates } from '../generators/catalog';
+import { fetchTemplate, formatTemplateOrigin } from '../generators/template-sources';
+import { configDefaults, findPreset, loadConfig, StackstartConfig } from '../generators/config';
+import { deriveProjectNames } from '../generators/project-name';
+import { validateCreateOptions } from '../generators/options';
+import { detectPackageManager, JS_PACKAGE_MANAGERS } from '../generators/package-managers';
+import { didYouMean } from '../generators/suggest';
+import { Conflict, CONFLICT_POLICIES, ConflictPolicy, ExistingDirectoryMode, isEmptyDirectory } from '../generators/conflicts';
+import { formatTable } from './table';
+import { applyEnhancementPlan, ENHANCEMENT_FLAVORS, EnhancementPlan, planEnhancement } from '../generators/add-enhancement';
+import { describeTemplateVersion, upgradeProject, UpgradeAction } from '../generators/upgrade';
+import { DoctorReport, runDoctor } from '../generators/doctor';
+import { checkPolicy, findPolicy, POLICY_FILE, policySarif, PolicyReport, readPolicy } from '../generators/policy';
+import { formatCommand, formatEnhancementPlan, formatPlan } from './plan';
+import { createJsonListener, createSpinnerListener, printJsonLine, printWarnings } from './progress';
+import { createConflictResolver, createReadlinePrompter, isInteractive, Prompter, runCreateWizard } from './wizard';
 // eslint-disable-next-line @typescript-eslint/consistent-type-imports
 import pkg from '../package.json';
 
@@ -17,34 +35,554 @@ program
 
 program
   .command('create')
-  .argument('<project-name>', 'name of the project')
-  .option('-t, --template <template>', 'project template (react, node, python, full-stack)', 'node')
+  .argument('[project-name]', 'name of the project (defaults to the current directory name with --here)')
+  .option('-t, --template <template>', 'project template: a name (see `stackstart list templates`), a path, a .tgz archive or a git+ URL', 'node')
   .option('--ai-enhanced', 'use GPT-4o for custom scaffolding', false)
-  .option('-d, --deploy-target <target>', 'deployment target (vercel, netlify, aws, gcp)', 'vercel')
+  .option('-d, --deploy-target <target>', 'deployment target (see `stackstart list targets`)', 'vercel')
   .option('--with-demo', 'include sample app with the scaffold', false)
-  .action(async (projectName: string, options: Record<string, unknown>) => {
-    const targetDir = path.resolve(process.cwd(), projectName);
-    if (existsSync(targetDir)) {
-      console.error(chalk.red(`❌ Directory ${projectName} already exists.`));
+  .option('--license <id>', 'write a LICENSE file (MIT, ISC, UNLICENSED)')
+  .option('--package-manager <name>', `${JS_PACKAGE_MANAGERS.join(', ')} (default: the one running stackstart, else the template's)`)
+  .option('--skip-install', 'do not install dependencies', false)
+  .option('--skip-git', 'do not initialize a git repository', false)
+  .option('--keep-on-failure', 'leave the partial project in place if a step fails, for debugging', false)
+  .option('--no-github', 'do not create a GitHub repository even if GITHUB_TOKEN is set')
+  .option('--github-org <org>', 'create the GitHub repository in this organization')
+  .option('--author <name>', 'author name for {{author}} and the LICENSE')
+  .option('-p, --preset <name>', 'apply a named preset from stackstart.config.json or ~/.stackstartrc')
+  .option('-y, --yes', 'skip the interactive questions and use defaults', false)
+  .option('--dry-run', 'show what would be created and run without touching disk', false)
+  .option('--show-contents', 'with --dry-run, also print every generated file', false)
+  .option('--json', 'print progress events and a final summary as NDJSON', false)
+  .option('--here', 'scaffold into the current directory', false)
+  .option('--merge', 'scaffold into a directory that already has files, resolving conflicts', false)
+  .option('--force', 'scaffold into a directory that already has files, overwriting conflicts', false)
+  .option('--on-conflict <policy>', `with --merge: ${CONFLICT_POLICIES.join(', ')} (default: ask in a terminal, skip otherwise)`)
+  .action(async (nameArgument: string | undefined, options: Record<string, unknown>, command: Command) => {
+    const json = Boolean(options.json);
+    const fail = (message: string) => {
+      if (json) {
+        printJsonLine({ type: 'error', message });
+      } else {
+        console.error(chalk.red(message));
+      }
       process.exit(1);
+    };
+
+    const here = Boolean(options.here);
+    if (!nameArgument && !here) {
+      return fail('Missing project name. Pass one, or use --here to scaffold into the current directory.');
+    }
+    const projectName = nameArgument || path.basename(process.cwd());
+    if (options.merge && options.force) {
+      return fail('Use either --merge or --force, not both.');
+    }
+    const onExisting: ExistingDirectoryMode | undefined = options.force ? 'force' : options.merge ? 'merge' : undefined;
+    const conflictPolicy = options.onConflict as ConflictPolicy | undefined;
+    if (conflictPolicy && !CONFLICT_POLICIES.includes(conflictPolicy)) {
+      return fail(`Unknown conflict policy '${conflictPolicy}'.${didYouMean(conflictPolicy, CONFLICT_POLICIES)} Choose one of: ${CONFLICT_POLICIES.join(', ')}`);
+    }
+
+    const { directoryName } = deriveProjectNames(projectName);
+    const targetDir = here ? process.cwd() : path.resolve(process.cwd(), directoryName);
+    if (existsSync(targetDir) && !onExisting && !(here && isEmptyDirectory(targetDir))) {
+      return fail(`❌ Directory ${path.basename(targetDir)} ${here ? 'is not empty' : 'already exists'}. Use --merge or --force to scaffold into it.`);
     }
 
-    const spinner = ora(`Creating project ${chalk.cyan(projectName)}...`).start();
+    let config: StackstartConfig;
     try {
-      await generateScaffold(projectName, {
-        template: options.template as string,
-        aiEnhanced: Boolean(options.aiEnhanced),
-        deployTarget: options.deployTarget as string,
-        withDemo: Boolean(options.withDemo)
-      });
-      spinner.succeed(`Project ${chalk.green(projectName)} created successfully!`);
+      config = loadConfig().config;
+    } catch (err: unknown) {
+      return fail((err as Error).message);
+    }
+
+    // Only flags typed on the command line skip their question; commander's
+    // defaults are applied by the wizard instead.
+    const passed = (name: string) => command.getOptionValueSource(name) === 'cli';
+    // A preset counts as passed on the command line; flags still win over it.
+    const given: Partial<ScaffoldOptions> = {};
+    if (options.preset) {
+      try {
+        Object.assign(given, findPreset(config, options.preset as string));
+      } catch (err: unknown) {
+        return fail((err as Error).message);
+      }
+    }
+    if (config.templatePaths && config.templatePaths.length > 0) given.templatePaths = config.templatePaths;
+    if (passed('template')) given.template = options.template as string;
+    if (passed('deployTarget')) given.deployTarget = options.deployTarget as string;
+    if (passed('withDemo')) given.withDemo = Boolean(options.withDemo);
+    if (passed('aiEnhanced')) given.aiEnhanced = Boolean(options.aiEnhanced);
+    if (passed('license')) given.license = options.license as string;
+    if (passed('github')) given.createGithubRepo = Boolean(options.github);
+    if (passed('githubOrg')) given.githubOrg = options.githubOrg as string;
+    if (passed('author')) given.author = options.author as string;
+    if (passed('packageManager')) given.packageManager = options.packageManager as string;
+    if (passed('skipInstall')) given.skipInstall = Boolean(options.skipInstall);
+    if (passed('skipGit')) given.skipGit = Boolean(options.skipGit);
+
+    // Typos fail here, before any question is asked or any file is written.
+    try {
+      validateCreateOptions({ ...configDefaults(config), ...given });
+      if (given.template) {
+        const { manifest } = await fetchTemplate(given.template, { extraPaths: given.templatePaths });
+        validateCreateOptions(given, manifest);
+      }
+    } catch (err: unknown) {
+      return fail((err as Error).message);
+    }
+
+    // Prompts would end up in the NDJSON stream, so --json never asks.
+    const interactive = !json && isInteractive(Boolean(options.yes));
+    let scaffoldOptions: ScaffoldOptions;
+    try {
+      // `pnpm dlx stackstart` sets pnpm up unless told otherwise.
+      const defaults = { packageManager: detectPackageManager(), ...configDefaults(config) };
+      scaffoldOptions = await runCreateWizard({ given, defaults, interactive });
+    } catch (err: unknown) {
+      return fail((err as Error).message);
+    }
+
+    // The conflict prompter is only opened if a conflict actually needs an answer.
+    let conflictPrompter: Prompter | undefined;
+    Object.assign(scaffoldOptions, {
+      here,
+      onExisting,
+      keepOnFailure: Boolean(options.keepOnFailure),
+      policy: findPolicy(targetDir, config.policy),
+      conflictPolicy: conflictPolicy || (interactive ? 'ask' : 'skip'),
+      resolveConflict: interactive
+        ? (conflict: Conflict) => createConflictResolver(conflictPrompter = conflictPrompter || createReadlinePrompter())(conflict)
+        : undefined
+    });
+    const closePrompter = () => conflictPrompter && conflictPrompter.close && conflictPrompter.close();
+    const dryRun = Boolean(options.dryRun);
+
+    if (json) {
+      try {
+        const result = await generateScaffold(projectName, { ...scaffoldOptions, dryRun, onEvent: createJsonListener() });
+        printJsonLine({
+          type: 'summary',
+          projectName,
+          names: result.names,
+          projectRoot: result.projectRoot,
+          dryRun,
+          options: scaffoldOptions,
+          origin: result.origin,
+          files: result.files,
+          updates: result.updates,
+          commands: result.commands,
+          deferred: result.deferred,
+          warnings: result.warnings,
+          policy: result.policy
+        });
+      } catch (err: unknown) {
+        fail((err as Error).message);
+      }
+      return;
+    }
+
+    const warnings: string[] = [];
+    const onEvent = createSpinnerListener(warnings);
+    if (dryRun) {
+      try {
+        const result = await generateScaffold(projectName, { ...scaffoldOptions, dryRun, onEvent });
+        console.log();
+        console.log(formatPlan(result, Boolean(options.showContents)));
+        console.log();
+        console.log(chalk.cyan('Dry run - nothing was written to disk'));
+        printWarnings(warnings);
+      } catch (err: unknown) {
+        printWarnings(warnings);
+        fail((err as Error).message);
+      }
+      return;
+    }
+
+    // Ctrl+C stops the run and rolls it back; a second one exits as usual.
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    process.once('SIGINT', cancel);
+    try {
+      const result = await generateScaffold(projectName, { ...scaffoldOptions, onEvent, interactive: true, signal: controller.signal });
+      process.removeListener('SIGINT', cancel);
+      closePrompter();
+      console.log();
+      if (result.origin) {
+        console.log(chalk.gray(formatTemplateOrigin(result.origin)));
+      }
+      ora().succeed(`Project ${chalk.green(projectName)} created successfully!`);
       console.log();
       console.log(chalk.bold('Next steps:'));
-      console.log(`  cd ${projectName}`);
+      if (!here) console.log(`  cd ${directoryName}`);
+      for (const deferred of result.deferred) {
+        console.log(`  ${deferred.cwd === '.' ? '' : `(cd ${deferred.cwd} && `}${formatCommand(deferred)}${deferred.cwd === '.' ? '' : ')'}`);
+      }
       console.log('  git remote add origin <your-repo-url>');
       console.log('  git push -u origin main');
+      printWarnings(warnings);
+    } catch (err: unknown) {
+      process.removeListener('SIGINT', cancel);
+      closePrompter();
+      ora().fail('Failed to create project');
+      printWarnings(warnings);
+      if (!scaffoldOptions.keepOnFailure) console.error(chalk.gray('Nothing was left behind. Use --keep-on-failure to keep the partial project.'));
+      fail((err as Error).message);
+    }
+  });
+
+program
+  .command('add')
+  .description('add an enhancement to an existing project (see `stackstart list enhancements`)')
+  .argument('<enhancement>', 'enhancement id, e.g. logging')
+  .option('-t, --template <template>', `the kind of project when it has no .stackstart.json: ${ENHANCEMENT_FLAVORS.join(', ')} (default: detected)`)
+  .option('--force', 'add it even if the project seems to have it, replacing files it creates', false)
+  .option('--dry-run', 'show the changes without writing anything', false)
+  .option('--show-diff', 'also print a diff of every existing file that changes', false)
+  .option('-y, --yes', 'apply the changes without asking', false)
+  .action(async (id: string, options: Record<string, unknown>) => {
+    const fail = (message: string) => {
+      console.error(chalk.red(message));
+      process.exit(1);
+    };
+
+    let plan: EnhancementPlan;
+    try {
+      plan = await planEnhancement(id, { template: options.template as string | undefined, force: Boolean(options.force) });
+    } catch (err: unknown) {
+      return fail((err as Error).message);
+    }
+    console.log(formatEnhancementPlan(plan, Boolean(options.showDiff)));
+    console.log();
+    if (plan.files.length === 0) return;
+    if (options.dryRun) {
+      console.log(chalk.cyan('Dry run - nothing was written to disk'));
+      return;
+    }
+
+    if (isInteractive(Boolean(options.yes))) {
+      const prompter = createReadlinePrompter();
+      const apply = await prompter.confirm('Apply these changes?', true);
+      if (prompter.close) prompter.close();
+      if (!apply) {
+        console.log('Nothing was changed.');
+        return;
+      }
+    }
+    try {
+      applyEnhancementPlan(plan);
+    } catch (err: unknown) {
+      return fail((err as Error).message);
+    }
+    ora().succeed(`Added ${chalk.green(id)}${plan.manifest ? ' and recorded it in .stackstart.json' : ''}`);
+    if (plan.deferred.length > 0) {
+      console.log();
+      console.log(chalk.bold('Next steps:'));
+      plan.deferred.forEach(deferred => console.log(`  ${formatCommand(deferred)}`));
+    }
+  });
+
+const UPGRADE_COLORS: Record<UpgradeAction, (text: string) => string> = {
+  updated: chalk.green,
+  merged: chalk.green,
+  added: chalk.green,
+  deleted: chalk.yellow,
+  kept: chalk.yellow,
+  conflict: chalk.red
+};
+
+program
+  .command('upgrade')
+  .description('pull template changes into a project created with stackstart')
+  .option('--to <template>', 'template to upgrade to, e.g. git+https://host/repo.git#v2 (default: the recorded one at its latest)')
+  .option('--from <template>', 'the template as the project was generated, if stackstart cannot find that version')
+  .option('--reject', 'keep edited files as they are and write the template changes to <file>.rej', false)
+  .option('--dry-run', 'show what would change without writing anything', false)
+  .action(async (options: Record<string, unknown>) => {
+    let config: StackstartConfig;
+    try {
+      config = loadConfig().config;
+    } catch (err: unknown) {
+      console.error(chalk.red((err as Error).message));
+      process.exit(1);
+    }
+
+    const spinner = ora('Rendering both template versions...').start();
+    try {
+      const result = await upgradeProject({
+        from: options.from as string | undefined,
+        to: options.to as string | undefined,
+        reject: Boolean(options.reject),
+        dryRun: Boolean(options.dryRun),
+        templatePaths: config.templatePaths
+      });
+      const from = describeTemplateVersion(result.from);
+      const to = describeTemplateVersion(result.to);
+      if (result.changes.length === 0) {
+        spinner.succeed(`Already up to date with ${to}`);
+        return;
+      }
+      spinner.succeed(`${result.dryRun ? 'Would upgrade' : 'Upgraded'} ${from} -> ${to}`);
+      for (const change of result.changes) {
+        const detail = change.detail ? chalk.gray(` (${change.detail})`) : '';
+        console.log(`  ${UPGRADE_COLORS[change.action](change.action.padEnd(8))} ${change.path}${detail}`);
+      }
+      console.log();
+      if (result.dryRun) console.log(chalk.cyan('Dry run - nothing was written to disk'));
+      if (result.conflicts > 0) {
+        console.log(chalk.red(`${result.conflicts} file(s) need a look before you commit.`));
+        process.exit(1);
+      }
+    } catch (err: unknown) {
+      spinner.fail('Upgrade failed');
+      console.error(chalk.red((err as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('doctor')
+  .description('check a project for tests, linting, logging and the rest, and score it')
+  .argument('[directory]', 'project to check', '.')
+  .option('-t, --template <template>', `the kind of project when it has no .stackstart.json: ${ENHANCEMENT_FLAVORS.join(', ')} (default: detected)`)
+  .option('--min-score <score>', 'exit with an error when the score is below this (0-100)')
+  .option('--json', 'print the report as JSON', false)
+  .action(async (directory: string, options: Record<string, unknown>) => {
+    const fail = (message: string) => {
+      console.error(chalk.red(message));
+      process.exit(1);
+    };
+    const minScore = options.minScore === undefined ? undefined : Number(options.minScore);
+    if (minScore !== undefined && !(Number.isInteger(minScore) && minScore >= 0 && minScore <= 100)) {
+      return fail(`--min-score must be a whole number from 0 to 100, got '${options.minScore}'.`);
+    }
+
+    let report: DoctorReport;
+    try {
+      report = await runDoctor({ cwd: directory, template: options.template as string | undefined });
+    } catch (err: unknown) {
+      return fail((err as Error).message);
+    }
+    const belowMinimum = minScore !== undefined && report.score < minScore;
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      const width = Math.max(...report.checks.map(check => check.label.length));
+      console.log(chalk.bold(`${path.basename(report.projectRoot)} (${report.template})`));
+      console.log();
+      for (const check of report.checks) {
+        const label = check.label.padEnd(width);
+        if (check.passed) {
+          console.log(`  ${chalk.green('✔')} ${label}  ${chalk.gray(check.evidence || '')}`);
+        } else {
+          const advice = check.fix ? `stackstart add ${check.fix}` : chalk.gray('missing');
+          console.log(`  ${chalk.red('✖')} ${label}  ${advice}`);
+        }
+      }
+      console.log();
+      const score = `Score: ${report.score}/100`;
+      console.log(belowMinimum ? chalk.red(`${score}, below the minimum of ${minScore}`) : chalk.bold(score));
+    }
+    if (belowMinimum) process.exit(1);
+  });
+
+const AUDIT_FORMATS = ['text', 'json', 'sarif'];
+
+program
+  .command('audit')
+  .description('check a project against the organisation policy (stackstart-policy.json)')
+  .argument('[directory]', 'project to check', '.')
+  .option('--policy <file>', 'policy file (default: the nearest stackstart-policy.json, else "policy" from the config)')
+  .option('-t, --template <template>', `the kind of project when it has no .stackstart.json: ${ENHANCEMENT_FLAVORS.join(', ')} (default: detected)`)
+  .option('--format <format>', AUDIT_FORMATS.join(', '), 'text')
+  .action(async (directory: string, options: Record<string, unknown>) => {
+    const fail = (message: string) => {
+      console.error(chalk.red(message));
+      process.exit(1);
+    };
+    const format = options.format as string;
+    if (!AUDIT_FORMATS.includes(format)) {
+      return fail(`Unknown format '${format}'.${didYouMean(format, AUDIT_FORMATS)} Choose one of: ${AUDIT_FORMATS.join(', ')}`);
+    }
+
+    let report: PolicyReport;
+    try {
+      const { config } = loadConfig();
+      const policyFile = (options.policy as string | undefined) || findPolicy(directory, config.policy);
+      if (!policyFile) {
+        return fail(`No ${POLICY_FILE} found in ${path.resolve(directory)} or above it. Pass --policy or set "policy" in stackstart.config.json.`);
+      }
+      report = await checkPolicy(readPolicy(policyFile), { cwd: directory, template: options.template as string | undefined });
+    } catch (err: unknown) {
+      return fail((err as Error).message);
+    }
+
+    if (format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+    } else if (format === 'sarif') {
+      console.log(JSON.stringify(policySarif(report), null, 2));
+    } else {
+      const sections = report.sections.length > 0 ? report.sections.join(', ') : 'no matching sections';
+      console.log(chalk.bold(`${path.basename(report.projectRoot)} (${report.template})`) + chalk.gray(` against ${report.policy} [${sections}]`));
+      console.log();
+      if (report.violations.length === 0) {
+        ora().succeed('Meets every rule in the policy');
+      }
+      for (const violation of report.violations) {
+        const marker = violation.level === 'error' ? chalk.red('✖') : chalk.yellow('!');
+        const fix = violation.fix ? chalk.gray(`  stackstart add ${violation.fix}`) : '';
+        console.log(`  ${marker} ${violation.rule.padEnd(11)}  ${violation.message}${fix}`);
+      }
+      const warnings = report.violations.length - report.errors;
+      if (report.violations.length > 0) {
+        console.log();
+        console.log(`${report.errors} error${report.errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`);
+      }
+    }
+    if (report.errors > 0) process.exit(1);
+  });
+
+const LIST_KINDS = ['templates', 'targets', 'enhancements', 'presets'];
+
+program
+  .command('list')
+  .description('show available templates, deploy targets, AI enhancements and configured presets')
+  .argument('[kind]', LIST_KINDS.join(', '))
+  .option('--json', 'print machine-readable JSON', false)
+  .action((kind: string | undefined, options: Record<string, unknown>) => {
+    if (kind && !LIST_KINDS.includes(kind)) {
+      console.error(chalk.red(`Unknown list '${kind}'.${didYouMean(kind, LIST_KINDS)} Choose one of: ${LIST_KINDS.join(', ')}`));
+      process.exit(1);
+    }
+    const kinds = kind ? [kind] : LIST_KINDS;
+    let config: StackstartConfig;
+    try {
+      config = loadConfig().config;
+    } catch (err: unknown) {
+      console.error(chalk.red((err as Error).message));
+      process.exit(1);
+    }
+    const templates = catalogTemplates({ extraPaths: config.templatePaths });
+    const presets = config.presets || {};
+    const data: Record<string, unknown> = {
+      templates,
+      targets: catalogTargets(templates),
+      enhancements: catalogEnhancements(),
+      presets
+    };
+
+    if (options.json) {
+      console.log(JSON.stringify(kind ? data[kind] : data, null, 2));
+      return;
+    }
+
+    for (const current of kinds) {
+      if (kinds.length > 1) console.log(chalk.bold(current.charAt(0).toUpperCase() + current.slice(1)));
+      if (current === 'templates') {
+        console.log(formatTable(
+          ['NAME', 'SOURCE', 'LANGUAGE', 'DEPLOY TARGETS', 'DESCRIPTION'],
+          templates.map(template => [
+            template.shadowed ? `${template.name} (shadowed)` : template.name,
+            template.origin ? `${template.source}: ${template.origin.spec}` : template.source,
+            template.language || '-',
+            template.deployTargets.join(', ') || '-',
+            template.error ? chalk.red(template.error) : template.description
+          ])
+        ));
+      } else if (current === 'targets') {
+        console.log(formatTable(
+          ['NAME', 'WRITES', 'TEMPLATES', 'DESCRIPTION'],
+          catalogTargets(templates).map(target => [
+            target.name,
+            target.configFile,
+            target.templates.join(', ') || '-',
+            target.description
+          ])
+        ));
+      } else if (current === 'presets') {
+        console.log(formatTable(
+          ['NAME', 'TEMPLATE', 'DEPLOY TARGET', 'OTHER OPTIONS'],
+          Object.entries(presets).map(([name, { template, deployTarget, ...rest }]) => [
+            name,
+            template || '-',
+            deployTarget || '-',
+            Object.entries(rest).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : typeof value === 'object' ? JSON.stringify(value) : value}`).join(' ') || '-'
+          ])
+        ));
+      } else {
+        console.log(formatTable(
+          ['NAME', 'PRIORITY', 'TEMPLATES', 'DESCRIPTION'],
+          catalogEnhancements().map(enhancement => [
+            enhancement.id,
+            enhancement.priority,
+            enhancement.templates === 'all' ? 'all' : enhancement.templates.join(', '),
+            enhancement.description
+          ])
+        ));
+      }
+      if (kinds.length > 1) console.log();
+    }
+  });
+
+const templateCommand = program
+  .command('template')
+  .description('tools for template authors');
+
+templateCommand
+  .command('validate')
+  .argument('[path]', 'template directory', '.')
+  .option('--strict', 'fail on warnings as well as errors', false)
+  .action(async (templateDir: string, options: Record<string, unknown>) => {
+    const spinner = ora(`Validating template ${chalk.cyan(templateDir)}...`).start();
+    const report = await validateTemplate(templateDir);
+    const errors = report.issues.filter(issue => issue.severity === 'error');
+    const warnings = report.issues.filter(issue => issue.severity === 'warning');
+    const failed = errors.length > 0 || (Boolean(options.strict) && warnings.length > 0);
+
+    if (failed) {
+      spinner.fail(`Template ${chalk.cyan(templateDir)} has problems`);
+    } else {
+      spinner.succeed(`Template ${chalk.green(templateDir)} is valid (trial render produced ${report.renderedFiles} files)`);
+    }
+
+    for (const issue of report.issues) {
+      const location = issue.file ? `${issue.file}: ` : '';
+      const line = `  ${issue.severity === 'error' ? '✖' : '⚠'} ${location}${issue.message}`;
+      console.log(issue.severity === 'error' ? chalk.red(line) : chalk.yellow(line));
+    }
+    if (report.issues.length > 0) {
+      console.log();
+      console.log(`${errors.length} error(s), ${warnings.length} warning(s)`);
+    }
+
+    if (failed) {
+      process.exit(1);
+    }
+  });
+
+templateCommand
+  .command('extract')
+  .argument('<project-dir>', 'existing project to turn into a template')
+  .argument('<template-dir>', 'where to write the template')
+  .option('-n, --name <name>', 'template name (defaults to the project directory name)')
+  .option('--project-name <name>', 'name to replace with {{projectName}} (defaults to package.json or pyproject.toml)')
+  .action((projectDir: string, templateDir: string, options: Record<string, unknown>) => {
+    const spinner = ora(`Extracting template from ${chalk.cyan(projectDir)}...`).start();
+    try {
+      const result = extractTemplate(projectDir, templateDir, {
+        name: options.name as string | undefined,
+        projectName: options.projectName as string | undefined
+      });
+      spinner.succeed(`Template ${chalk.green(result.manifest.name)} written to ${templateDir}`);
+      console.log(`  ${result.files.length} files, ${result.replacements} occurrences of '${result.projectName}' replaced`);
+      console.log(`  Skipped: ${result.skipped.length > 0 ? result.skipped.join(', ') : 'nothing'}`);
+      console.log(`  Detected ${result.manifest.packageManager}: install '${result.manifest.installCommand}', test '${result.manifest.testCommand}'`);
+      console.log();
+      console.log(chalk.bold('Next steps:'));
+      console.log(`  Review ${path.join(templateDir, 'template.json')}`);
+      console.log(`  stackstart template validate ${templateDir}`);
     } catch (err: unknown) {
-      spinner.fail('Failed to create project');
+      spinner.fail('Failed to extract template');
       console.error(chalk.red((err as Error).message));
       process.exit(1);
     }
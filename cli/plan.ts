@@ -0,0 +1,98 @@
+import path from 'path';
+import chalk from 'chalk';
+import { PlannedCommand, ScaffoldResult } from '../generators/scaffold';
+import { describeConflict } from '../generators/conflicts';
+import { formatUnifiedDiff } from '../generators/diff';
+import { EnhancementPlan } from '../generators/add-enhancement';
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function formatCommand(command: PlannedCommand): string {
+  return [command.command, ...command.args.map(arg => (/\s/.test(arg) ? JSON.stringify(arg) : arg))].join(' ');
+}
+
+// The file tree a dry run would create, one indented line per directory and
+// file, followed by the files touched again after creation and the commands
+// that would run.
+export function formatPlan(result: ScaffoldResult, showContents = false): string {
+  const read = (file: string) => result.fs.readFile(path.join(result.projectRoot, file));
+  const files = [...result.files].sort();
+  const lines: string[] = [chalk.bold(`${path.basename(result.projectRoot)}/`)];
+  const printed = new Set<string>();
+
+  for (const file of files) {
+    const segments = file.split('/');
+    segments.slice(0, -1).forEach((segment, depth) => {
+      const dir = segments.slice(0, depth + 1).join('/');
+      if (printed.has(dir)) return;
+      printed.add(dir);
+      lines.push(`${'  '.repeat(depth + 1)}${segment}/`);
+    });
+    const updates = result.updates[file];
+    lines.push(
+      `${'  '.repeat(segments.length)}${segments[segments.length - 1]} ${chalk.gray(`(${formatSize(read(file).length)})`)}` +
+      (updates ? chalk.yellow(` updated ${updates}x after creation`) : '')
+    );
+  }
+
+  if (result.conflicts.length > 0) {
+    lines.push('', chalk.bold('Already in the directory:'));
+    for (const conflict of result.conflicts) {
+      lines.push(`  ${conflict.resolution === 'pending' ? `${conflict.path} already exists - would ask` : describeConflict(conflict)}`);
+    }
+  }
+
+  lines.push('', chalk.bold('Would run:'));
+  if (result.commands.length === 0) lines.push('  nothing');
+  for (const command of result.commands) {
+    lines.push(`  ${chalk.gray(`[${command.cwd}]`)} ${formatCommand(command)}`);
+  }
+  if (result.deferred.length > 0) {
+    lines.push('', chalk.bold('Left for you to run:'));
+    for (const command of result.deferred) {
+      lines.push(`  ${chalk.gray(`[${command.cwd}]`)} ${formatCommand(command)}`);
+    }
+  }
+
+  if (showContents) {
+    for (const file of files) {
+      lines.push('', chalk.cyan(`==> ${file} <==`));
+      const data = read(file);
+      lines.push(data.includes(0) ? chalk.gray('(binary file)') : data.toString('utf8').trimEnd());
+    }
+  }
+  return lines.join('\n');
+}
+
+// What `stackstart add` is about to do: the files, the package.json entries
+// and, with showDiff, the diff of every file that already exists.
+export function formatEnhancementPlan(plan: EnhancementPlan, showDiff = false): string {
+  const lines: string[] = [chalk.bold(`${plan.enhancement.id}: ${plan.enhancement.description}`)];
+  if (plan.files.length === 0) lines.push('  nothing to change');
+  for (const file of plan.files) {
+    const label = file.action === 'create' ? chalk.green('create') : chalk.yellow('update');
+    lines.push(`  ${label} ${file.path} ${chalk.gray(`(${formatSize(Buffer.byteLength(file.after))})`)}`);
+  }
+
+  if (plan.packageChanges.length > 0) {
+    lines.push('', chalk.bold('package.json:'));
+    for (const change of plan.packageChanges) {
+      lines.push(`  ${chalk.green('+')} ${change.section}.${change.name} ${change.from ? `${change.from} -> ` : ''}${change.to}`);
+    }
+  }
+  if (plan.deferred.length > 0) {
+    lines.push('', chalk.bold('Left for you to run:'));
+    for (const command of plan.deferred) {
+      lines.push(`  ${chalk.gray(`[${command.cwd}]`)} ${formatCommand(command)}`);
+    }
+  }
+
+  if (showDiff) {
+    for (const file of plan.files.filter(planned => planned.before !== undefined)) {
+      lines.push('', formatUnifiedDiff(file.path, file.before as string, file.after, 3, ['existing', plan.enhancement.id]));
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,50 @@
+import ora, { Ora } from 'ora';
+import chalk from 'chalk';
+import { EventListener, ScaffoldEvent } from '../generators/events';
+
+// A spinner per step, the way stackstart has always looked in a terminal.
+// Warnings are collected for a summary at the end instead of being printed
+// between spinners; file and command events are too chatty to show.
+export function createSpinnerListener(warnings: string[] = []): EventListener {
+  const spinners = new Map<string, Ora>();
+  return event => {
+    switch (event.type) {
+      case 'step-started':
+        spinners.set(event.step, ora(event.message).start());
+        break;
+      case 'step-succeeded':
+      case 'step-failed': {
+        // Steps that finish without starting (e.g. the demo) get a spinner just to print the result.
+        const spinner = spinners.get(event.step) || ora(event.message);
+        spinners.delete(event.step);
+        if (event.type === 'step-succeeded') {
+          spinner.succeed(event.message);
+        } else {
+          spinner.fail(event.message);
+        }
+        break;
+      }
+      case 'warning':
+        warnings.push(event.message);
+        break;
+    }
+  };
+}
+
+export function printWarnings(warnings: string[]): void {
+  if (warnings.length === 0) return;
+  console.log();
+  console.log(chalk.yellow.bold(`${warnings.length} warning${warnings.length === 1 ? '' : 's'}:`));
+  for (const warning of warnings) {
+    console.log(chalk.yellow(`  - ${warning}`));
+  }
+}
+
+// One JSON object per line, for tools that drive stackstart.
+export function printJsonLine(value: object): void {
+  process.stdout.write(`${JSON.stringify(value)}\n`);
+}
+
+export function createJsonListener(write: (value: object) => void = printJsonLine): EventListener {
+  return (event: ScaffoldEvent) => write(event);
+}
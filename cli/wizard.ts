@@ -0,0 +1,179 @@
+import readline from 'readline';
+import chalk from 'chalk';
+import { catalogTemplates } from '../generators/catalog';
+import { DEPLOY_TARGETS } from '../generators/deploy-targets';
+import { LICENSES } from '../generators/licenses';
+import { CreateDefaults } from '../generators/config';
+import { ScaffoldOptions } from '../generators/scaffold';
+import { CREATE_DEFAULTS } from '../generators/create-project';
+import { JS_PACKAGE_MANAGERS } from '../generators/package-managers';
+import { fetchTemplate } from '../generators/template-sources';
+import { ConflictChoice, ConflictResolver, keepBothName } from '../generators/conflicts';
+import { formatUnifiedDiff } from '../generators/diff';
+
+export interface Choice {
+  value: string;
+  label: string;
+}
+
+// Everything the wizard needs from a terminal, so tests can script answers.
+export interface Prompter {
+  select(message: string, choices: Choice[], defaultValue: string): Promise<string>;
+  confirm(message: string, defaultValue: boolean): Promise<boolean>;
+  input(message: string, defaultValue: string): Promise<string>;
+  close?(): void;
+}
+
+export interface WizardOptions {
+  // Options passed explicitly on the command line; their questions are skipped.
+  given: Partial<ScaffoldOptions>;
+  // From config files; used instead of CREATE_DEFAULTS and preselected when asking.
+  defaults?: CreateDefaults;
+  interactive: boolean;
+  prompter?: Prompter;
+}
+
+export function isInteractive(yes: boolean, stdin: { isTTY?: boolean } = process.stdin, stdout: { isTTY?: boolean } = process.stdout): boolean {
+  return !yes && Boolean(stdin.isTTY) && Boolean(stdout.isTTY);
+}
+
+export function createReadlinePrompter(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Prompter {
+  const rl = readline.createInterface({ input, output });
+  const ask = (question: string) => new Promise<string>(resolve => rl.question(question, answer => resolve(answer.trim())));
+
+  return {
+    async select(message, choices, defaultValue) {
+      output.write(`${chalk.cyan('?')} ${message}\n`);
+      choices.forEach((choice, index) => {
+        output.write(`  ${index + 1}) ${choice.label}${choice.value === defaultValue ? chalk.gray(' (default)') : ''}\n`);
+      });
+      for (;;) {
+        const answer = await ask(`  Choose 1-${choices.length}: `);
+        if (!answer) return defaultValue;
+        const byNumber = choices[Number(answer) - 1];
+        const byValue = choices.find(choice => choice.value === answer);
+        if (byNumber || byValue) return (byNumber || byValue as Choice).value;
+        output.write(chalk.yellow(`  '${answer}' is not one of the choices.\n`));
+      }
+    },
+    async confirm(message, defaultValue) {
+      const answer = (await ask(`${chalk.cyan('?')} ${message} ${chalk.gray(defaultValue ? '(Y/n)' : '(y/N)')} `)).toLowerCase();
+      if (!answer) return defaultValue;
+      return answer === 'y' || answer === 'yes';
+    },
+    async input(message, defaultValue) {
+      const answer = await ask(`${chalk.cyan('?')} ${message}${defaultValue ? chalk.gray(` (${defaultValue})`) : ''}: `);
+      return answer || defaultValue;
+    },
+    close: () => rl.close()
+  };
+}
+
+// The license choice that writes no LICENSE file.
+const NO_LICENSE = 'none';
+
+// Fills in the create options the user did not pass. Without a terminal (or
+// with --yes) nothing is asked and the defaults apply, so scripts and CI keep
+// working unchanged.
+export async function runCreateWizard(options: WizardOptions): Promise<ScaffoldOptions> {
+  const { given } = options;
+  const defaults = { ...CREATE_DEFAULTS, ...options.defaults };
+  const result: ScaffoldOptions = { ...defaults, ...given };
+  if (defaults.answers || given.answers) result.answers = { ...defaults.answers, ...given.answers };
+  if (!options.interactive) return result;
+  const searchOptions = { extraPaths: result.templatePaths };
+
+  const prompter = options.prompter || createReadlinePrompter();
+  try {
+    if (given.template === undefined) {
+      const templates = catalogTemplates(searchOptions).filter(template => !template.shadowed && !template.error);
+      result.template = await prompter.select(
+        'Which template?',
+        templates.map(template => ({ value: template.name, label: `${template.displayName} - ${template.description}` })),
+        defaults.template
+      );
+    }
+    const { manifest } = await fetchTemplate(result.template, searchOptions);
+
+    // Only offer what the chosen template supports.
+    const targets = DEPLOY_TARGETS.filter(target => manifest.deployTargets.includes(target.name));
+    if (given.deployTarget === undefined && targets.length > 0) {
+      result.deployTarget = await prompter.select(
+        'Where will it be deployed?',
+        targets.map(target => ({ value: target.name, label: `${target.name} - ${target.description}` })),
+        targets.some(target => target.name === defaults.deployTarget) ? defaults.deployTarget : targets[0].name
+      );
+    }
+    if (given.withDemo === undefined && manifest.demo) {
+      result.withDemo = await prompter.confirm('Include the demo app?', defaults.withDemo);
+    }
+    if (given.aiEnhanced === undefined) {
+      result.aiEnhanced = await prompter.confirm('Apply AI enhancements?', defaults.aiEnhanced);
+    }
+    if (given.license === undefined) {
+      // Like --yes, no LICENSE file unless one is picked or configured.
+      const license = await prompter.select(
+        'Which license?',
+        [...LICENSES.map(license => ({ value: license.id, label: license.name })), { value: NO_LICENSE, label: 'No license' }],
+        defaults.license || NO_LICENSE
+      );
+      if (license === NO_LICENSE) {
+        delete result.license;
+      } else {
+        result.license = license;
+      }
+    }
+    if (given.packageManager === undefined && manifest.language === 'javascript') {
+      result.packageManager = await prompter.select(
+        'Which package manager?',
+        JS_PACKAGE_MANAGERS.map(name => ({ value: name, label: name })),
+        defaults.packageManager || (JS_PACKAGE_MANAGERS.includes(manifest.packageManager) ? manifest.packageManager : 'npm')
+      );
+    }
+
+    const answers: Record<string, unknown> = { ...(given.answers || {}) };
+    for (const [name, variable] of Object.entries(manifest.variables)) {
+      if (answers[name] !== undefined) continue;
+      const configured = defaults.answers ? defaults.answers[name] : undefined;
+      const fallback = configured !== undefined ? configured : variable.default;
+      const message = variable.description || name;
+      if (typeof variable.default === 'boolean') {
+        answers[name] = await prompter.confirm(message, Boolean(fallback));
+      } else {
+        const answer = await prompter.input(message, fallback === undefined ? '' : String(fallback));
+        answers[name] = typeof variable.default === 'number' && answer !== '' ? Number(answer) : answer;
+      }
+    }
+    if (Object.keys(answers).length > 0) result.answers = answers;
+
+    if (given.createGithubRepo === undefined && process.env.GITHUB_TOKEN) {
+      result.createGithubRepo = await prompter.confirm('Create a GitHub repository?', true);
+    }
+  } finally {
+    if (prompter.close) prompter.close();
+  }
+  return result;
+}
+
+// Asks what to do with each file that already exists, showing a diff on request.
+export function createConflictResolver(prompter: Prompter, output: NodeJS.WritableStream = process.stdout): ConflictResolver {
+  return async conflict => {
+    for (;;) {
+      const choice = await prompter.select(`${conflict.path} already exists. What should happen?`, [
+        { value: 'skip', label: 'Keep mine' },
+        { value: 'overwrite', label: 'Use the template version' },
+        { value: 'keep-both', label: `Keep both (the template version goes to ${keepBothName(conflict.path)})` },
+        { value: 'diff', label: 'Show the differences' }
+      ], 'skip');
+      if (choice !== 'diff') return choice as ConflictChoice;
+
+      const binary = conflict.existing.includes(0) || conflict.incoming.includes(0);
+      output.write(binary
+        ? chalk.gray('Binary files differ\n')
+        : `${formatUnifiedDiff(conflict.path, conflict.existing.toString('utf8'), conflict.incoming.toString('utf8'))}\n`);
+    }
+  };
+}
@@ -0,0 +1,207 @@
+import path from 'path';
+import { AIProjectAnalyzer, EnhancementDefinition, ENHANCEMENTS, STRUCTURE_LABELS } from './ai-enhancer';
+import { diskFileSystem, FileSystem, MemoryFileSystem, readText, recordWrites } from './filesystem';
+import { findPackageManager, PACKAGE_MANAGERS, projectPackageManager } from './package-managers';
+import { hashFiles, ProjectManifest, readProjectManifest, updateProjectManifest } from './project-manifest';
+import { PlannedCommand } from './scaffold';
+import { didYouMean } from './suggest';
+
+// The kinds of project enhancements are written for, as named in ENHANCEMENTS.
+export const ENHANCEMENT_FLAVORS = Array.from(new Set(ENHANCEMENTS.flatMap(enhancement => enhancement.templates || [])));
+
+// Files enhancements edit rather than replace; changing them is expected.
+const EDITED_FILES = ['package.json', 'requirements.txt', '.gitignore'];
+
+const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies', 'scripts'];
+
+export interface AddEnhancementOptions {
+  // The project root; defaults to process.cwd().
+  cwd?: string;
+  // The project's flavor when it has no .stackstart.json to say so: node,
+  // react, python or full-stack. Detected from its files when unset.
+  template?: string;
+  // Add the enhancement even if the project seems to have it, replacing
+  // files it would create.
+  force?: boolean;
+}
+
+export interface PlannedFile {
+  // Project-relative, with forward slashes.
+  path: string;
+  action: 'create' | 'update';
+  before?: string;
+  after: string;
+}
+
+// One package.json entry the enhancement adds or changes.
+export interface PackageChange {
+  section: string;
+  name: string;
+  from?: string;
+  to: string;
+}
+
+export interface EnhancementPlan {
+  projectRoot: string;
+  enhancement: EnhancementDefinition;
+  template: string;
+  files: PlannedFile[];
+  packageChanges: PackageChange[];
+  // Installing what the enhancement added to the dependency manifests.
+  deferred: PlannedCommand[];
+  // Set when the project has a .stackstart.json, which applying updates.
+  manifest?: ProjectManifest;
+}
+
+export function findEnhancement(id: string): EnhancementDefinition {
+  const enhancement = ENHANCEMENTS.find(known => known.id === id);
+  if (!enhancement) {
+    const ids = ENHANCEMENTS.map(known => known.id);
+    throw new Error(`Unknown enhancement '${id}'.${didYouMean(id, ids)} Choose one of: ${ids.join(', ')}`);
+  }
+  return enhancement;
+}
+
+// Which of ENHANCEMENT_FLAVORS a project looks like, from its files.
+export function detectFlavor(projectRoot: string, fs: FileSystem = diskFileSystem): string {
+  const has = (file: string) => fs.exists(path.join(projectRoot, file));
+  if (has('package.json')) {
+    if (has('server/package.json') && has('client/package.json')) return 'full-stack';
+    const packageJson = JSON.parse(readText(fs, path.join(projectRoot, 'package.json')));
+    const dependencies = { ...(packageJson.dependencies || {}), ...(packageJson.devDependencies || {}) };
+    return dependencies.react ? 'react' : 'node';
+  }
+  if (has('requirements.txt') || has('pyproject.toml')) return 'python';
+  throw new Error(
+    `Could not tell what kind of project ${projectRoot} is: no package.json, requirements.txt or pyproject.toml found. ` +
+    `Pass --template ${ENHANCEMENT_FLAVORS.join('|')}.`
+  );
+}
+
+// The flavor chosen on the command line, recorded in .stackstart.json or
+// detected from the project's files, in that order.
+export function projectFlavor(projectRoot: string, manifest: ProjectManifest | undefined, chosen: string | undefined): string {
+  if (chosen) {
+    if (!ENHANCEMENT_FLAVORS.includes(chosen)) {
+      throw new Error(`Unknown template '${chosen}'.${didYouMean(chosen, ENHANCEMENT_FLAVORS)} Choose one of: ${ENHANCEMENT_FLAVORS.join(', ')}`);
+    }
+    return chosen;
+  }
+  // Projects from custom templates are matched by their files like any other.
+  if (manifest && ENHANCEMENT_FLAVORS.includes(manifest.template.name)) return manifest.template.name;
+  return detectFlavor(projectRoot);
+}
+
+function packageChanges(before: string | undefined, after: string): PackageChange[] {
+  const old = before ? JSON.parse(before) : {};
+  const updated = JSON.parse(after);
+  const changes: PackageChange[] = [];
+  for (const section of DEPENDENCY_SECTIONS) {
+    for (const [name, version] of Object.entries<string>(updated[section] || {})) {
+      const from = (old[section] || {})[name];
+      if (from !== version) changes.push({ section, name, ...(from !== undefined ? { from } : {}), to: version });
+    }
+  }
+  return changes;
+}
+
+function installCommand(projectRoot: string, manifest: ProjectManifest | undefined, files: PlannedFile[]): PlannedCommand[] {
+  const changed = (file: string) => files.some(planned => planned.path === file);
+  if (changed('package.json')) {
+    const chosen = manifest && manifest.options.packageManager ? findPackageManager(manifest.options.packageManager) : undefined;
+    const packageManager = chosen || projectPackageManager(projectRoot) || PACKAGE_MANAGERS[0];
+    const [command, ...args] = packageManager.install.split(' ');
+    return [{ cwd: '.', command, args }];
+  }
+  if (changed('requirements.txt')) {
+    return [{ cwd: '.', command: 'pip', args: ['install', '-r', 'requirements.txt'] }];
+  }
+  return [];
+}
+
+// Works out what adding an enhancement would change, without writing
+// anything: the enhancement runs against memory over the project on disk.
+// Fails when the project is not one the enhancement is for, already has it,
+// or would lose a file of its own.
+export async function planEnhancement(id: string, options: AddEnhancementOptions = {}): Promise<EnhancementPlan> {
+  const enhancement = findEnhancement(id);
+  const projectRoot = path.resolve(options.cwd || process.cwd());
+  if (!diskFileSystem.isDirectory(projectRoot)) {
+    throw new Error(`Project directory ${projectRoot} does not exist.`);
+  }
+  const manifest = readProjectManifest(projectRoot);
+  const template = projectFlavor(projectRoot, manifest, options.template);
+
+  if (enhancement.templates && !enhancement.templates.includes(template)) {
+    throw new Error(`Enhancement '${id}' is not for ${template} projects. It applies to: ${enhancement.templates.join(', ')}`);
+  }
+  const python = template === 'python';
+  const dependencyManifest = python ? ['requirements.txt', 'pyproject.toml'] : ['package.json'];
+  if (!dependencyManifest.some(file => diskFileSystem.exists(path.join(projectRoot, file)))) {
+    throw new Error(`${projectRoot} has no ${dependencyManifest.join(' or ')}; '${id}' needs one to add its dependencies to.`);
+  }
+  if (!options.force) {
+    if (manifest && manifest.enhancements.includes(id)) {
+      throw new Error(`'${id}' was already added to this project. Use --force to add it again.`);
+    }
+    const analyzer = new AIProjectAnalyzer(projectRoot, template);
+    const { structure } = await analyzer.analyze();
+    if (enhancement.skipWhen && structure[enhancement.skipWhen]) {
+      throw new Error(`The project already has ${STRUCTURE_LABELS[enhancement.skipWhen]}. Use --force to add '${id}' anyway.`);
+    }
+  }
+
+  const memory = new MemoryFileSystem();
+  const written: string[] = [];
+  const fs = recordWrites(memory, target => {
+    const relative = path.relative(projectRoot, target).split(path.sep).join('/');
+    if (!written.includes(relative)) written.push(relative);
+  });
+  await new AIProjectAnalyzer(projectRoot, template, fs).runEnhancement(id);
+
+  const files: PlannedFile[] = [];
+  for (const file of written) {
+    const onDisk = path.join(projectRoot, file);
+    const before = diskFileSystem.exists(onDisk) ? readText(diskFileSystem, onDisk) : undefined;
+    const after = readText(memory, onDisk);
+    if (before === after) continue;
+    if (before !== undefined && !EDITED_FILES.includes(file) && !options.force) {
+      throw new Error(`'${id}' would replace ${file}, which already exists. Use --force to replace it.`);
+    }
+    files.push({ path: file, action: before === undefined ? 'create' : 'update', ...(before !== undefined ? { before } : {}), after });
+  }
+  const packageJson = files.find(file => file.path === 'package.json');
+
+  return {
+    projectRoot,
+    enhancement,
+    template,
+    files,
+    packageChanges: packageJson ? packageChanges(packageJson.before, packageJson.after) : [],
+    deferred: installCommand(projectRoot, manifest, files),
+    manifest
+  };
+}
+
+// Writes a plan to disk and records the enhancement in .stackstart.json.
+export function applyEnhancementPlan(plan: EnhancementPlan, fs: FileSystem = diskFileSystem): void {
+  for (const file of plan.files) {
+    const target = path.join(plan.projectRoot, file.path);
+    fs.mkdir(path.dirname(target));
+    fs.writeFile(target, file.after);
+  }
+  if (plan.manifest) {
+    const { id } = plan.enhancement;
+    updateProjectManifest(plan.projectRoot, manifest => ({
+      ...manifest,
+      enhancements: manifest.enhancements.includes(id) ? manifest.enhancements : [...manifest.enhancements, id],
+      files: { ...manifest.files, ...hashFiles(plan.projectRoot, plan.files.map(file => file.path), fs) }
+    }), fs);
+  }
+}
+
+export async function addEnhancement(id: string, options: AddEnhancementOptions = {}): Promise<EnhancementPlan> {
+  const plan = await planEnhancement(id, options);
+  applyEnhancementPlan(plan);
+  return plan;
+}
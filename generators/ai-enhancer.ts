@@ -1,14 +1,6 @@
 import path from 'path';
-import {
-  existsSync,
-  readFileSync,
-  writeFileSync,
-  readdirSync,
-  lstatSync,
-  mkdirSync
-} from 'fs';
-import ora from 'ora';
-import chalk from 'chalk';
+import { diskFileSystem, FileSystem, readText } from './filesystem';
+import { EventListener, ignoreEvents } from './events';
 
 interface ProjectAnalysis {
   template: string;
@@ -16,12 +8,18 @@ interface ProjectAnalysis {
   packageJson?: any;
   dependencies: string[];
   devDependencies: string[];
+  // Every declared dependency and where: a package.json section or requirements.txt.
+  dependencySources: Record<string, string>;
+  // The project-relative manifest declaring each dependency, the root's first,
+  // then those of subprojects such as full-stack's server/ and client/.
+  dependencyFiles: Record<string, string>;
   files: string[];
   structure: ProjectStructure;
+  evidence: StructureEvidence;
   improvements: Enhancement[];
 }
 
-interface ProjectStructure {
+export interface ProjectStructure {
   hasTests: boolean;
   hasLinting: boolean;
   hasFormatting: boolean;
@@ -32,28 +30,83 @@ interface ProjectStructure {
   hasLogging: boolean;
   hasValidation: boolean;
   hasApiDocumentation: boolean;
+  hasCodeQL: boolean;
 }
 
+// The file or dependency that satisfied each passing structure check, e.g.
+// 'src/app.test.js' or 'jest in devDependencies'.
+export type StructureEvidence = Partial<Record<keyof ProjectStructure, string>>;
+
 interface Enhancement {
+  id: string;
   type: 'file' | 'dependency' | 'config' | 'code';
   description: string;
   priority: 'high' | 'medium' | 'low';
   implementation: () => Promise<void>;
 }
 
+export interface EnhancementDefinition {
+  id: string;
+  type: Enhancement['type'];
+  description: string;
+  priority: Enhancement['priority'];
+  // Templates the enhancement applies to; every template when omitted.
+  templates?: string[];
+  // Left out when the analyzed project already has this.
+  skipWhen?: keyof ProjectStructure;
+}
+
+// How each structure check reads in a sentence: "the project has logging".
+export const STRUCTURE_LABELS: Record<keyof ProjectStructure, string> = {
+  hasTests: 'tests',
+  hasLinting: 'linting',
+  hasFormatting: 'formatting',
+  hasTypeScript: 'TypeScript',
+  hasDocumentation: 'documentation',
+  hasErrorHandling: 'error handling',
+  hasEnvironmentConfig: 'environment config',
+  hasLogging: 'logging',
+  hasValidation: 'validation',
+  hasApiDocumentation: 'API documentation',
+  hasCodeQL: 'CodeQL'
+};
+
+// Every enhancement the analyzer knows about, in the order they are proposed.
+export const ENHANCEMENTS: EnhancementDefinition[] = [
+  { id: 'logging', type: 'dependency', description: 'Add structured logging with Winston', priority: 'high', templates: ['node', 'react', 'full-stack'], skipWhen: 'hasLogging' },
+  { id: 'error-handling', type: 'code', description: 'Add comprehensive error handling', priority: 'high', templates: ['node', 'react', 'full-stack'], skipWhen: 'hasErrorHandling' },
+  { id: 'env-config', type: 'config', description: 'Add environment configuration with dotenv', priority: 'medium', templates: ['node', 'react', 'full-stack'], skipWhen: 'hasEnvironmentConfig' },
+  { id: 'validation', type: 'dependency', description: 'Add input validation with Joi', priority: 'medium', templates: ['node', 'full-stack'], skipWhen: 'hasValidation' },
+  { id: 'api-docs', type: 'file', description: 'Add API documentation with Swagger/OpenAPI', priority: 'medium', templates: ['node', 'full-stack'], skipWhen: 'hasApiDocumentation' },
+  { id: 'test-coverage', type: 'config', description: 'Enhance testing configuration with coverage reporting', priority: 'medium', templates: ['node', 'react', 'full-stack'] },
+  { id: 'react-performance', type: 'file', description: 'Add React performance optimization utilities', priority: 'medium', templates: ['react', 'full-stack'] },
+  { id: 'react-router', type: 'dependency', description: 'Add React Router for navigation', priority: 'medium', templates: ['react', 'full-stack'] },
+  { id: 'react-hooks', type: 'file', description: 'Add custom React hooks for common patterns', priority: 'low', templates: ['react', 'full-stack'] },
+  { id: 'database', type: 'file', description: 'Add database connection utilities', priority: 'medium', templates: ['node', 'full-stack'] },
+  { id: 'security', type: 'dependency', description: 'Add security middleware (helmet, cors)', priority: 'high', templates: ['node', 'full-stack'] },
+  { id: 'rate-limiting', type: 'file', description: 'Add rate limiting and caching', priority: 'medium', templates: ['node', 'full-stack'] },
+  { id: 'python-logging', type: 'file', description: 'Add Python logging configuration', priority: 'high', templates: ['python'], skipWhen: 'hasLogging' },
+  { id: 'python-web-utils', type: 'file', description: 'Add Flask/FastAPI utilities', priority: 'medium', templates: ['python'] },
+  { id: 'python-type-hints', type: 'config', description: 'Add Python type hints and mypy configuration', priority: 'medium', templates: ['python'] },
+  { id: 'api-client', type: 'file', description: 'Add API client utilities for frontend-backend communication', priority: 'high', templates: ['full-stack'] }
+];
+
 export class AIProjectAnalyzer {
   private projectRoot: string;
   private template: string;
+  private fs: FileSystem;
 
-  constructor(projectRoot: string, template: string) {
+  constructor(projectRoot: string, template: string, fs: FileSystem = diskFileSystem) {
     this.projectRoot = projectRoot;
     this.template = template;
+    this.fs = fs;
   }
 
   async analyze(): Promise<ProjectAnalysis> {
     const files = this.getProjectFiles();
     const packageJson = this.getPackageJson();
-    const structure = this.analyzeStructure(files, packageJson);
+    const dependencySources = this.getDeclaredDependencies();
+    const { structure, evidence } = this.analyzeStructure(files, dependencySources);
     const improvements = await this.identifyImprovements(structure, packageJson);
 
     return {
@@ -62,22 +115,33 @@ export class AIProjectAnalyzer {
       packageJson,
       dependencies: packageJson?.dependencies ? Object.keys(packageJson.dependencies) : [],
       devDependencies: packageJson?.devDependencies ? Object.keys(packageJson.devDependencies) : [],
+      dependencySources,
+      dependencyFiles: this.getDependencyFiles(files),
       files,
       structure,
+      evidence,
       improvements
     };
   }
 
+  // Applies one enhancement whether or not analyze() would propose it.
+  async runEnhancement(id: string): Promise<void> {
+    const implementation = this.implementation(id);
+    if (!implementation) {
+      throw new Error(`Unknown enhancement '${id}'.`);
+    }
+    await implementation();
+  }
+
   private getProjectFiles(): string[] {
     const files: string[] = [];
     const traverse = (dir: string) => {
-      if (!existsSync(dir)) return;
-      const items = readdirSync(dir);
+      if (!this.fs.exists(dir)) return;
+      const items = this.fs.readdir(dir);
       for (const item of items) {
         if (item === 'node_modules' || item === '.git') continue;
         const fullPath = path.join(dir, item);
-        const stat = lstatSync(fullPath);
-        if (stat.isDirectory()) {
+        if (this.fs.isDirectory(fullPath)) {
           traverse(fullPath);
         } else {
           files.push(path.relative(this.projectRoot, fullPath));
@@ -90,269 +154,159 @@ export class AIProjectAnalyzer {
 
   private getPackageJson(): any {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    if (existsSync(packageJsonPath)) {
-      return JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    if (this.fs.exists(packageJsonPath)) {
+      return JSON.parse(readText(this.fs, packageJsonPath));
     }
     return null;
   }
 
-  private analyzeStructure(files: string[], packageJson: any): ProjectStructure {
-    const hasTests = files.some(f => f.includes('test') || f.includes('spec')) || 
-                     !!packageJson?.devDependencies?.jest || !!packageJson?.devDependencies?.mocha;
-    const hasLinting = packageJson?.devDependencies?.eslint || files.some(f => f.includes('eslint'));
-    const hasFormatting = packageJson?.devDependencies?.prettier || files.some(f => f.includes('prettier'));
-    const hasTypeScript = files.some(f => f.endsWith('.ts') || f.endsWith('.tsx')) || 
-                         packageJson?.devDependencies?.typescript;
-    const hasDocumentation = files.some(f => f.toLowerCase().includes('readme'));
-    const hasErrorHandling = this.checkForErrorHandling(files);
-    const hasEnvironmentConfig = files.some(f => f.includes('.env') || f.includes('config'));
-    const hasLogging = this.checkForLogging(files, packageJson);
-    const hasValidation = this.checkForValidation(files, packageJson);
-    const hasApiDocumentation = files.some(f => f.includes('swagger') || f.includes('openapi'));
-
-    return {
-      hasTests,
-      hasLinting,
-      hasFormatting,
-      hasTypeScript,
-      hasDocumentation,
-      hasErrorHandling,
-      hasEnvironmentConfig,
-      hasLogging,
-      hasValidation,
-      hasApiDocumentation
-    };
-  }
-
-  private checkForErrorHandling(files: string[]): boolean {
-    // Check for try-catch blocks or error handling patterns
-    for (const file of files) {
-      if (file.endsWith('.js') || file.endsWith('.ts') || file.endsWith('.jsx') || file.endsWith('.tsx')) {
-        const filePath = path.join(this.projectRoot, file);
-        if (existsSync(filePath)) {
-          const content = readFileSync(filePath, 'utf8');
-          if (content.includes('try') || content.includes('catch') || content.includes('throw')) {
-            return true;
-          }
+  // Names a package.json or requirements.txt declares, with where: the
+  // package.json section, or the requirements file itself.
+  private readDependencies(file: string): Record<string, string> {
+    const declared: Record<string, string> = {};
+    const fullPath = path.join(this.projectRoot, file);
+    if (!this.fs.exists(fullPath)) return declared;
+    if (path.basename(file) === 'package.json') {
+      const packageJson = JSON.parse(readText(this.fs, fullPath));
+      for (const section of ['dependencies', 'devDependencies']) {
+        for (const name of Object.keys(packageJson?.[section] || {})) {
+          if (!declared[name]) declared[name] = section;
         }
       }
+      return declared;
     }
-    return false;
-  }
-
-  private checkForLogging(files: string[], packageJson: any): boolean {
-    const loggingLibs = ['winston', 'bunyan', 'pino', 'morgan'];
-    return loggingLibs.some(lib => 
-      packageJson?.dependencies?.[lib] || packageJson?.devDependencies?.[lib]
-    ) || files.some(f => f.includes('log'));
+    for (const line of readText(this.fs, fullPath).split('\n')) {
+      const name = line.replace(/#.*/, '').trim().split(/[\s<>=!~;[]/)[0].toLowerCase();
+      if (name && !name.startsWith('-') && !declared[name]) declared[name] = file;
+    }
+    return declared;
   }
 
-  private checkForValidation(files: string[], packageJson: any): boolean {
-    const validationLibs = ['joi', 'yup', 'ajv', 'express-validator', 'zod'];
-    return validationLibs.some(lib => 
-      packageJson?.dependencies?.[lib] || packageJson?.devDependencies?.[lib]
-    );
+  // Names the project depends on, with where each is declared: package.json
+  // sections for JavaScript, requirements.txt for Python.
+  private getDeclaredDependencies(): Record<string, string> {
+    return { ...this.readDependencies('requirements.txt'), ...this.readDependencies('package.json') };
   }
 
-  private async identifyImprovements(structure: ProjectStructure, packageJson: any): Promise<Enhancement[]> {
-    const improvements: Enhancement[] = [];
-
-    // Add logging enhancement
-    if (!structure.hasLogging) {
-      improvements.push({
-        type: 'dependency',
-        description: 'Add structured logging with Winston',
-        priority: 'high',
-        implementation: () => this.addLogging()
-      });
-    }
-
-    // Add error handling enhancement
-    if (!structure.hasErrorHandling) {
-      improvements.push({
-        type: 'code',
-        description: 'Add comprehensive error handling',
-        priority: 'high',
-        implementation: () => this.addErrorHandling()
-      });
-    }
-
-    // Add environment configuration
-    if (!structure.hasEnvironmentConfig) {
-      improvements.push({
-        type: 'config',
-        description: 'Add environment configuration with dotenv',
-        priority: 'medium',
-        implementation: () => this.addEnvironmentConfig()
-      });
-    }
-
-    // Add validation for API projects
-    if ((this.template === 'node' || this.template === 'full-stack') && !structure.hasValidation) {
-      improvements.push({
-        type: 'dependency',
-        description: 'Add input validation with Joi',
-        priority: 'medium',
-        implementation: () => this.addValidation()
-      });
-    }
-
-    // Add API documentation for backend projects
-    if ((this.template === 'node' || this.template === 'full-stack') && !structure.hasApiDocumentation) {
-      improvements.push({
-        type: 'file',
-        description: 'Add API documentation with Swagger/OpenAPI',
-        priority: 'medium',
-        implementation: () => this.addApiDocumentation()
-      });
+  private getDependencyFiles(files: string[]): Record<string, string> {
+    const manifests = files
+      .filter(file => ['package.json', 'requirements.txt'].includes(path.basename(file)))
+      .sort((a, b) => a.split(path.sep).length - b.split(path.sep).length);
+    const located: Record<string, string> = {};
+    for (const manifest of manifests) {
+      let declared: Record<string, string>;
+      try {
+        declared = this.readDependencies(manifest);
+      } catch (err) {
+        // A broken fixture deep in the tree should not fail the analysis.
+        continue;
+      }
+      for (const name of Object.keys(declared)) {
+        if (!located[name]) located[name] = manifest;
+      }
     }
-
-    // Add enhanced testing setup
-    improvements.push({
-      type: 'config',
-      description: 'Enhance testing configuration with coverage reporting',
-      priority: 'medium',
-      implementation: () => this.enhanceTestingConfig()
-    });
-
-    // Template-specific improvements
-    const templateSpecificImprovements = await this.getTemplateSpecificImprovements(structure);
-    improvements.push(...templateSpecificImprovements);
-
-    return improvements;
+    return located;
   }
 
-  private async getTemplateSpecificImprovements(structure: ProjectStructure): Promise<Enhancement[]> {
-    const improvements: Enhancement[] = [];
-
-    switch (this.template) {
-      case 'react':
-        improvements.push(...await this.getReactImprovements(structure));
-        break;
-      case 'node':
-        improvements.push(...await this.getNodeImprovements(structure));
-        break;
-      case 'python':
-        improvements.push(...await this.getPythonImprovements(structure));
-        break;
-      case 'full-stack':
-        improvements.push(...await this.getFullStackImprovements(structure));
-        break;
+  // Each check keeps the first file or dependency that satisfied it, so
+  // reports can say why a check passed.
+  private analyzeStructure(files: string[], declared: Record<string, string>): { structure: ProjectStructure; evidence: StructureEvidence } {
+    const dependency = (names: string[]) => {
+      const name = names.find(candidate => declared[candidate]);
+      return name ? `${name} in ${declared[name]}` : undefined;
+    };
+    const file = (matches: (file: string) => boolean) => files.find(matches);
+
+    const found: Record<keyof ProjectStructure, string | undefined> = {
+      hasTests: file(f => f.includes('test') || f.includes('spec')) || dependency(['jest', 'mocha', 'vitest', 'pytest']),
+      hasLinting: dependency(['eslint', 'flake8', 'ruff', 'pylint']) || file(f => f.includes('eslint')),
+      hasFormatting: dependency(['prettier', 'black']) || file(f => f.includes('prettier')),
+      hasTypeScript: file(f => f.endsWith('.ts') || f.endsWith('.tsx')) || dependency(['typescript']),
+      hasDocumentation: file(f => f.toLowerCase().includes('readme')),
+      hasErrorHandling: this.findErrorHandling(files),
+      hasEnvironmentConfig: file(f => f.includes('.env') || f.includes('config')),
+      hasLogging: dependency(['winston', 'bunyan', 'pino', 'morgan', 'loguru', 'structlog']) || file(f => f.includes('log')),
+      hasValidation: dependency(['joi', 'yup', 'ajv', 'express-validator', 'zod', 'pydantic', 'marshmallow']),
+      hasApiDocumentation: file(f => f.includes('swagger') || f.includes('openapi')),
+      hasCodeQL: this.findCodeQL(files)
+    };
+    const structure = {} as ProjectStructure;
+    const evidence: StructureEvidence = {};
+    for (const [check, reason] of Object.entries(found) as [keyof ProjectStructure, string | undefined][]) {
+      structure[check] = reason !== undefined;
+      if (reason !== undefined) evidence[check] = reason;
     }
-
-    return improvements;
+    return { structure, evidence };
   }
 
-  private async getReactImprovements(structure: ProjectStructure): Promise<Enhancement[]> {
-    const improvements: Enhancement[] = [];
-
-    improvements.push({
-      type: 'file',
-      description: 'Add React performance optimization utilities',
-      priority: 'medium',
-      implementation: () => this.addReactPerformanceUtils()
+  private findCodeQL(files: string[]): string | undefined {
+    return files.find(file => {
+      const normalized = file.split(path.sep).join('/');
+      if (!normalized.startsWith('.github/') || !/\.ya?ml$/.test(normalized)) return false;
+      return readText(this.fs, path.join(this.projectRoot, file)).includes('github/codeql-action');
     });
-
-    improvements.push({
-      type: 'dependency',
-      description: 'Add React Router for navigation',
-      priority: 'medium',
-      implementation: () => this.addReactRouter()
-    });
-
-    improvements.push({
-      type: 'file',
-      description: 'Add custom React hooks for common patterns',
-      priority: 'low',
-      implementation: () => this.addReactHooks()
-    });
-
-    return improvements;
   }
 
-  private async getNodeImprovements(structure: ProjectStructure): Promise<Enhancement[]> {
-    const improvements: Enhancement[] = [];
-
-    improvements.push({
-      type: 'file',
-      description: 'Add database connection utilities',
-      priority: 'medium',
-      implementation: () => this.addDatabaseUtils()
-    });
-
-    improvements.push({
-      type: 'dependency',
-      description: 'Add security middleware (helmet, cors)',
-      priority: 'high',
-      implementation: () => this.addSecurityMiddleware()
-    });
-
-    improvements.push({
-      type: 'file',
-      description: 'Add rate limiting and caching',
-      priority: 'medium',
-      implementation: () => this.addRateLimitingAndCaching()
-    });
-
-    return improvements;
+  private findErrorHandling(files: string[]): string | undefined {
+    // Check for try-catch blocks or error handling patterns
+    for (const file of files) {
+      if (file.endsWith('.js') || file.endsWith('.ts') || file.endsWith('.jsx') || file.endsWith('.tsx')) {
+        const filePath = path.join(this.projectRoot, file);
+        if (this.fs.exists(filePath)) {
+          const content = readText(this.fs, filePath);
+          if (content.includes('try') || content.includes('catch') || content.includes('throw')) {
+            return file;
+          }
+        }
+      }
+    }
+    return undefined;
   }
 
-  private async getPythonImprovements(structure: ProjectStructure): Promise<Enhancement[]> {
-    const improvements: Enhancement[] = [];
-
-    improvements.push({
-      type: 'file',
-      description: 'Add Python logging configuration',
-      priority: 'high',
-      implementation: () => this.addPythonLogging()
-    });
-
-    improvements.push({
-      type: 'file',
-      description: 'Add Flask/FastAPI utilities',
-      priority: 'medium',
-      implementation: () => this.addPythonWebUtils()
-    });
-
-    improvements.push({
-      type: 'config',
-      description: 'Add Python type hints and mypy configuration',
-      priority: 'medium',
-      implementation: () => this.addPythonTypeHints()
-    });
-
-    return improvements;
+  private async identifyImprovements(structure: ProjectStructure, packageJson: any): Promise<Enhancement[]> {
+    return ENHANCEMENTS
+      .filter(definition => !definition.templates || definition.templates.includes(this.template))
+      .filter(definition => !definition.skipWhen || !structure[definition.skipWhen])
+      .map(definition => ({
+        id: definition.id,
+        type: definition.type,
+        description: definition.description,
+        priority: definition.priority,
+        implementation: this.implementation(definition.id)
+      }));
   }
 
-  private async getFullStackImprovements(structure: ProjectStructure): Promise<Enhancement[]> {
-    const improvements: Enhancement[] = [];
-    
-    // Combine improvements from both frontend and backend
-    const reactImprovements = await this.getReactImprovements(structure);
-    const nodeImprovements = await this.getNodeImprovements(structure);
-    
-    improvements.push(...reactImprovements);
-    improvements.push(...nodeImprovements);
-
-    improvements.push({
-      type: 'file',
-      description: 'Add API client utilities for frontend-backend communication',
-      priority: 'high',
-      implementation: () => this.addApiClientUtils()
-    });
-
-    return improvements;
+  private implementation(id: string): () => Promise<void> {
+    const implementations: Record<string, () => Promise<void>> = {
+      logging: () => this.addLogging(),
+      'error-handling': () => this.addErrorHandling(),
+      'env-config': () => this.addEnvironmentConfig(),
+      validation: () => this.addValidation(),
+      'api-docs': () => this.addApiDocumentation(),
+      'test-coverage': () => this.enhanceTestingConfig(),
+      'react-performance': () => this.addReactPerformanceUtils(),
+      'react-router': () => this.addReactRouter(),
+      'react-hooks': () => this.addReactHooks(),
+      database: () => this.addDatabaseUtils(),
+      security: () => this.addSecurityMiddleware(),
+      'rate-limiting': () => this.addRateLimitingAndCaching(),
+      'python-logging': () => this.addPythonLogging(),
+      'python-web-utils': () => this.addPythonWebUtils(),
+      'python-type-hints': () => this.addPythonTypeHints(),
+      'api-client': () => this.addApiClientUtils()
+    };
+    return implementations[id];
   }
 
   // Implementation methods for enhancements
   private async addLogging(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.dependencies = packageJson.dependencies || {};
     packageJson.dependencies.winston = '^3.11.0';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
     const loggingConfigPath = path.join(this.projectRoot, 'src/utils/logger.js');
     const loggingConfig = `const winston = require('winston');
@@ -381,16 +335,16 @@ module.exports = logger;
 `;
 
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
     
     const logsDir = path.join(this.projectRoot, 'logs');
-    if (!existsSync(logsDir)) {
-      mkdirSync(logsDir, { recursive: true });
+    if (!this.fs.exists(logsDir)) {
+      this.fs.mkdir(logsDir);
     }
 
-    writeFileSync(loggingConfigPath, loggingConfig, 'utf8');
+    this.fs.writeFile(loggingConfigPath, loggingConfig);
   }
 
   private async addErrorHandling(): Promise<void> {
@@ -427,21 +381,21 @@ module.exports = { AppError, handleError, asyncHandler };
 `;
 
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
-    writeFileSync(errorHandlerPath, errorHandlerContent, 'utf8');
+    this.fs.writeFile(errorHandlerPath, errorHandlerContent);
   }
 
   private async addEnvironmentConfig(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.dependencies = packageJson.dependencies || {};
     packageJson.dependencies.dotenv = '^16.3.1';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
     const envExamplePath = path.join(this.projectRoot, '.env.example');
     const envExampleContent = `# Application Configuration
@@ -461,28 +415,28 @@ API_KEY=your-api-key-here
 JWT_SECRET=your-jwt-secret-here
 `;
 
-    writeFileSync(envExamplePath, envExampleContent, 'utf8');
+    this.fs.writeFile(envExamplePath, envExampleContent);
 
     // Add .env to .gitignore if it exists
     const gitignorePath = path.join(this.projectRoot, '.gitignore');
-    if (existsSync(gitignorePath)) {
-      const gitignoreContent = readFileSync(gitignorePath, 'utf8');
+    if (this.fs.exists(gitignorePath)) {
+      const gitignoreContent = readText(this.fs, gitignorePath);
       if (!gitignoreContent.includes('.env')) {
-        writeFileSync(gitignorePath, gitignoreContent + '\n.env\n', 'utf8');
+        this.fs.writeFile(gitignorePath, gitignoreContent + '\n.env\n');
       }
     } else {
-      writeFileSync(gitignorePath, '.env\nnode_modules/\nlogs/\n', 'utf8');
+      this.fs.writeFile(gitignorePath, '.env\nnode_modules/\nlogs/\n');
     }
   }
 
   private async addValidation(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.dependencies = packageJson.dependencies || {};
     packageJson.dependencies.joi = '^17.11.0';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
     const validationPath = path.join(this.projectRoot, 'src/utils/validation.js');
     const validationContent = `const Joi = require('joi');
@@ -515,22 +469,22 @@ module.exports = { validateRequest, schemas };
 `;
 
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
-    writeFileSync(validationPath, validationContent, 'utf8');
+    this.fs.writeFile(validationPath, validationContent);
   }
 
   private async addApiDocumentation(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.dependencies = packageJson.dependencies || {};
     packageJson.dependencies['swagger-ui-express'] = '^5.0.0';
     packageJson.dependencies['swagger-jsdoc'] = '^6.2.8';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
     const swaggerConfigPath = path.join(this.projectRoot, 'src/utils/swagger.js');
     const swaggerConfig = `const swaggerJSDoc = require('swagger-jsdoc');
@@ -565,16 +519,16 @@ module.exports = { setupSwagger };
 `;
 
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
-    writeFileSync(swaggerConfigPath, swaggerConfig, 'utf8');
+    this.fs.writeFile(swaggerConfigPath, swaggerConfig);
   }
 
   private async enhanceTestingConfig(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.scripts = packageJson.scripts || {};
     packageJson.scripts['test:coverage'] = 'jest --coverage';
@@ -584,7 +538,7 @@ module.exports = { setupSwagger };
     packageJson.devDependencies['@types/jest'] = '^29.5.2';
     packageJson.devDependencies['supertest'] = '^6.3.3';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
     const jestConfigPath = path.join(this.projectRoot, 'jest.config.js');
     const jestConfig = `module.exports = {
@@ -603,14 +557,14 @@ module.exports = { setupSwagger };
 };
 `;
 
-    writeFileSync(jestConfigPath, jestConfig, 'utf8');
+    this.fs.writeFile(jestConfigPath, jestConfig);
   }
 
   // React-specific enhancements
   private async addReactPerformanceUtils(): Promise<void> {
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
     const performanceUtilsPath = path.join(utilsDir, 'performance.js');
@@ -660,23 +614,23 @@ export const useThrottle = (value, limit) => {
 };
 `;
 
-    writeFileSync(performanceUtilsPath, performanceUtils, 'utf8');
+    this.fs.writeFile(performanceUtilsPath, performanceUtils);
   }
 
   private async addReactRouter(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.dependencies = packageJson.dependencies || {};
     packageJson.dependencies['react-router-dom'] = '^6.8.0';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
   }
 
   private async addReactHooks(): Promise<void> {
     const hooksDir = path.join(this.projectRoot, 'src/hooks');
-    if (!existsSync(hooksDir)) {
-      mkdirSync(hooksDir, { recursive: true });
+    if (!this.fs.exists(hooksDir)) {
+      this.fs.mkdir(hooksDir);
     }
 
     const useApiHookPath = path.join(hooksDir, 'useApi.js');
@@ -711,14 +665,14 @@ export const useApi = (url, options = {}) => {
 };
 `;
 
-    writeFileSync(useApiHookPath, useApiHook, 'utf8');
+    this.fs.writeFile(useApiHookPath, useApiHook);
   }
 
   // Node.js-specific enhancements
   private async addDatabaseUtils(): Promise<void> {
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
     const dbUtilsPath = path.join(utilsDir, 'database.js');
@@ -763,19 +717,19 @@ class Database {
 module.exports = new Database();
 `;
 
-    writeFileSync(dbUtilsPath, dbUtils, 'utf8');
+    this.fs.writeFile(dbUtilsPath, dbUtils);
   }
 
   private async addSecurityMiddleware(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.dependencies = packageJson.dependencies || {};
     packageJson.dependencies.helmet = '^7.1.0';
     packageJson.dependencies.cors = '^2.8.5';
     packageJson.dependencies['express-rate-limit'] = '^7.1.5';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
     const securityPath = path.join(this.projectRoot, 'src/middleware/security.js');
     const securityContent = `const helmet = require('helmet');
@@ -822,21 +776,21 @@ module.exports = { setupSecurity };
 `;
 
     const middlewareDir = path.join(this.projectRoot, 'src/middleware');
-    if (!existsSync(middlewareDir)) {
-      mkdirSync(middlewareDir, { recursive: true });
+    if (!this.fs.exists(middlewareDir)) {
+      this.fs.mkdir(middlewareDir);
     }
 
-    writeFileSync(securityPath, securityContent, 'utf8');
+    this.fs.writeFile(securityPath, securityContent);
   }
 
   private async addRateLimitingAndCaching(): Promise<void> {
     const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+    const packageJson = JSON.parse(readText(this.fs, packageJsonPath));
     
     packageJson.dependencies = packageJson.dependencies || {};
     packageJson.dependencies['node-cache'] = '^5.1.2';
     
-    writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+    this.fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
     const cachePath = path.join(this.projectRoot, 'src/utils/cache.js');
     const cacheContent = `const NodeCache = require('node-cache');
@@ -867,11 +821,11 @@ module.exports = { cache, cacheMiddleware };
 `;
 
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
-    writeFileSync(cachePath, cacheContent, 'utf8');
+    this.fs.writeFile(cachePath, cacheContent);
   }
 
   // Python-specific enhancements
@@ -905,11 +859,11 @@ logger = setup_logging()
 `;
 
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
-    writeFileSync(loggingConfigPath, loggingConfig, 'utf8');
+    this.fs.writeFile(loggingConfigPath, loggingConfig);
   }
 
   private async addPythonWebUtils(): Promise<void> {
@@ -975,26 +929,26 @@ def handle_errors(f):
 `;
 
     const utilsDir = path.join(this.projectRoot, 'src/utils');
-    if (!existsSync(utilsDir)) {
-      mkdirSync(utilsDir, { recursive: true });
+    if (!this.fs.exists(utilsDir)) {
+      this.fs.mkdir(utilsDir);
     }
 
-    writeFileSync(webUtilsPath, webUtils, 'utf8');
+    this.fs.writeFile(webUtilsPath, webUtils);
   }
 
   private async addPythonTypeHints(): Promise<void> {
     const requirementsPath = path.join(this.projectRoot, 'requirements.txt');
     let requirements = '';
     
-    if (existsSync(requirementsPath)) {
-      requirements = readFileSync(requirementsPath, 'utf8');
+    if (this.fs.exists(requirementsPath)) {
+      requirements = readText(this.fs, requirementsPath);
     }
     
     if (!requirements.includes('mypy')) {
       requirements += '\nmypy==1.7.1\n';
     }
     
-    writeFileSync(requirementsPath, requirements, 'utf8');
+    this.fs.writeFile(requirementsPath, requirements);
 
     const mypyConfigPath = path.join(this.projectRoot, 'mypy.ini');
     const mypyConfig = `[mypy]
@@ -1013,14 +967,14 @@ warn_unreachable = True
 strict_equality = True
 `;
 
-    writeFileSync(mypyConfigPath, mypyConfig, 'utf8');
+    this.fs.writeFile(mypyConfigPath, mypyConfig);
   }
 
   // Full-stack specific enhancements
   private async addApiClientUtils(): Promise<void> {
     const clientUtilsDir = path.join(this.projectRoot, 'client/src/utils');
-    if (!existsSync(clientUtilsDir)) {
-      mkdirSync(clientUtilsDir, { recursive: true });
+    if (!this.fs.exists(clientUtilsDir)) {
+      this.fs.mkdir(clientUtilsDir);
     }
 
     const apiClientPath = path.join(clientUtilsDir, 'apiClient.js');
@@ -1083,35 +1037,48 @@ class ApiClient {
 export default new ApiClient();
 `;
 
-    writeFileSync(apiClientPath, apiClientContent, 'utf8');
+    this.fs.writeFile(apiClientPath, apiClientContent);
   }
 }
 
-export async function enhanceWithAI(projectRoot: string, template: string): Promise<void> {
-  const aiSpinner = ora('Enhancing project with AI...').start();
-  
+export async function enhanceWithAI(
+  projectRoot: string,
+  template: string,
+  fs: FileSystem = diskFileSystem,
+  emit: EventListener = ignoreEvents,
+  // Enhancement ids to apply; every applicable one when unset.
+  only?: string[]
+): Promise<string[]> {
+  emit({ type: 'step-started', step: 'ai', message: 'Enhancing project with AI...' });
+
+  // What a failure leaves in place still has to end up in the manifest.
+  const applied: string[] = [];
   try {
-    const analyzer = new AIProjectAnalyzer(projectRoot, template);
+    const analyzer = new AIProjectAnalyzer(projectRoot, template, fs);
     const analysis = await analyzer.analyze();
-    
-    aiSpinner.text = 'Applying AI enhancements...';
+    if (only) {
+      analysis.improvements = analysis.improvements.filter(improvement => only.includes(improvement.id));
+    }
     
     // Apply high-priority improvements first
     const highPriorityImprovements = analysis.improvements.filter(imp => imp.priority === 'high');
     for (const improvement of highPriorityImprovements) {
       await improvement.implementation();
+      applied.push(improvement.id);
     }
     
     // Apply medium-priority improvements
     const mediumPriorityImprovements = analysis.improvements.filter(imp => imp.priority === 'medium');
     for (const improvement of mediumPriorityImprovements) {
       await improvement.implementation();
+      applied.push(improvement.id);
     }
     
     // Apply low-priority improvements
     const lowPriorityImprovements = analysis.improvements.filter(imp => imp.priority === 'low');
     for (const improvement of lowPriorityImprovements) {
       await improvement.implementation();
+      applied.push(improvement.id);
     }
     
     // Create enhancement summary
@@ -1143,6 +1110,7 @@ ${analysis.improvements.map(imp => `- **${imp.description}** (${imp.priority} pr
 - ✅ Logging: ${analysis.structure.hasLogging ? 'Present' : 'Missing'}
 - ✅ Validation: ${analysis.structure.hasValidation ? 'Present' : 'Missing'}
 - ✅ API Documentation: ${analysis.structure.hasApiDocumentation ? 'Present' : 'Missing'}
+- ✅ CodeQL: ${analysis.structure.hasCodeQL ? 'Present' : 'Missing'}
 
 ## Next Steps
 
@@ -1155,12 +1123,14 @@ ${analysis.improvements.map(imp => `- **${imp.description}** (${imp.priority} pr
 Generated by StackStart 🤖
 `;
     
-    writeFileSync(enhancementSummaryPath, enhancementSummary, 'utf8');
+    fs.writeFile(enhancementSummaryPath, enhancementSummary);
     
-    aiSpinner.succeed(`AI enhancements applied: ${analysis.improvements.length} improvements made`);
+    emit({ type: 'step-succeeded', step: 'ai', message: `AI enhancements applied: ${analysis.improvements.length} improvements made` });
+    return analysis.improvements.map(improvement => improvement.id);
   } catch (error) {
-    aiSpinner.fail('AI enhancement failed');
-    console.log(chalk.yellow('Continuing without AI enhancements...'));
-    console.log(chalk.red('Error details:'), error);
+    emit({ type: 'step-failed', step: 'ai', message: 'AI enhancement failed', error: (error as Error).message });
+    const stopped = applied.length > 0 ? `stopped after ${applied.join(', ')}` : 'were skipped';
+    emit({ type: 'warning', message: `AI enhancements ${stopped} (${(error as Error).message})` });
+    return applied;
   }
 } 
\ No newline at end of file
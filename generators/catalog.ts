@@ -0,0 +1,84 @@
+import { DEPLOY_TARGETS } from './deploy-targets';
+import { ENHANCEMENTS } from './ai-enhancer';
+import { TemplateOrigin, TemplateSource } from './template-manifest';
+import { listTemplates } from './template-resolver';
+import { listCachedTemplates, TemplateFetchOptions } from './template-sources';
+
+// Plain data behind `stackstart list`, shaped for both the tables and --json.
+
+export interface TemplateInfo {
+  name: string;
+  displayName: string;
+  description: string;
+  source: TemplateSource;
+  path: string;
+  language?: string;
+  deployTargets: string[];
+  shadowed: boolean;
+  origin?: TemplateOrigin;
+  error?: string;
+}
+
+export interface TargetInfo {
+  name: string;
+  description: string;
+  configFile: string;
+  // Usable templates that list this target in their manifest.
+  templates: string[];
+}
+
+export interface EnhancementInfo {
+  id: string;
+  description: string;
+  type: string;
+  priority: string;
+  templates: string[] | 'all';
+}
+
+export function catalogTemplates(options: TemplateFetchOptions = {}): TemplateInfo[] {
+  const named: TemplateInfo[] = listTemplates(options).map(listing => ({
+    name: listing.name,
+    displayName: listing.template ? listing.template.manifest.displayName : listing.name,
+    description: listing.template ? listing.template.manifest.description : '',
+    source: listing.source,
+    path: listing.path,
+    language: listing.template && listing.template.manifest.language,
+    deployTargets: listing.template ? listing.template.manifest.deployTargets : [],
+    shadowed: listing.shadowed,
+    error: listing.error
+  }));
+
+  const cached: TemplateInfo[] = listCachedTemplates(options).map(template => ({
+    name: template.name,
+    displayName: template.manifest.displayName,
+    description: template.manifest.description,
+    source: template.source,
+    path: template.path,
+    language: template.manifest.language,
+    deployTargets: template.manifest.deployTargets,
+    shadowed: false,
+    origin: template.origin
+  }));
+
+  return [...named, ...cached];
+}
+
+export function catalogTargets(templates: TemplateInfo[]): TargetInfo[] {
+  const usable = templates.filter(template => !template.shadowed && !template.error);
+  return DEPLOY_TARGETS.map(target => ({
+    ...target,
+    templates: Array.from(new Set(
+      usable.filter(template => template.deployTargets.includes(target.name)).map(template => template.name)
+    ))
+  }));
+}
+
+export function catalogEnhancements(): EnhancementInfo[] {
+  return ENHANCEMENTS.map(enhancement => ({
+    id: enhancement.id,
+    description: enhancement.description,
+    type: enhancement.type,
+    priority: enhancement.priority,
+    templates: enhancement.templates || 'all'
+  }));
+}
@@ -0,0 +1,168 @@
+import os from 'os';
+import path from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { ENHANCEMENTS } from './ai-enhancer';
+
+export const USER_CONFIG_FILE = '.stackstartrc';
+
+// Looked up from the working directory towards the filesystem root; the
+// closest directory wins and .json beats .js within a directory.
+export const PROJECT_CONFIG_FILES = ['stackstart.config.json', 'stackstart.config.js'];
+
+// The create options a config file or preset can fill in.
+export interface CreateDefaults {
+  template?: string;
+  deployTarget?: string;
+  withDemo?: boolean;
+  aiEnhanced?: boolean;
+  author?: string;
+  license?: string;
+  githubOrg?: string;
+  packageManager?: string;
+  // Which enhancements --ai-enhanced applies; all that fit the template when unset.
+  enhancements?: string[];
+  answers?: Record<string, unknown>;
+}
+
+export interface StackstartConfig extends CreateDefaults {
+  // Extra template directories, searched before the project and user ones.
+  templatePaths?: string[];
+  presets?: Record<string, CreateDefaults>;
+  // The stackstart-policy.json to use when none is found above the project.
+  policy?: string;
+}
+
+export interface LoadedConfig {
+  config: StackstartConfig;
+  // The files that were read, user config first.
+  files: string[];
+}
+
+export interface ConfigOptions {
+  cwd?: string;
+  homeDir?: string;
+}
+
+const STRING_FIELDS = ['template', 'deployTarget', 'author', 'license', 'githubOrg', 'packageManager'] as const;
+const BOOLEAN_FIELDS = ['withDemo', 'aiEnhanced'] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateDefaults(raw: Record<string, unknown>, invalid: (reason: string) => Error, where = ''): CreateDefaults {
+  const defaults: CreateDefaults = {};
+  for (const field of STRING_FIELDS) {
+    if (raw[field] === undefined) continue;
+    if (typeof raw[field] !== 'string' || raw[field] === '') throw invalid(`${where}"${field}" must be a non-empty string`);
+    defaults[field] = raw[field] as string;
+  }
+  for (const field of BOOLEAN_FIELDS) {
+    if (raw[field] === undefined) continue;
+    if (typeof raw[field] !== 'boolean') throw invalid(`${where}"${field}" must be true or false`);
+    defaults[field] = raw[field] as boolean;
+  }
+  if (raw.enhancements !== undefined) {
+    if (!Array.isArray(raw.enhancements)) throw invalid(`${where}"enhancements" must be an array of enhancement ids`);
+    const unknown = raw.enhancements.filter(id => !ENHANCEMENTS.some(enhancement => enhancement.id === id));
+    if (unknown.length > 0) {
+      throw invalid(`${where}unknown enhancement '${unknown[0]}' (see \`stackstart list enhancements\`)`);
+    }
+    defaults.enhancements = raw.enhancements as string[];
+  }
+  if (raw.answers !== undefined) {
+    if (!isObject(raw.answers)) throw invalid(`${where}"answers" must be an object`);
+    defaults.answers = raw.answers;
+  }
+  return defaults;
+}
+
+// Reads and validates one config file. .js files are required and may export
+// the config object directly or as `default`; everything else is JSON.
+export function readConfigFile(file: string): StackstartConfig {
+  const invalid = (reason: string) => new Error(`Invalid stackstart config at ${file}: ${reason}`);
+
+  let raw: unknown;
+  try {
+    if (file.endsWith('.js')) {
+      const loaded = require(path.resolve(file));
+      raw = loaded && loaded.__esModule ? loaded.default : loaded;
+    } else {
+      raw = JSON.parse(readFileSync(file, 'utf8'));
+    }
+  } catch (err) {
+    throw invalid((err as Error).message);
+  }
+  if (!isObject(raw)) throw invalid('expected an object');
+
+  const config: StackstartConfig = validateDefaults(raw, invalid);
+  if (raw.templatePaths !== undefined) {
+    if (!Array.isArray(raw.templatePaths) || raw.templatePaths.some(entry => typeof entry !== 'string')) {
+      throw invalid('"templatePaths" must be an array of directories');
+    }
+    // Relative to the file, so a checked-in config works from any subdirectory.
+    config.templatePaths = raw.templatePaths.map(entry => path.resolve(path.dirname(file), entry as string));
+  }
+  if (raw.policy !== undefined) {
+    if (typeof raw.policy !== 'string' || raw.policy === '') throw invalid('"policy" must be the path to a policy file');
+    config.policy = path.resolve(path.dirname(file), raw.policy);
+  }
+  if (raw.presets !== undefined) {
+    if (!isObject(raw.presets)) throw invalid('"presets" must be an object');
+    config.presets = {};
+    for (const [name, preset] of Object.entries(raw.presets)) {
+      if (!isObject(preset)) throw invalid(`preset "${name}" must be an object`);
+      config.presets[name] = validateDefaults(preset, invalid, `preset "${name}": `);
+    }
+  }
+  return config;
+}
+
+export function findProjectConfig(cwd: string = process.cwd()): string | undefined {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const found = PROJECT_CONFIG_FILES.map(file => path.join(dir, file)).find(file => existsSync(file));
+    if (found) return found;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+// ~/.stackstartrc overlaid with the nearest project config. Presets merge by
+// name and template paths add up, project paths first.
+export function loadConfig(options: ConfigOptions = {}): LoadedConfig {
+  const userFile = path.join(options.homeDir || os.homedir(), USER_CONFIG_FILE);
+  const projectFile = findProjectConfig(options.cwd);
+  const files = [userFile, projectFile].filter((file): file is string => Boolean(file) && existsSync(file as string));
+  // A project under the home directory should not read the user config twice.
+  const unique = Array.from(new Set(files));
+
+  let config: StackstartConfig = {};
+  for (const file of unique) {
+    const next = readConfigFile(file);
+    config = {
+      ...config,
+      ...next,
+      answers: config.answers || next.answers ? { ...config.answers, ...next.answers } : undefined,
+      templatePaths: [...(next.templatePaths || []), ...(config.templatePaths || [])],
+      presets: { ...config.presets, ...next.presets }
+    };
+  }
+  return { config, files: unique };
+}
+
+// Splits a loaded config into its plain defaults, without the file-only settings.
+export function configDefaults(config: StackstartConfig): CreateDefaults {
+  const { templatePaths, presets, policy, ...defaults } = config;
+  return Object.fromEntries(Object.entries(defaults).filter(([, value]) => value !== undefined));
+}
+
+export function findPreset(config: StackstartConfig, name: string): CreateDefaults {
+  const preset = config.presets && config.presets[name];
+  if (!preset) {
+    const known = Object.keys(config.presets || {});
+    throw new Error(`Unknown preset '${name}'. ${known.length > 0 ? `Available presets: ${known.join(', ')}` : 'No presets are configured.'}`);
+  }
+  return preset;
+}
@@ -0,0 +1,229 @@
+import path from 'path';
+import { readdirSync, readFileSync } from 'fs';
+import { FileSystem } from './filesystem';
+
+// What to do with a generated file when the directory already has one.
+export type ConflictChoice = 'skip' | 'overwrite' | 'keep-both';
+
+// `ask` defers the choice until resolvePending, which can prompt.
+export type ConflictPolicy = ConflictChoice | 'ask';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['ask', 'skip', 'overwrite', 'keep-both'];
+
+// `merge` resolves conflicts by policy and merges JSON; `force` overwrites.
+export type ExistingDirectoryMode = 'merge' | 'force';
+
+export interface Conflict {
+  // Relative to the project root.
+  path: string;
+  existing: Buffer;
+  incoming: Buffer;
+}
+
+export type ConflictResolver = (conflict: Conflict) => Promise<ConflictChoice>;
+
+export type ConflictResolution = ConflictChoice | 'merged' | 'pending';
+
+export interface ConflictRecord {
+  path: string;
+  resolution: ConflictResolution;
+  // Where the template's version went for keep-both.
+  keptAs?: string;
+}
+
+export interface ConflictOptions {
+  root: string;
+  mode: ExistingDirectoryMode;
+  policy: ConflictPolicy;
+  onResolved?: (record: ConflictRecord) => void;
+}
+
+export function describeConflict(record: ConflictRecord): string {
+  switch (record.resolution) {
+    case 'skip':
+      return `${record.path} already exists - kept yours`;
+    case 'overwrite':
+      return `${record.path} already exists - replaced it with the template's version`;
+    case 'keep-both':
+      return `${record.path} already exists - the template's version is in ${record.keptAs}`;
+    case 'merged':
+      return `${record.path} already exists - merged the template's settings into it`;
+    default:
+      return `${record.path} already exists - waiting for a decision`;
+  }
+}
+
+// A fresh clone only has .git, which should not count as content.
+export function isEmptyDirectory(dir: string): boolean {
+  return readdirSync(dir).every(entry => entry === '.git');
+}
+
+// README.md -> README.stackstart.md, .gitignore -> .gitignore.stackstart
+export function keepBothName(file: string): string {
+  const ext = path.extname(file);
+  const base = path.basename(file, ext);
+  return base ? path.join(path.dirname(file), `${base}.stackstart${ext}`) : `${file}.stackstart`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Objects are merged key by key and arrays are unioned. Where both sides have
+// a plain value the existing one wins: it is the user's file.
+export function mergeJson(existing: unknown, incoming: unknown): unknown {
+  if (isPlainObject(existing) && isPlainObject(incoming)) {
+    const merged: Record<string, unknown> = { ...existing };
+    for (const [key, value] of Object.entries(incoming)) {
+      merged[key] = Object.prototype.hasOwnProperty.call(existing, key) ? mergeJson(existing[key], value) : value;
+    }
+    return merged;
+  }
+  if (Array.isArray(existing) && Array.isArray(incoming)) {
+    const seen = new Set(existing.map(item => JSON.stringify(item)));
+    return [...existing, ...incoming.filter(item => !seen.has(JSON.stringify(item)))];
+  }
+  return existing;
+}
+
+// Sits in front of the real file system while scaffolding into a directory
+// that already has files. Files this run wrote itself are never conflicts.
+export class ConflictingFileSystem implements FileSystem {
+  readonly conflicts: ConflictRecord[] = [];
+  private written = new Set<string>();
+  private pending = new Map<string, { data: Buffer; mode?: number }>();
+  private redirects = new Map<string, string>();
+  private skipped = new Set<string>();
+
+  constructor(private base: FileSystem, private options: ConflictOptions) {}
+
+  exists(target: string): boolean {
+    return this.pending.has(path.resolve(target)) || this.base.exists(this.redirect(target));
+  }
+
+  isDirectory(target: string): boolean {
+    return this.base.isDirectory(target);
+  }
+
+  readdir(target: string): string[] {
+    return this.base.readdir(target);
+  }
+
+  readFile(target: string): Buffer {
+    const pending = this.pending.get(path.resolve(target));
+    return pending ? pending.data : this.base.readFile(this.redirect(target));
+  }
+
+  mkdir(target: string): void {
+    this.base.mkdir(target);
+  }
+
+  writeFile(target: string, data: string | Buffer, mode?: number): void {
+    const resolved = path.resolve(target);
+    const incoming = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8');
+    if (this.pending.has(resolved)) {
+      this.pending.set(resolved, { data: incoming, mode });
+      return;
+    }
+    // A decision holds for every later write to the same file.
+    if (this.skipped.has(resolved)) return;
+    if (this.written.has(resolved) || this.redirects.has(resolved) || !this.base.exists(resolved)) {
+      this.writeThrough(this.redirect(resolved), incoming, mode);
+      return;
+    }
+
+    const existing = this.base.readFile(resolved);
+    if (existing.equals(incoming)) {
+      this.written.add(resolved);
+      return;
+    }
+    if (this.options.mode === 'force') {
+      this.writeThrough(resolved, incoming, mode);
+      this.record({ path: this.relative(resolved), resolution: 'overwrite' });
+      return;
+    }
+    if (resolved.endsWith('.json')) {
+      try {
+        const merged = mergeJson(JSON.parse(existing.toString('utf8')), JSON.parse(incoming.toString('utf8')));
+        this.writeThrough(resolved, `${JSON.stringify(merged, null, 2)}\n`, mode);
+        this.record({ path: this.relative(resolved), resolution: 'merged' });
+        return;
+      } catch (err) {
+        // Not strict JSON (comments, trailing commas): handled like any other file.
+      }
+    }
+
+    if (this.options.policy === 'ask') {
+      this.pending.set(resolved, { data: incoming, mode });
+      this.record({ path: this.relative(resolved), resolution: 'pending' });
+    } else {
+      this.apply(resolved, this.options.policy, incoming, mode);
+    }
+  }
+
+  copyFile(source: string, target: string, mode?: number): void {
+    const resolved = path.resolve(target);
+    const free = this.written.has(resolved) || this.redirects.has(resolved) || !this.base.exists(resolved);
+    if (free && !this.pending.has(resolved) && !this.skipped.has(resolved)) {
+      const redirected = this.redirect(resolved);
+      this.base.copyFile(source, redirected, mode);
+      this.written.add(redirected);
+      return;
+    }
+    // Telling a conflict apart takes both files' bytes.
+    this.writeFile(target, readFileSync(source), mode);
+  }
+
+  get hasPending(): boolean {
+    return this.pending.size > 0;
+  }
+
+  // Asks about every conflict that was deferred by the `ask` policy.
+  async resolvePending(resolver: ConflictResolver): Promise<void> {
+    for (const [resolved, { data, mode }] of Array.from(this.pending.entries())) {
+      const choice = await resolver({ path: this.relative(resolved), existing: this.base.readFile(resolved), incoming: data });
+      this.pending.delete(resolved);
+      this.apply(resolved, choice, data, mode);
+    }
+  }
+
+  private apply(resolved: string, choice: ConflictChoice, data: Buffer, mode?: number): void {
+    const file = this.relative(resolved);
+    if (choice === 'overwrite') {
+      this.writeThrough(resolved, data, mode);
+    } else if (choice === 'keep-both') {
+      const kept = keepBothName(resolved);
+      this.redirects.set(resolved, kept);
+      this.writeThrough(kept, data, mode);
+      this.record({ path: file, resolution: choice, keptAs: this.relative(kept) });
+      return;
+    } else {
+      this.skipped.add(resolved);
+    }
+    this.record({ path: file, resolution: choice });
+  }
+
+  private writeThrough(target: string, data: string | Buffer, mode?: number): void {
+    this.base.writeFile(target, data, mode);
+    this.written.add(path.resolve(target));
+  }
+
+  private redirect(target: string): string {
+    const resolved = path.resolve(target);
+    return this.redirects.get(resolved) || resolved;
+  }
+
+  private relative(resolved: string): string {
+    return path.relative(this.options.root, resolved).split(path.sep).join('/');
+  }
+
+  private record(record: ConflictRecord): void {
+    const index = this.conflicts.findIndex(existing => existing.path === record.path);
+    if (index >= 0) {
+      this.conflicts[index] = record;
+    } else {
+      this.conflicts.push(record);
+    }
+    if (this.options.onResolved && record.resolution !== 'pending') this.options.onResolved(record);
+  }
+}
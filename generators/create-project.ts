@@ -0,0 +1,68 @@
+import { EventListener } from './events';
+import { generateScaffold, ScaffoldOptions, ScaffoldResult } from './scaffold';
+
+// What `create` uses for anything that was neither passed nor configured.
+export const CREATE_DEFAULTS = {
+  template: 'node',
+  deployTarget: 'vercel',
+  withDemo: false,
+  aiEnhanced: false
+};
+
+// Anything shaped like console, including console itself.
+export interface Logger {
+  debug?(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+export interface CreateProjectOptions extends Partial<Omit<ScaffoldOptions, 'here' | 'interactive'>> {
+  name: string;
+  // Receives one line per step, warning and, with debug, file and command.
+  logger?: Logger;
+}
+
+export type CreateProjectResult = ScaffoldResult;
+
+// Turns progress events into log lines.
+export function createLoggerListener(logger: Logger): EventListener {
+  return event => {
+    switch (event.type) {
+      case 'step-started':
+      case 'step-succeeded':
+        logger.info(event.message);
+        break;
+      case 'step-failed':
+        logger.error(event.error ? `${event.message}: ${event.error}` : event.message);
+        break;
+      case 'warning':
+        logger.warn(event.message);
+        break;
+      case 'file-written':
+        if (logger.debug) logger.debug(`${event.updated ? 'updated' : 'wrote'} ${event.path} (${event.bytes} bytes)`);
+        break;
+      case 'command-run':
+        if (logger.debug) logger.debug(`${event.dryRun ? 'would run' : 'running'} ${[event.command, ...event.args].join(' ')} in ${event.cwd}`);
+        break;
+    }
+  };
+}
+
+// Scaffolds a project for other tools: nothing is printed without a logger,
+// commands never take over the terminal, and failures are thrown rather than
+// ending the process. Unlike the CLI, a GitHub repository is only created
+// when createGithubRepo is set, whatever the environment says.
+export async function createProject(options: CreateProjectOptions): Promise<CreateProjectResult> {
+  const { name, logger, onEvent, ...rest } = options;
+  const listeners = [logger ? createLoggerListener(logger) : undefined, onEvent]
+    .filter((listener): listener is EventListener => Boolean(listener));
+
+  return generateScaffold(name, {
+    ...CREATE_DEFAULTS,
+    createGithubRepo: false,
+    ...rest,
+    interactive: false,
+    onEvent: event => listeners.forEach(listener => listener(event))
+  });
+}
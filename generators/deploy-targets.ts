@@ -0,0 +1,17 @@
+export interface DeployTarget {
+  name: string;
+  description: string;
+  // The file generateScaffold writes for this target.
+  configFile: string;
+}
+
+export const DEPLOY_TARGETS: DeployTarget[] = [
+  { name: 'vercel', description: 'Vercel serverless functions and static hosting', configFile: 'vercel.json' },
+  { name: 'netlify', description: 'Netlify builds, functions and redirects', configFile: 'netlify.toml' },
+  { name: 'aws', description: 'AWS Lambda through the Serverless Framework', configFile: 'serverless.yml' },
+  { name: 'gcp', description: 'Google App Engine standard environment', configFile: 'app.yaml' }
+];
+
+export function findDeployTarget(name: string): DeployTarget | undefined {
+  return DEPLOY_TARGETS.find(target => target.name === name);
+}
@@ -0,0 +1,166 @@
+export type DiffOp =
+  | { type: 'same'; line: string }
+  | { type: 'removed'; line: string }
+  | { type: 'added'; line: string };
+
+// Beyond this many lines on either side the LCS table gets too big to be
+// worth it for a conflict prompt; the whole file is shown as replaced.
+const MAX_DIFF_LINES = 4000;
+
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// A line diff from a longest-common-subsequence table. Plenty for the file
+// sizes a template produces.
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [...a.map(line => ({ type: 'removed' as const, line })), ...b.map(line => ({ type: 'added' as const, line }))];
+  }
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'same', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', line: a[i++] });
+    } else {
+      ops.push({ type: 'added', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', line: a[i++] });
+  while (j < b.length) ops.push({ type: 'added', line: b[j++] });
+  return ops;
+}
+
+// A unified diff with three lines of context around each change. `labels`
+// name where the old and the new version come from.
+export function formatUnifiedDiff(
+  file: string,
+  before: string,
+  after: string,
+  context = 3,
+  labels: [string, string] = ['existing', 'template']
+): string {
+  const ops = diffLines(before, after);
+  const lines = [`--- ${file} (${labels[0]})`, `+++ ${file} (${labels[1]})`];
+  const changed = ops.map(op => op.type !== 'same');
+  const visible = ops.map((_, index) =>
+    changed.slice(Math.max(0, index - context), index + context + 1).some(Boolean)
+  );
+
+  let oldLine = 1;
+  let newLine = 1;
+  let index = 0;
+  while (index < ops.length) {
+    if (!visible[index]) {
+      if (ops[index].type !== 'added') oldLine++;
+      if (ops[index].type !== 'removed') newLine++;
+      index++;
+      continue;
+    }
+    const hunk: string[] = [];
+    const oldStart = oldLine;
+    const newStart = newLine;
+    while (index < ops.length && visible[index]) {
+      const op = ops[index];
+      hunk.push(`${op.type === 'same' ? ' ' : op.type === 'removed' ? '-' : '+'}${op.line}`);
+      if (op.type !== 'added') oldLine++;
+      if (op.type !== 'removed') newLine++;
+      index++;
+    }
+    lines.push(`@@ -${oldStart},${oldLine - oldStart} +${newStart},${newLine - newStart} @@`, ...hunk);
+  }
+  return lines.join('\n');
+}
+
+export interface MergeResult {
+  text: string;
+  // Regions both sides changed differently, left between conflict markers.
+  conflicts: number;
+}
+
+// For each line of base, the line of other it survives as, if any.
+function matchLines(base: string, other: string): Array<number | undefined> {
+  const matches: Array<number | undefined> = [];
+  let i = 0;
+  let j = 0;
+  for (const op of diffLines(base, other)) {
+    if (op.type === 'same') {
+      matches[i++] = j++;
+    } else if (op.type === 'removed') {
+      matches[i++] = undefined;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+// A three-way line merge in the manner of diff3: lines of base kept by both
+// sides anchor the merge, and each region between anchors takes whichever
+// side changed it. Regions both sides changed differently become conflicts.
+export function mergeText(base: string, ours: string, theirs: string, labels: [string, string] = ['yours', 'template']): MergeResult {
+  const o = splitLines(base);
+  const a = splitLines(ours);
+  const b = splitLines(theirs);
+  const toOurs = matchLines(base, ours);
+  const toTheirs = matchLines(base, theirs);
+  const lines: string[] = [];
+  let conflicts = 0;
+
+  let i = 0;
+  let x = 0;
+  let y = 0;
+  while (i < o.length || x < a.length || y < b.length) {
+    let k = i;
+    while (k < o.length && (toOurs[k] === undefined || toTheirs[k] === undefined)) k++;
+    const xk = k < o.length ? toOurs[k] as number : a.length;
+    const yk = k < o.length ? toTheirs[k] as number : b.length;
+    if (k === i && xk === x && yk === y) {
+      lines.push(o[i]);
+      i++;
+      x++;
+      y++;
+      continue;
+    }
+
+    const baseChunk = o.slice(i, k);
+    const oursChunk = a.slice(x, xk);
+    const theirsChunk = b.slice(y, yk);
+    if (sameLines(oursChunk, baseChunk)) {
+      lines.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      lines.push(...oursChunk);
+    } else {
+      conflicts++;
+      lines.push(`<<<<<<< ${labels[0]}`, ...oursChunk, '=======', ...theirsChunk, `>>>>>>> ${labels[1]}`);
+    }
+    i = k;
+    x = xk;
+    y = yk;
+  }
+
+  const newline = (ours || theirs).endsWith('\n') && lines.length > 0 ? '\n' : '';
+  return { text: lines.join('\n') + newline, conflicts };
+}
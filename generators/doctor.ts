@@ -0,0 +1,70 @@
+import path from 'path';
+import { AIProjectAnalyzer, ENHANCEMENTS, ProjectStructure, STRUCTURE_LABELS } from './ai-enhancer';
+import { projectFlavor } from './add-enhancement';
+import { diskFileSystem } from './filesystem';
+import { readProjectManifest } from './project-manifest';
+
+export interface DoctorOptions {
+  // The project root; defaults to process.cwd().
+  cwd?: string;
+  // The project's flavor when it has no .stackstart.json to say so.
+  template?: string;
+}
+
+export interface DoctorCheck {
+  id: keyof ProjectStructure;
+  label: string;
+  passed: boolean;
+  // The file or dependency that satisfied the check.
+  evidence?: string;
+  // An enhancement that fills the gap: `stackstart add <fix>`.
+  fix?: string;
+}
+
+export interface DoctorReport {
+  projectRoot: string;
+  template: string;
+  // Only the checks that apply to this kind of project.
+  checks: DoctorCheck[];
+  // The share of checks passed, 0-100.
+  score: number;
+}
+
+// Checks that make no sense for a kind of project and do not count against it.
+const SKIPPED_CHECKS: Record<string, (keyof ProjectStructure)[]> = {
+  python: ['hasTypeScript'],
+  react: ['hasValidation', 'hasApiDocumentation']
+};
+
+// The enhancement for this kind of project that adds what a check looks for.
+export function enhancementFor(check: keyof ProjectStructure, template: string): string | undefined {
+  const enhancement = ENHANCEMENTS.find(candidate => candidate.skipWhen === check && (!candidate.templates || candidate.templates.includes(template)));
+  return enhancement && enhancement.id;
+}
+
+// Runs the analysis `create --ai-enhanced` uses on any project and scores it.
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorReport> {
+  const projectRoot = path.resolve(options.cwd || process.cwd());
+  if (!diskFileSystem.isDirectory(projectRoot)) {
+    throw new Error(`Project directory ${projectRoot} does not exist.`);
+  }
+  const template = projectFlavor(projectRoot, readProjectManifest(projectRoot), options.template);
+  const { structure, evidence } = await new AIProjectAnalyzer(projectRoot, template).analyze();
+  const skipped = SKIPPED_CHECKS[template] || [];
+
+  const checks: DoctorCheck[] = [];
+  for (const id of Object.keys(STRUCTURE_LABELS) as (keyof ProjectStructure)[]) {
+    if (skipped.includes(id)) continue;
+    const passed = structure[id];
+    const fix = passed ? undefined : enhancementFor(id, template);
+    checks.push({
+      id,
+      label: STRUCTURE_LABELS[id],
+      passed,
+      ...(evidence[id] ? { evidence: evidence[id] } : {}),
+      ...(fix ? { fix } : {})
+    });
+  }
+  const passed = checks.filter(check => check.passed).length;
+  return { projectRoot, template, checks, score: Math.round((passed / checks.length) * 100) };
+}
@@ -0,0 +1,16 @@
+// Progress reported by the generators. Nothing in generators/ prints; the CLI
+// decides whether events become spinners or NDJSON lines.
+export type ScaffoldEvent =
+  | { type: 'step-started'; step: string; message: string }
+  | { type: 'step-succeeded'; step: string; message: string }
+  | { type: 'step-failed'; step: string; message: string; error?: string }
+  // `path` is relative to the project root; `updated` is set when the file
+  // already existed, e.g. package.json gaining a license field.
+  | { type: 'file-written'; path: string; bytes: number; updated: boolean }
+  // Emitted before the command starts. In a dry run it is only recorded.
+  | { type: 'command-run'; cwd: string; command: string; args: string[]; dryRun: boolean }
+  | { type: 'warning'; message: string };
+
+export type EventListener = (event: ScaffoldEvent) => void;
+
+export const ignoreEvents: EventListener = () => undefined;
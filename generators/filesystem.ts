@@ -0,0 +1,141 @@
+import path from 'path';
+import {
+  chmodSync,
+  copyFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync
+} from 'fs';
+
+// Everything the generators need to create a project. Templates are only ever
+// read, so implementations may serve reads from disk while keeping writes
+// elsewhere.
+export interface FileSystem {
+  exists(target: string): boolean;
+  isDirectory(target: string): boolean;
+  readdir(target: string): string[];
+  readFile(target: string): Buffer;
+  writeFile(target: string, data: string | Buffer, mode?: number): void;
+  // Copies a file from disk as-is. Writing to disk, the bytes never pass
+  // through memory, so large binaries cost nothing to copy.
+  copyFile(source: string, target: string, mode?: number): void;
+  // Always recursive.
+  mkdir(target: string): void;
+}
+
+export const diskFileSystem: FileSystem = {
+  exists: target => existsSync(target),
+  isDirectory: target => existsSync(target) && lstatSync(target).isDirectory(),
+  readdir: target => readdirSync(target),
+  readFile: target => readFileSync(target),
+  writeFile: (target, data, mode) => {
+    writeFileSync(target, data);
+    if (mode !== undefined) chmodSync(target, mode);
+  },
+  copyFile: (source, target, mode) => {
+    copyFileSync(source, target);
+    if (mode !== undefined) chmodSync(target, mode);
+  },
+  mkdir: target => {
+    mkdirSync(target, { recursive: true });
+  }
+};
+
+export function readText(fs: FileSystem, target: string): string {
+  return fs.readFile(target).toString('utf8');
+}
+
+export interface MemoryFile {
+  path: string;
+  data: Buffer;
+  mode?: number;
+}
+
+// Keeps every write in memory. Paths that were never written are read from
+// disk, which is how templates are still found during a dry run.
+export class MemoryFileSystem implements FileSystem {
+  private files = new Map<string, MemoryFile>();
+  private directories = new Set<string>();
+
+  exists(target: string): boolean {
+    const resolved = path.resolve(target);
+    return this.files.has(resolved) || this.directories.has(resolved) || existsSync(resolved);
+  }
+
+  isDirectory(target: string): boolean {
+    const resolved = path.resolve(target);
+    if (this.directories.has(resolved)) return true;
+    if (this.files.has(resolved)) return false;
+    return existsSync(resolved) && lstatSync(resolved).isDirectory();
+  }
+
+  readdir(target: string): string[] {
+    const resolved = path.resolve(target);
+    const entries = new Set<string>();
+    for (const entry of [...this.files.keys(), ...this.directories]) {
+      if (path.dirname(entry) === resolved) entries.add(path.basename(entry));
+    }
+    if (existsSync(resolved) && lstatSync(resolved).isDirectory()) {
+      readdirSync(resolved).forEach(entry => entries.add(entry));
+    }
+    if (entries.size === 0 && !this.isDirectory(resolved)) {
+      throw new Error(`ENOENT: no such directory, scandir '${target}'`);
+    }
+    return Array.from(entries).sort();
+  }
+
+  readFile(target: string): Buffer {
+    const file = this.files.get(path.resolve(target));
+    if (file) return file.data;
+    return readFileSync(target);
+  }
+
+  writeFile(target: string, data: string | Buffer, mode?: number): void {
+    const resolved = path.resolve(target);
+    this.mkdir(path.dirname(resolved));
+    this.files.set(resolved, { path: resolved, data: Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8'), mode });
+  }
+
+  copyFile(source: string, target: string, mode?: number): void {
+    this.writeFile(target, this.readFile(source), mode);
+  }
+
+  mkdir(target: string): void {
+    let current = path.resolve(target);
+    while (!this.directories.has(current) && path.dirname(current) !== current) {
+      this.directories.add(current);
+      current = path.dirname(current);
+    }
+  }
+
+  // Files written under root, sorted by path.
+  list(root: string): MemoryFile[] {
+    const resolved = path.resolve(root);
+    return Array.from(this.files.values())
+      .filter(file => file.path.startsWith(resolved + path.sep))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+}
+
+// Wraps a file system and reports every file written through it, with its size.
+export function recordWrites(fs: FileSystem, onWrite: (target: string, bytes: number) => void): FileSystem {
+  return {
+    exists: target => fs.exists(target),
+    isDirectory: target => fs.isDirectory(target),
+    readdir: target => fs.readdir(target),
+    readFile: target => fs.readFile(target),
+    writeFile: (target, data, mode) => {
+      fs.writeFile(target, data, mode);
+      onWrite(path.resolve(target), Buffer.byteLength(data));
+    },
+    copyFile: (source, target, mode) => {
+      fs.copyFile(source, target, mode);
+      onWrite(path.resolve(target), statSync(source).size);
+    },
+    mkdir: target => fs.mkdir(target)
+  };
+}
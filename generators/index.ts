@@ -1 +1,11 @@
-export * from './scaffold'; 
\ No newline at end of file
+// The package entry point for using stackstart as a library.
+export * from './create-project';
+export * from './scaffold';
+export * from './events';
+export * from './filesystem';
+export * from './project-manifest';
+export * from './add-enhancement';
+export * from './upgrade';
+export * from './doctor';
+export * from './policy';
+export { catalogEnhancements, catalogTargets, catalogTemplates } from './catalog';
@@ -0,0 +1,56 @@
+import { DEPLOY_TARGETS, findDeployTarget } from './deploy-targets';
+import { findLicense, LICENSES } from './licenses';
+import { ENHANCEMENTS } from './ai-enhancer';
+import { JS_PACKAGE_MANAGERS } from './package-managers';
+import { TemplateManifest } from './template-manifest';
+import { didYouMean } from './suggest';
+
+// The create options that name something from a fixed registry.
+export interface CreateChoices {
+  deployTarget?: string;
+  license?: string;
+  packageManager?: string;
+  enhancements?: string[];
+}
+
+function unknown(kind: string, value: string, known: string[]): string {
+  return `Unknown ${kind} '${value}'.${didYouMean(value, known)} Choose one of: ${known.join(', ')}`;
+}
+
+// Everything wrong with the chosen options. Without a manifest only the names
+// are checked; with one, also whether the template supports them.
+export function createOptionProblems(options: CreateChoices, manifest?: TemplateManifest): string[] {
+  const problems: string[] = [];
+  const { deployTarget, license, packageManager, enhancements } = options;
+
+  if (deployTarget !== undefined) {
+    if (!findDeployTarget(deployTarget)) {
+      problems.push(unknown('deploy target', deployTarget, DEPLOY_TARGETS.map(target => target.name)));
+    } else if (manifest && !manifest.deployTargets.includes(deployTarget)) {
+      problems.push(
+        `Template '${manifest.name}' does not support deploy target '${deployTarget}'. ` +
+        (manifest.deployTargets.length > 0 ? `It supports: ${manifest.deployTargets.join(', ')}` : 'It has no deploy targets.')
+      );
+    }
+  }
+  if (license !== undefined && !findLicense(license)) {
+    problems.push(unknown('license', license, LICENSES.map(known => known.id)));
+  }
+  // pip templates ignore the package manager, so any name is only checked for JavaScript.
+  if (packageManager !== undefined && (!manifest || manifest.language === 'javascript') && !JS_PACKAGE_MANAGERS.includes(packageManager)) {
+    problems.push(unknown('package manager', packageManager, JS_PACKAGE_MANAGERS));
+  }
+  for (const id of enhancements || []) {
+    if (!ENHANCEMENTS.some(enhancement => enhancement.id === id)) {
+      problems.push(unknown('enhancement', id, ENHANCEMENTS.map(enhancement => enhancement.id)));
+    }
+  }
+  return problems;
+}
+
+export function validateCreateOptions(options: CreateChoices, manifest?: TemplateManifest): void {
+  const problems = createOptionProblems(options, manifest);
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+}
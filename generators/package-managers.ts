@@ -0,0 +1,109 @@
+import path from 'path';
+import { diskFileSystem, FileSystem, readText } from './filesystem';
+
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+// How each JavaScript package manager spells the commands a project needs.
+export interface PackageManager {
+  name: PackageManagerName;
+  lockfile: string;
+  install: string;
+  // Installs exactly what the lockfile says and fails if it is out of date.
+  ciInstall: string;
+  // Prefix for running a package.json script: `${run} build`.
+  run: string;
+  test: string;
+  // actions/setup-node's cache option; bun caches on its own.
+  nodeCache?: string;
+  // A step before actions/setup-node that puts the package manager on the runner.
+  ciSetup?: { name: string; uses: string; with?: Record<string, string> };
+  // Where the workspace list lives: package.json "workspaces" or pnpm-workspace.yaml.
+  workspaces: 'package.json' | 'pnpm-workspace.yaml';
+  dependabotEcosystem: string;
+}
+
+export const PACKAGE_MANAGERS: PackageManager[] = [
+  {
+    name: 'npm',
+    lockfile: 'package-lock.json',
+    install: 'npm install',
+    ciInstall: 'npm ci',
+    run: 'npm run',
+    test: 'npm test',
+    nodeCache: 'npm',
+    workspaces: 'package.json',
+    dependabotEcosystem: 'npm'
+  },
+  {
+    name: 'pnpm',
+    lockfile: 'pnpm-lock.yaml',
+    install: 'pnpm install',
+    ciInstall: 'pnpm install --frozen-lockfile',
+    run: 'pnpm run',
+    test: 'pnpm test',
+    nodeCache: 'pnpm',
+    ciSetup: { name: 'Setup pnpm', uses: 'pnpm/action-setup@v4', with: { version: '9' } },
+    workspaces: 'pnpm-workspace.yaml',
+    dependabotEcosystem: 'npm'
+  },
+  {
+    name: 'yarn',
+    lockfile: 'yarn.lock',
+    install: 'yarn install',
+    ciInstall: 'yarn install --frozen-lockfile',
+    run: 'yarn run',
+    test: 'yarn test',
+    nodeCache: 'yarn',
+    workspaces: 'package.json',
+    dependabotEcosystem: 'npm'
+  },
+  {
+    name: 'bun',
+    lockfile: 'bun.lock',
+    install: 'bun install',
+    ciInstall: 'bun install --frozen-lockfile',
+    // `bun test` is bun's own test runner, not the "test" script.
+    run: 'bun run',
+    test: 'bun run test',
+    ciSetup: { name: 'Setup Bun', uses: 'oven-sh/setup-bun@v2' },
+    workspaces: 'package.json',
+    dependabotEcosystem: 'bun'
+  }
+];
+
+export const JS_PACKAGE_MANAGERS: string[] = PACKAGE_MANAGERS.map(manager => manager.name);
+
+export function findPackageManager(name: string): PackageManager | undefined {
+  return PACKAGE_MANAGERS.find(manager => manager.name === name);
+}
+
+// npm, pnpm, yarn and bun all set npm_config_user_agent for the scripts and
+// binaries they run, e.g. `pnpm/9.1.0 npm/? node/v20.11.0 linux x64`.
+export function detectPackageManager(userAgent: string | undefined = process.env.npm_config_user_agent): PackageManagerName | undefined {
+  const name = (userAgent || '').split('/')[0];
+  return findPackageManager(name) ? name as PackageManagerName : undefined;
+}
+
+// The package manager an existing project is set up with: package.json's
+// "packageManager" field, else the lockfile it has.
+export function projectPackageManager(dir: string, fs: FileSystem = diskFileSystem): PackageManager | undefined {
+  const packageJsonPath = path.join(dir, 'package.json');
+  if (fs.exists(packageJsonPath)) {
+    const declared = JSON.parse(readText(fs, packageJsonPath)).packageManager;
+    const manager = typeof declared === 'string' ? findPackageManager(declared.split('@')[0]) : undefined;
+    if (manager) return manager;
+  }
+  return PACKAGE_MANAGERS.find(manager => fs.exists(path.join(dir, manager.lockfile)));
+}
+
+// Rewrites a template command such as `npm run build` for another package
+// manager. Commands that do not start with the package manager are kept.
+export function translateCommand(command: string, from: PackageManager, to: PackageManager): string {
+  if (from.name === to.name) return command;
+  if (command === from.install) return to.install;
+  if (command === from.test) return to.test;
+  if (command.startsWith(`${from.run} `)) return `${to.run} ${command.slice(from.run.length + 1)}`;
+  // `npm start` and friends are scripts too.
+  if (command.startsWith(`${from.name} `)) return `${to.run} ${command.slice(from.name.length + 1)}`;
+  return command;
+}
@@ -0,0 +1,226 @@
+import path from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { AIProjectAnalyzer, ProjectStructure, STRUCTURE_LABELS } from './ai-enhancer';
+import { projectFlavor } from './add-enhancement';
+import { enhancementFor } from './doctor';
+import { diskFileSystem } from './filesystem';
+import { readProjectManifest, STACKSTART_VERSION } from './project-manifest';
+import { didYouMean } from './suggest';
+
+// Looked up from the project towards the filesystem root, like the config.
+export const POLICY_FILE = 'stackstart-policy.json';
+
+export const POLICY_RULES = ['required', 'forbidden', 'recommended'] as const;
+
+export type PolicyRule = typeof POLICY_RULES[number];
+
+// The analyzer checks a policy can name. Anything else is written as
+// dependency:<name> or file:<path>.
+export const POLICY_CAPABILITIES: Record<string, keyof ProjectStructure> = {
+  tests: 'hasTests',
+  linting: 'hasLinting',
+  formatting: 'hasFormatting',
+  typescript: 'hasTypeScript',
+  documentation: 'hasDocumentation',
+  'error-handling': 'hasErrorHandling',
+  'env-config': 'hasEnvironmentConfig',
+  logging: 'hasLogging',
+  validation: 'hasValidation',
+  'api-docs': 'hasApiDocumentation',
+  codeql: 'hasCodeQL'
+};
+
+export type PolicyRules = Partial<Record<PolicyRule, string[]>>;
+
+export interface Policy {
+  file: string;
+  // Rules by template name or flavor; '*' applies to every project.
+  templates: Record<string, PolicyRules>;
+}
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  capability: string;
+  // Broken required and forbidden rules are errors, missed recommendations warnings.
+  level: 'error' | 'warning';
+  message: string;
+  // The project file the violation is about, when there is one.
+  file?: string;
+  // An enhancement that fixes it: `stackstart add <fix>`.
+  fix?: string;
+}
+
+export interface PolicyReport {
+  projectRoot: string;
+  template: string;
+  policy: string;
+  // The sections of the policy that applied, '*' first.
+  sections: string[];
+  violations: PolicyViolation[];
+  errors: number;
+}
+
+export interface PolicyCheckOptions {
+  // The project root; defaults to process.cwd().
+  cwd?: string;
+  // The project's flavor when it has no .stackstart.json to say so.
+  template?: string;
+}
+
+interface Finding {
+  present: boolean;
+  description: string;
+  evidence?: string;
+  file?: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function capabilityProblem(capability: string): string | undefined {
+  const [kind, ...rest] = capability.split(':');
+  if (rest.length > 0 && (kind === 'dependency' || kind === 'file')) {
+    return rest.join(':') ? undefined : `'${capability}' needs a ${kind === 'dependency' ? 'package name' : 'path'} after the colon`;
+  }
+  if (POLICY_CAPABILITIES[capability]) return undefined;
+  const known = Object.keys(POLICY_CAPABILITIES);
+  return `unknown capability '${capability}'.${didYouMean(capability, known)} Use one of: ${known.join(', ')}, dependency:<name> or file:<path>`;
+}
+
+export function readPolicy(file: string): Policy {
+  const invalid = (reason: string) => new Error(`Invalid stackstart policy at ${file}: ${reason}`);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw invalid((err as Error).message);
+  }
+  if (!isObject(raw) || !isObject(raw.templates)) throw invalid('expected an object with "templates"');
+
+  const templates: Record<string, PolicyRules> = {};
+  for (const [name, rules] of Object.entries(raw.templates)) {
+    if (!isObject(rules)) throw invalid(`"${name}" must be an object`);
+    for (const key of Object.keys(rules)) {
+      if (!(POLICY_RULES as readonly string[]).includes(key)) {
+        throw invalid(`"${name}": unknown rule "${key}".${didYouMean(key, [...POLICY_RULES])} Use ${POLICY_RULES.join(', ')}`);
+      }
+    }
+    templates[name] = {};
+    for (const rule of POLICY_RULES) {
+      const capabilities = rules[rule];
+      if (capabilities === undefined) continue;
+      if (!Array.isArray(capabilities) || capabilities.some(capability => typeof capability !== 'string')) {
+        throw invalid(`"${name}"."${rule}" must be an array of capabilities`);
+      }
+      for (const capability of capabilities as string[]) {
+        const problem = capabilityProblem(capability);
+        if (problem) throw invalid(`"${name}"."${rule}": ${problem}`);
+      }
+      templates[name][rule] = capabilities as string[];
+    }
+  }
+  return { file: path.resolve(file), templates };
+}
+
+// The nearest stackstart-policy.json, else the one the config points at.
+export function findPolicy(cwd: string = process.cwd(), configured?: string): string | undefined {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(dir, POLICY_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir) return configured;
+    dir = parent;
+  }
+}
+
+// Checks a project against the sections of a policy for its flavor and,
+// for projects from a custom template, that template's name.
+export async function checkPolicy(policy: Policy, options: PolicyCheckOptions = {}): Promise<PolicyReport> {
+  const projectRoot = path.resolve(options.cwd || process.cwd());
+  if (!diskFileSystem.isDirectory(projectRoot)) {
+    throw new Error(`Project directory ${projectRoot} does not exist.`);
+  }
+  const manifest = readProjectManifest(projectRoot);
+  const template = projectFlavor(projectRoot, manifest, options.template);
+  const names = ['*', template, ...(manifest ? [manifest.template.name] : [])];
+  const sections = Array.from(new Set(names)).filter(name => policy.templates[name]);
+  const analysis = await new AIProjectAnalyzer(projectRoot, template).analyze();
+
+  const inspect = (capability: string): Finding => {
+    if (capability.startsWith('dependency:')) {
+      const name = capability.slice('dependency:'.length);
+      const file = analysis.dependencyFiles[name];
+      if (!file) return { present: false, description: name };
+      const source = file === 'package.json' ? analysis.dependencySources[name] : file;
+      return { present: true, description: name, evidence: `${name} in ${source}`, file };
+    }
+    if (capability.startsWith('file:')) {
+      const file = capability.slice('file:'.length);
+      const present = diskFileSystem.exists(path.join(projectRoot, file));
+      return { present, description: file, ...(present ? { file } : {}) };
+    }
+    const check = POLICY_CAPABILITIES[capability];
+    return { present: analysis.structure[check], description: STRUCTURE_LABELS[check], evidence: analysis.evidence[check] };
+  };
+
+  const violations: PolicyViolation[] = [];
+  for (const rule of POLICY_RULES) {
+    const capabilities = Array.from(new Set(sections.flatMap(section => policy.templates[section][rule] || [])));
+    for (const capability of capabilities) {
+      const finding = inspect(capability);
+      if (finding.present === (rule === 'forbidden')) {
+        const found = finding.evidence && finding.evidence !== finding.description ? ` (${finding.evidence})` : '';
+        const fix = rule !== 'forbidden' && POLICY_CAPABILITIES[capability] ? enhancementFor(POLICY_CAPABILITIES[capability], template) : undefined;
+        violations.push({
+          rule,
+          capability,
+          level: rule === 'recommended' ? 'warning' : 'error',
+          message: rule === 'forbidden' ? `${finding.description} is forbidden${found}` : `${finding.description} is ${rule} but missing`,
+          ...(finding.file ? { file: finding.file } : {}),
+          ...(fix ? { fix } : {})
+        });
+      }
+    }
+  }
+
+  return {
+    projectRoot,
+    template,
+    policy: policy.file,
+    sections,
+    violations,
+    errors: violations.filter(violation => violation.level === 'error').length
+  };
+}
+
+// The report as a SARIF 2.1.0 log, for code scanning dashboards. Each rule
+// and capability pair is a SARIF rule; locations are project-relative.
+export function policySarif(report: PolicyReport): Record<string, unknown> {
+  const ruleId = (violation: PolicyViolation) => `${violation.rule}:${violation.capability}`;
+  const rules = new Map<string, Record<string, unknown>>();
+  for (const violation of report.violations) {
+    if (rules.has(ruleId(violation))) continue;
+    rules.set(ruleId(violation), {
+      id: ruleId(violation),
+      shortDescription: { text: `${violation.capability} is ${violation.rule} by ${path.basename(report.policy)}` },
+      defaultConfiguration: { level: violation.level }
+    });
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'stackstart', version: STACKSTART_VERSION, rules: Array.from(rules.values()) } },
+      results: report.violations.map(violation => ({
+        ruleId: ruleId(violation),
+        level: violation.level,
+        message: { text: violation.fix ? `${violation.message}. Run \`stackstart add ${violation.fix}\` to fix it.` : `${violation.message}.` },
+        ...(violation.file ? { locations: [{ physicalLocation: { artifactLocation: { uri: violation.file } } }] } : {})
+      }))
+    }]
+  };
+}
@@ -0,0 +1,154 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { diskFileSystem, FileSystem, readText } from './filesystem';
+import { Template, TemplateOrigin, TemplateSource } from './template-manifest';
+// eslint-disable-next-line @typescript-eslint/consistent-type-imports
+import pkg from '../package.json';
+
+export const PROJECT_MANIFEST_FILE = '.stackstart.json';
+
+// Bumped when the shape of .stackstart.json changes incompatibly.
+export const PROJECT_MANIFEST_VERSION = 1;
+
+export const STACKSTART_VERSION: string = pkg.version;
+
+// The create options that shape the generated files, which is what a later
+// command needs to render the same project again.
+export interface RecordedOptions {
+  deployTarget: string;
+  withDemo: boolean;
+  aiEnhanced: boolean;
+  license?: string;
+  packageManager?: string;
+  author?: string;
+  answers?: Record<string, unknown>;
+}
+
+export interface RecordedTemplate {
+  // The template as it was asked for: a name, a path or a URL.
+  spec: string;
+  name: string;
+  source: TemplateSource;
+  // The manifest's own version; bundled templates are versioned with stackstart.
+  version?: string;
+  // Set when the template was fetched from git or an archive.
+  origin?: TemplateOrigin;
+}
+
+export interface ProjectManifest {
+  manifestVersion: number;
+  // The stackstart that last wrote this file.
+  stackstartVersion: string;
+  createdAt: string;
+  updatedAt: string;
+  projectName: string;
+  template: RecordedTemplate;
+  options: RecordedOptions;
+  // Enhancement ids that have been applied, in order.
+  enhancements: string[];
+  // sha256 of every file stackstart wrote, by project-relative path with
+  // forward slashes, as it was right after stackstart wrote it.
+  files: Record<string, string>;
+}
+
+export interface FileChanges {
+  unchanged: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+export function hashContent(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export function recordTemplate(spec: string, template: Template): RecordedTemplate {
+  const version = template.manifest.version || (template.source === 'bundled' ? STACKSTART_VERSION : undefined);
+  return {
+    spec,
+    name: template.manifest.name,
+    source: template.source,
+    ...(version ? { version } : {}),
+    ...(template.origin ? { origin: template.origin } : {})
+  };
+}
+
+// Hashes of the given project-relative files as they are now; files that
+// no longer exist are left out.
+export function hashFiles(projectRoot: string, files: string[], fs: FileSystem = diskFileSystem): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const file of [...files].sort()) {
+    if (file === PROJECT_MANIFEST_FILE) continue;
+    const fullPath = path.join(projectRoot, file);
+    if (fs.exists(fullPath) && !fs.isDirectory(fullPath)) {
+      hashes[file] = hashContent(fs.readFile(fullPath));
+    }
+  }
+  return hashes;
+}
+
+// The manifest in projectRoot, or undefined when the project was not made by stackstart.
+export function readProjectManifest(projectRoot: string, fs: FileSystem = diskFileSystem): ProjectManifest | undefined {
+  const manifestPath = path.join(projectRoot, PROJECT_MANIFEST_FILE);
+  if (!fs.exists(manifestPath)) return undefined;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readText(fs, manifestPath));
+  } catch (err) {
+    throw new Error(`Invalid ${PROJECT_MANIFEST_FILE} at ${manifestPath}: ${(err as Error).message}`);
+  }
+  if (!raw || typeof raw !== 'object' || !raw.template || !raw.options) {
+    throw new Error(`Invalid ${PROJECT_MANIFEST_FILE} at ${manifestPath}: "template" and "options" are required`);
+  }
+  if (raw.manifestVersion > PROJECT_MANIFEST_VERSION) {
+    throw new Error(`${manifestPath} was written by a newer stackstart (${raw.stackstartVersion}). Upgrade stackstart to use it.`);
+  }
+  return {
+    ...raw,
+    enhancements: Array.isArray(raw.enhancements) ? raw.enhancements : [],
+    files: raw.files && typeof raw.files === 'object' ? raw.files : {}
+  };
+}
+
+export function writeProjectManifest(projectRoot: string, manifest: ProjectManifest, fs: FileSystem = diskFileSystem): void {
+  fs.writeFile(path.join(projectRoot, PROJECT_MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+// Reads the manifest, lets `change` edit it and writes it back stamped with
+// this stackstart. Every command that touches a generated project goes
+// through here, so the manifest always reflects the last run.
+export function updateProjectManifest(
+  projectRoot: string,
+  change: (manifest: ProjectManifest) => ProjectManifest,
+  fs: FileSystem = diskFileSystem
+): ProjectManifest {
+  const existing = readProjectManifest(projectRoot, fs);
+  if (!existing) {
+    throw new Error(`No ${PROJECT_MANIFEST_FILE} in ${projectRoot}. Was it created with stackstart?`);
+  }
+  const updated = {
+    ...change(existing),
+    manifestVersion: PROJECT_MANIFEST_VERSION,
+    stackstartVersion: STACKSTART_VERSION,
+    updatedAt: new Date().toISOString()
+  };
+  writeProjectManifest(projectRoot, updated, fs);
+  return updated;
+}
+
+// Compares the recorded hashes with the files on disk, telling apart the
+// generated files users have edited from the ones still as generated.
+export function fileChanges(projectRoot: string, manifest: ProjectManifest, fs: FileSystem = diskFileSystem): FileChanges {
+  const changes: FileChanges = { unchanged: [], modified: [], deleted: [] };
+  for (const [file, hash] of Object.entries(manifest.files)) {
+    const fullPath = path.join(projectRoot, file);
+    if (!fs.exists(fullPath)) {
+      changes.deleted.push(file);
+    } else if (hashContent(fs.readFile(fullPath)) !== hash) {
+      changes.modified.push(file);
+    } else {
+      changes.unchanged.push(file);
+    }
+  }
+  return changes;
+}
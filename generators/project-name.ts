@@ -0,0 +1,116 @@
+import { FILTERS } from './template-engine';
+import { TemplateLanguage } from './template-manifest';
+
+// The spellings of a project name that different ecosystems need. All of
+// them are template placeholders next to {{projectName}}.
+export interface ProjectNames {
+  // As typed on the command line.
+  projectName: string;
+  // package.json "name"; keeps an npm scope.
+  npmName: string;
+  // The directory the project is created in; the npm scope is dropped.
+  directoryName: string;
+  // An importable Python package name.
+  pythonModule: string;
+  // For headings and page titles.
+  projectTitle: string;
+  // A DNS label, for serverless services, container names and hostnames.
+  serviceName: string;
+}
+
+const SCOPED_NAME = /^@([^/]+)\/([^/]+)$/;
+const NPM_NAME_CHARS = /^[a-z0-9._~-]+$/;
+const NPM_MAX_LENGTH = 214;
+const NPM_RESERVED = ['node_modules', 'favicon.ico'];
+// PEP 508 names: letters, digits, . _ - and starting and ending alphanumeric.
+const PYPI_NAME = /^([A-Z0-9]|[A-Z0-9][A-Z0-9._-]*[A-Z0-9])$/i;
+const DIRECTORY_FORBIDDEN = /[<>:"/\\|?*\u0000-\u001f]/;
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+const DNS_LABEL_MAX_LENGTH = 63;
+const FALLBACK_NAME = 'my-app';
+
+function unscoped(name: string): string {
+  const scoped = SCOPED_NAME.exec(name);
+  return scoped ? scoped[2] : name;
+}
+
+function npmProblems(name: string): string[] {
+  const problems: string[] = [];
+  if (name.length > NPM_MAX_LENGTH) problems.push(`npm names can be at most ${NPM_MAX_LENGTH} characters`);
+  if (name !== name.toLowerCase()) problems.push('npm names must be lowercase');
+  if (/\s/.test(name)) problems.push('npm names cannot contain spaces');
+  if (NPM_RESERVED.includes(name)) problems.push(`'${name}' is reserved by npm`);
+
+  const scoped = SCOPED_NAME.exec(name);
+  if (!scoped && name.includes('/')) {
+    problems.push('npm names can only contain a slash after an @scope');
+    return problems;
+  }
+  const parts = scoped ? [scoped[1], scoped[2]] : [name];
+  if (/^[._]/.test(parts[parts.length - 1])) problems.push('npm names cannot start with . or _');
+  // Spaces and capitals are already reported above.
+  if (parts.some(part => !NPM_NAME_CHARS.test(part.toLowerCase().replace(/\s/g, '')))) {
+    problems.push('npm names can only contain letters, digits, - . _ and ~');
+  }
+  return problems;
+}
+
+function pypiProblems(name: string): string[] {
+  return PYPI_NAME.test(name)
+    ? []
+    : ['PyPI names can only contain letters, digits, - . and _, and must start and end with a letter or digit'];
+}
+
+function directoryProblems(directory: string): string[] {
+  const problems: string[] = [];
+  if (directory === '.' || directory === '..') problems.push(`'${directory}' is not a usable directory name`);
+  if (DIRECTORY_FORBIDDEN.test(directory)) problems.push('directory names cannot contain < > : " / \\ | ? * or control characters');
+  if (WINDOWS_RESERVED.test(directory)) problems.push(`'${directory}' is a reserved file name on Windows`);
+  if (/[. ]$/.test(directory)) problems.push('directory names cannot end with a dot or a space');
+  return problems;
+}
+
+// Everything wrong with a project name for the given languages. npm rules
+// apply to JavaScript, PyPI rules to Python, directory rules always.
+export function projectNameProblems(name: string, languages: TemplateLanguage[]): string[] {
+  if (!name.trim()) return ['the project name cannot be empty'];
+  return [
+    ...(languages.includes('javascript') ? npmProblems(name) : []),
+    ...(languages.includes('python') ? pypiProblems(name) : []),
+    ...directoryProblems(unscoped(name))
+  ];
+}
+
+// A close name that passes every check. npm scopes are kept unless the
+// project also needs a PyPI name, which cannot have one.
+export function suggestProjectName(name: string, languages: TemplateLanguage[]): string {
+  const scoped = SCOPED_NAME.exec(name.trim());
+  if (scoped && !languages.includes('python')) {
+    return `@${FILTERS.kebab(scoped[1]) || 'scope'}/${FILTERS.kebab(scoped[2]) || FALLBACK_NAME}`;
+  }
+  return FILTERS.kebab(name) || FALLBACK_NAME;
+}
+
+export function validateProjectName(name: string, languages: TemplateLanguage[]): void {
+  const problems = projectNameProblems(name, languages);
+  if (problems.length > 0) {
+    throw new Error(`Invalid project name '${name}': ${problems.join('; ')}. Try '${suggestProjectName(name, languages)}'.`);
+  }
+}
+
+export function deriveProjectNames(projectName: string): ProjectNames {
+  const base = unscoped(projectName);
+  const kebab = FILTERS.kebab(base) || FALLBACK_NAME;
+  const snake = FILTERS.snake(base) || FILTERS.snake(FALLBACK_NAME);
+  const dnsLabel = kebab.slice(0, DNS_LABEL_MAX_LENGTH).replace(/-+$/, '');
+
+  return {
+    projectName,
+    npmName: npmProblems(projectName).length === 0 ? projectName : suggestProjectName(projectName, ['javascript']),
+    directoryName: directoryProblems(base).length === 0 ? base : kebab,
+    // Python identifiers and DNS labels cannot start with a digit.
+    pythonModule: /^[0-9]/.test(snake) ? `app_${snake}` : snake,
+    projectTitle: FILTERS.title(base) || FILTERS.title(FALLBACK_NAME),
+    serviceName: /^[0-9]/.test(dnsLabel) ? `svc-${dnsLabel}`.slice(0, DNS_LABEL_MAX_LENGTH) : dnsLabel
+  };
+}
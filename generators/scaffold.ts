@@ -1,96 +1,308 @@
 import path from 'path';
-import {
-  mkdirSync,
-  existsSync,
-  readdirSync,
-  lstatSync,
-  copyFileSync,
-  chmodSync,
-  writeFileSync,
-  readFileSync
-} from 'fs';
 import execa from 'execa';
-import ora from 'ora';
-import chalk from 'chalk';
 import simpleGit from 'simple-git';
 import { enhanceWithAI } from './ai-enhancer';
+import {
+  templateCopyRules,
+  variableDefaults,
+  Template,
+  TemplateLanguage,
+  TemplateManifest,
+  TemplateOrigin
+} from './template-manifest';
+import { fetchTemplate, formatTemplateOrigin } from './template-sources';
+import { TemplateContext } from './template-engine';
+import { copyTemplateFiles } from './template-files';
+import { validateCreateOptions } from './options';
+import { findLicense, LICENSES } from './licenses';
+import { findPackageManager, PACKAGE_MANAGERS, PackageManager, translateCommand } from './package-managers';
+import { apiMount, describeMounts, Mount, mountContext, resolveMounts } from './template-composition';
+import { diskFileSystem, FileSystem, MemoryFileSystem, readText, recordWrites } from './filesystem';
+import { EventListener, ignoreEvents } from './events';
+import { journalDirectory, stageDirectory } from './transaction';
+import { checkPolicy, findPolicy, Policy, PolicyReport, readPolicy } from './policy';
+import {
+  hashFiles,
+  PROJECT_MANIFEST_VERSION,
+  ProjectManifest,
+  recordTemplate,
+  RecordedOptions,
+  STACKSTART_VERSION,
+  writeProjectManifest
+} from './project-manifest';
+import { deriveProjectNames, ProjectNames, validateProjectName } from './project-name';
+import {
+  ConflictingFileSystem,
+  ConflictPolicy,
+  ConflictRecord,
+  ConflictResolver,
+  describeConflict,
+  ExistingDirectoryMode,
+  isEmptyDirectory
+} from './conflicts';
 
 export interface ScaffoldOptions {
   template: string;
   aiEnhanced: boolean;
   deployTarget: string;
   withDemo: boolean;
+  answers?: Record<string, unknown>;
+  // SPDX id of a license from LICENSES; no LICENSE file is written when unset.
+  license?: string;
+  // npm, pnpm, yarn or bun for JavaScript templates and mounts; drives install
+  // commands, CI, workspaces and template scripts. The template's own when unset.
+  packageManager?: string;
+  // Leave installing dependencies to the user.
+  skipInstall?: boolean;
+  // Do not create a git repository or the initial commit.
+  skipGit?: boolean;
+  // Leave a failed run's files in place instead of rolling them back.
+  keepOnFailure?: boolean;
+  // Defaults to creating the repository whenever GITHUB_TOKEN is set.
+  createGithubRepo?: boolean;
+  // Create the GitHub repository in this organization instead of the user account.
+  githubOrg?: string;
+  // Exposed to templates as {{author}} and used as the LICENSE holder.
+  author?: string;
+  // Which enhancements aiEnhanced applies; every one that fits when unset.
+  enhancements?: string[];
+  // Extra template directories searched before the standard locations.
+  templatePaths?: string[];
+  // A stackstart-policy.json to check the new project against; the nearest
+  // one above the project when unset.
+  policy?: string;
+  // Scaffold into the working directory instead of a new one named after the project.
+  here?: boolean;
+  // The project directory, relative to cwd; like here, it may already exist if it is empty.
+  directory?: string;
+  // Base for the project directory, relative template paths and project
+  // templates; defaults to process.cwd().
+  cwd?: string;
+  // Stops the run between steps and kills a running install.
+  signal?: AbortSignal;
+  // Allows a target directory that already has files in it.
+  onExisting?: ExistingDirectoryMode;
+  // For files that already exist in merge mode; defaults to skip.
+  conflictPolicy?: ConflictPolicy;
+  // Answers the `ask` policy; conflicts are skipped without one.
+  resolveConflict?: ConflictResolver;
+  // Write to memory and record commands instead of running them.
+  dryRun?: boolean;
+  // Receives progress events; nothing is printed without one. Commands keep
+  // their output to themselves unless the listener is interactive.
+  onEvent?: EventListener;
+  interactive?: boolean;
 }
 
-function copyRecursive(src: string, dest: string): void {
-  const stats = lstatSync(src);
-  if (stats.isDirectory()) {
-    if (!existsSync(dest)) mkdirSync(dest, { recursive: true });
-    const entries = readdirSync(src);
-    for (const entry of entries) {
-      copyRecursive(path.join(src, entry), path.join(dest, entry));
-    }
-  } else {
-    const dir = path.dirname(dest);
-    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-    copyFileSync(src, dest);
-    chmodSync(dest, stats.mode);
+export interface PlannedCommand {
+  // Relative to the project root.
+  cwd: string;
+  command: string;
+  args: string[];
+}
+
+// What a scaffold run did, or in a dry run would have done.
+export interface ScaffoldResult {
+  projectRoot: string;
+  names: ProjectNames;
+  dryRun: boolean;
+  // Project-relative paths in the order they were first written.
+  files: string[];
+  // Files written again after they were created, e.g. package.json gaining
+  // dependencies, with the number of rewrites.
+  updates: Record<string, number>;
+  commands: PlannedCommand[];
+  // What skipInstall and skipGit left for the user to run.
+  deferred: PlannedCommand[];
+  // Optional steps that failed (demo, git, GitHub, AI) and conflict decisions.
+  warnings: string[];
+  // Files that already existed in the target directory and what happened to them.
+  conflicts: ConflictRecord[];
+  // Where the files can be read back from; in memory for a dry run.
+  fs: FileSystem;
+  // Set when the template was fetched from git or an archive.
+  origin?: TemplateOrigin;
+  // What was written to .stackstart.json.
+  manifest?: ProjectManifest;
+  // How the project measured up to the policy; violations are also warnings.
+  policy?: PolicyReport;
+}
+
+interface ScaffoldRuntime {
+  fs: FileSystem;
+  dryRun: boolean;
+  interactive: boolean;
+  projectRoot: string;
+  commands: PlannedCommand[];
+  emit: EventListener;
+  signal?: AbortSignal;
+}
+
+function checkAborted(signal: AbortSignal | undefined): void {
+  if (signal && signal.aborted) {
+    throw new Error('Scaffolding was cancelled');
   }
 }
 
-function replacePlaceholders(currentPath: string, placeholders: Record<string, string>): void {
-  const stats = lstatSync(currentPath);
-  if (stats.isDirectory()) {
-    const entries = readdirSync(currentPath);
-    for (const entry of entries) {
-      if (entry === 'node_modules') continue;
-      replacePlaceholders(path.join(currentPath, entry), placeholders);
-    }
-  } else {
-    if (stats.size > 1024 * 1024) return;
-    let content: string;
-    try {
-      content = readFileSync(currentPath, 'utf8');
-    } catch (err) {
-      return;
-    }
-    let newContent = content;
-    for (const [key, value] of Object.entries(placeholders)) {
-      newContent = newContent.split(`{{${key}}}`).join(value);
-    }
-    if (newContent !== content) {
-      writeFileSync(currentPath, newContent, 'utf8');
-    }
+function recordCommand(runtime: ScaffoldRuntime, cwd: string, command: string, args: string[]): void {
+  const planned = { cwd: path.relative(runtime.projectRoot, cwd) || '.', command, args };
+  runtime.commands.push(planned);
+  runtime.emit({ type: 'command-run', ...planned, dryRun: runtime.dryRun });
+}
+
+function recordOptions(options: ScaffoldOptions): RecordedOptions {
+  const recorded: RecordedOptions = {
+    deployTarget: options.deployTarget,
+    withDemo: options.withDemo,
+    aiEnhanced: options.aiEnhanced
+  };
+  if (options.license) recorded.license = options.license;
+  if (options.packageManager) recorded.packageManager = options.packageManager;
+  if (options.author) recorded.author = options.author;
+  if (options.answers && Object.keys(options.answers).length > 0) recorded.answers = options.answers;
+  return recorded;
+}
+
+function buildTemplateContext(
+  names: ProjectNames,
+  options: ScaffoldOptions,
+  manifest: TemplateManifest,
+  mounts: Mount[]
+): TemplateContext {
+  const packageManager = packageManagerFor(manifest, options.packageManager);
+  return {
+    ...variableDefaults(manifest),
+    ...(options.answers || {}),
+    ...names,
+    author: options.author || '',
+    // For template scripts: "{{runScript}} build" becomes "pnpm run build".
+    packageManager: packageManager ? packageManager.name : manifest.packageManager,
+    runScript: packageManager ? packageManager.run : '',
+    template: options.template,
+    deployTarget: options.deployTarget,
+    aiEnhanced: options.aiEnhanced,
+    withDemo: options.withDemo,
+    port: '3000',
+    subprojects: describeMounts(mounts)
+  };
+}
+
+const DEPENDENCY_MANIFESTS = ['package.json', 'requirements.txt', 'pyproject.toml'];
+
+// A composed project may keep nothing but a README at its root; it only gets
+// its own install step and Dependabot entry when there is something to install.
+function hasDependencyManifest(fs: FileSystem, dir: string): boolean {
+  return DEPENDENCY_MANIFESTS.some(file => fs.exists(path.join(dir, file)));
+}
+
+// The package manager a JavaScript template is set up with: the chosen one,
+// else the template's own. Python templates have none.
+function packageManagerFor(manifest: TemplateManifest, chosen: string | undefined): PackageManager | undefined {
+  if (manifest.language !== 'javascript') return undefined;
+  return findPackageManager(chosen || manifest.packageManager) || PACKAGE_MANAGERS[0];
+}
+
+// A command from the manifest, rewritten for the chosen package manager.
+function commandFor(manifest: TemplateManifest, command: string, chosen: string | undefined): string {
+  const from = findPackageManager(manifest.packageManager);
+  const to = packageManagerFor(manifest, chosen);
+  return from && to ? translateCommand(command, from, to) : command;
+}
+
+function installCommandFor(manifest: TemplateManifest, chosen: string | undefined): string {
+  return commandFor(manifest, manifest.installCommand, chosen);
+}
+
+// JavaScript mounts under a JavaScript root with its own package.json are
+// workspaces of the root: installed, locked and updated from there.
+function workspaceMounts(fs: FileSystem, projectRoot: string, manifest: TemplateManifest, mounts: Mount[]): Mount[] {
+  if (manifest.language !== 'javascript' || !fs.exists(path.join(projectRoot, 'package.json'))) return [];
+  return mounts.filter(mount => mount.template.manifest.language === 'javascript');
+}
+
+function writeWorkspaceConfig(fs: FileSystem, projectRoot: string, packageManager: PackageManager, members: Mount[]): void {
+  if (members.length === 0) return;
+  if (packageManager.workspaces === 'pnpm-workspace.yaml') {
+    fs.writeFile(
+      path.join(projectRoot, 'pnpm-workspace.yaml'),
+      `packages:\n${members.map(mount => `  - '${mount.path}'\n`).join('')}`
+    );
+    return;
   }
+  const packageJsonPath = path.join(projectRoot, 'package.json');
+  const packageJson = JSON.parse(readText(fs, packageJsonPath));
+  // yarn only allows workspaces in a private root package.
+  packageJson.private = true;
+  packageJson.workspaces = Array.from(new Set([...(packageJson.workspaces || []), ...members.map(mount => mount.path)]));
+  fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 }
 
-function writeCiWorkflow(projectRoot: string, template: string): void {
-  const ciDir = path.join(projectRoot, '.github', 'workflows');
-  if (!existsSync(ciDir)) {
-    mkdirSync(ciDir, { recursive: true });
+function packageScripts(fs: FileSystem, dir: string): Record<string, string> {
+  const packageJsonPath = path.join(dir, 'package.json');
+  return fs.exists(packageJsonPath) ? JSON.parse(readText(fs, packageJsonPath)).scripts || {} : {};
+}
+
+function writeLicense(fs: FileSystem, projectRoot: string, licenseId: string, holder: string, mounts: Mount[]): void {
+  const license = findLicense(licenseId);
+  if (!license) {
+    throw new Error(`Unknown license '${licenseId}'. Choose one of: ${LICENSES.map(known => known.id).join(', ')}`);
   }
-  const ciYamlPath = path.join(ciDir, 'ci.yml');
+  fs.writeFile(path.join(projectRoot, 'LICENSE'), license.text(new Date().getFullYear(), holder));
+
+  for (const dir of [projectRoot, ...mounts.map(mount => path.join(projectRoot, mount.path))]) {
+    const packageJsonPath = path.join(dir, 'package.json');
+    if (!fs.exists(packageJsonPath)) continue;
+    const packageJson = JSON.parse(readText(fs, packageJsonPath));
+    packageJson.license = license.id;
+    fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+  }
+}
 
-  const isPython = template === 'python';
-  const isFullStack = template === 'full-stack';
-  let ciYamlContent: string;
+function addDependencies(
+  fs: FileSystem,
+  projectRoot: string,
+  manifest: TemplateManifest,
+  dependencies: Record<string, string> | undefined
+): void {
+  if (!dependencies || Object.keys(dependencies).length === 0) return;
+  if (manifest.packageManager === 'pip') {
+    const requirementsPath = path.join(projectRoot, 'requirements.txt');
+    const existing = fs.exists(requirementsPath) ? readText(fs, requirementsPath) : '';
+    const lines = Object.entries(dependencies).map(([name, version]) => `${name}${version}`);
+    fs.writeFile(requirementsPath, `${existing}${existing && !existing.endsWith('\n') ? '\n' : ''}${lines.join('\n')}\n`);
+    return;
+  }
+  const packageJsonPath = path.join(projectRoot, 'package.json');
+  const packageJson = JSON.parse(readText(fs, packageJsonPath));
+  packageJson.dependencies = { ...(packageJson.dependencies || {}), ...dependencies };
+  fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+}
 
-  if (isPython) {
-    ciYamlContent = `name: CI (Python)
+interface CiJob {
+  name: string;
+  manifest: TemplateManifest;
+  // Relative to the project root; unset for a single-template project.
+  workingDirectory?: string;
+  // Installed from the root lockfile rather than its own.
+  workspaceMember?: boolean;
+}
 
-on:
-  push:
-    branches: [ main ]
-  pull_request:
-    branches: [ main ]
+function renderCiJob(fs: FileSystem, projectRoot: string, job: CiJob, chosen: string | undefined): string {
+  const { manifest, workingDirectory } = job;
+  const defaults = workingDirectory
+    ? `    defaults:
+      run:
+        working-directory: ${workingDirectory}
+`
+    : '';
 
-jobs:
-  build:
+  if (manifest.ci === 'python') {
+    return `  ${job.name}:
     runs-on: ubuntu-latest
     strategy:
       matrix:
         python-version: ['3.8', '3.9', '3.10']
-    steps:
+${defaults}    steps:
       - uses: actions/checkout@v4
 
       - name: Setup Python
@@ -99,75 +311,74 @@ jobs:
           python-version: \${{ matrix.python-version }}
 
       - name: Install dependencies
-        run: pip install -r requirements.txt
+        run: ${manifest.installCommand}
 
       - name: Test
-        run: pytest
+        run: ${manifest.testCommand}
 `;
-  } else if (isFullStack) {
-    ciYamlContent = `name: CI (Full Stack)
-
-on:
-  push:
-    branches: [ main ]
-  pull_request:
-    branches: [ main ]
+  }
 
-jobs:
-  backend:
+  const packageManager = packageManagerFor(manifest, chosen) || PACKAGE_MANAGERS[0];
+  const scripts = packageScripts(fs, path.join(projectRoot, workingDirectory || '.'));
+  const lockfile = job.workspaceMember || !workingDirectory ? packageManager.lockfile : `${workingDirectory}/${packageManager.lockfile}`;
+  const setup = packageManager.ciSetup
+    ? `      - name: ${packageManager.ciSetup.name}
+        uses: ${packageManager.ciSetup.uses}
+${packageManager.ciSetup.with ? `        with:\n${Object.entries(packageManager.ciSetup.with).map(([key, value]) => `          ${key}: ${value}\n`).join('')}` : ''}
+`
+    : '';
+  const cache = packageManager.nodeCache
+    ? `          cache: '${packageManager.nodeCache}'
+          cache-dependency-path: ${lockfile}
+`
+    : '';
+  // Only scripts the package actually has, since not every package manager
+  // can skip a missing one.
+  const scriptSteps = ['lint', 'build']
+    .filter(script => scripts[script])
+    .map(script => `
+      - name: ${script.charAt(0).toUpperCase()}${script.slice(1)}
+        run: ${packageManager.run} ${script}
+`)
+    .join('');
+
+  return `  ${job.name}:
     runs-on: ubuntu-latest
     strategy:
       matrix:
         node-version: [16, 18, 20]
-    defaults:
-      run:
-        working-directory: server
-    steps:
+${defaults}    steps:
       - uses: actions/checkout@v4
 
-      - name: Setup Node.js
+${setup}      - name: Setup Node.js
         uses: actions/setup-node@v4
         with:
           node-version: \${{ matrix.node-version }}
-          cache: 'npm'
-
+${cache}
       - name: Install dependencies
-        run: npm ci
-
-      - name: Lint
-        run: npm run lint --if-present
-
+        run: ${packageManager.ciInstall}
+${job.workspaceMember ? '        working-directory: .\n' : ''}${scriptSteps}
       - name: Test
-        run: npm test
-
-  frontend:
-    runs-on: ubuntu-latest
-    strategy:
-      matrix:
-        node-version: [16, 18, 20]
-    defaults:
-      run:
-        working-directory: client
-    steps:
-      - uses: actions/checkout@v4
+        run: ${commandFor(manifest, manifest.testCommand, chosen)}
+`;
+}
 
-      - name: Setup Node.js
-        uses: actions/setup-node@v4
-        with:
-          node-version: \${{ matrix.node-version }}
-          cache: 'npm'
+function writeCiWorkflow(fs: FileSystem, projectRoot: string, manifest: TemplateManifest, mounts: Mount[], chosen: string | undefined): void {
+  const ciDir = path.join(projectRoot, '.github', 'workflows');
+  fs.mkdir(ciDir);
+  const ciYamlPath = path.join(ciDir, 'ci.yml');
 
-      - name: Install dependencies
-        run: npm ci
+  const members = workspaceMounts(fs, projectRoot, manifest, mounts);
+  const jobs: CiJob[] = mounts.length > 0
+    ? mounts.map(mount => ({
+      name: mount.name,
+      manifest: mount.template.manifest,
+      workingDirectory: mount.path,
+      workspaceMember: members.includes(mount)
+    }))
+    : [{ name: 'build', manifest }];
 
-      - name: Build
-        run: npm run build --if-present
-
-      - name: Test
-        run: npm test
-`;
-  } else {
-    ciYamlContent = `name: CI (Node)
+  const ciYamlContent = `name: CI (${manifest.displayName})
 
 on:
   push:
@@ -176,63 +387,47 @@ on:
     branches: [ main ]
 
 jobs:
-  build:
-    runs-on: ubuntu-latest
-    strategy:
-      matrix:
-        node-version: [16, 18, 20]
-    steps:
-      - uses: actions/checkout@v4
+${jobs.map(job => renderCiJob(fs, projectRoot, job, chosen)).join('\n')}`;
 
-      - name: Setup Node.js
-        uses: actions/setup-node@v4
-        with:
-          node-version: \${{ matrix.node-version }}
-          cache: 'npm'
-
-      - name: Install dependencies
-        run: npm ci
-
-      - name: Lint
-        run: npm run lint --if-present
-
-      - name: Build
-        run: npm run build --if-present
-
-      - name: Test
-        run: npm test
-`;
-  }
+  fs.writeFile(ciYamlPath, ciYamlContent);
+}
 
-  writeFileSync(ciYamlPath, ciYamlContent, 'utf8');
+function dependabotEcosystem(manifest: TemplateManifest, chosen: string | undefined): string {
+  const packageManager = packageManagerFor(manifest, chosen);
+  return packageManager ? packageManager.dependabotEcosystem : manifest.packageManager === 'pip' ? 'pip' : 'npm';
 }
 
-function writeDependabotConfig(projectRoot: string, template: string): void {
+function writeDependabotConfig(fs: FileSystem, projectRoot: string, manifest: TemplateManifest, mounts: Mount[], chosen: string | undefined): void {
   const githubDir = path.join(projectRoot, '.github');
-  if (!existsSync(githubDir)) {
-    mkdirSync(githubDir, { recursive: true });
-  }
+  fs.mkdir(githubDir);
   const dependabotPath = path.join(githubDir, 'dependabot.yml');
-  const isPython = template === 'python';
+
+  // One entry per directory that has its own dependency manifest.
+  const entries = mounts.length === 0 || hasDependencyManifest(fs, projectRoot)
+    ? [{ ecosystem: dependabotEcosystem(manifest, chosen), directory: '/' }]
+    : [];
+  // Workspaces are updated through the root entry.
+  const members = workspaceMounts(fs, projectRoot, manifest, mounts);
+  for (const mount of mounts.filter(mount => !members.includes(mount))) {
+    entries.push({ ecosystem: dependabotEcosystem(mount.template.manifest, chosen), directory: `/${mount.path}` });
+  }
 
   const dependabotContent = `version: 2
 updates:
-  - package-ecosystem: ${isPython ? 'pip' : 'npm'}
-    directory: "/"
+${entries.map(entry => `  - package-ecosystem: ${entry.ecosystem}
+    directory: "${entry.directory}"
     schedule:
       interval: weekly
-`;
+`).join('')}`;
 
-  writeFileSync(dependabotPath, dependabotContent, 'utf8');
+  fs.writeFile(dependabotPath, dependabotContent);
 }
 
-function writeCodeQLConfig(projectRoot: string, template: string): void {
+function writeCodeQLConfig(fs: FileSystem, projectRoot: string, manifest: TemplateManifest, mounts: Mount[]): void {
   const githubDir = path.join(projectRoot, '.github');
-  if (!existsSync(githubDir)) {
-    mkdirSync(githubDir, { recursive: true });
-  }
+  fs.mkdir(githubDir);
   const codeqlPath = path.join(githubDir, 'codeql.yml');
-  const language = template === 'python' ? 'python' : 'javascript';
+  const languages = Array.from(new Set([manifest.language, ...mounts.map(mount => mount.template.manifest.language)]));
 
   const codeqlContent = `name: "CodeQL"
 
@@ -256,7 +451,7 @@ jobs:
     strategy:
       fail-fast: false
       matrix:
-        language: ['${language}']
+        language: [${languages.map(language => `'${language}'`).join(', ')}]
 
     steps:
       - name: Checkout repository
@@ -271,57 +466,80 @@ jobs:
         uses: github/codeql-action/analyze@v3
 `;
 
-  writeFileSync(codeqlPath, codeqlContent, 'utf8');
+  fs.writeFile(codeqlPath, codeqlContent);
 }
 
-function writeDeploymentConfig(projectRoot: string, deployTarget: string, template: string): void {
-  const isPython = template === 'python';
-  const isFullStack = template === 'full-stack';
-  
+function writeDeploymentConfig(
+  fs: FileSystem,
+  projectRoot: string,
+  projectName: string,
+  deployTarget: string,
+  manifest: TemplateManifest,
+  mounts: Mount[],
+  chosen: string | undefined
+): void {
   switch (deployTarget) {
     case 'vercel':
-      writeVercelConfig(projectRoot, template);
+      writeVercelConfig(fs, projectRoot, manifest, mounts);
       break;
     case 'netlify':
-      writeNetlifyConfig(projectRoot, template);
+      writeNetlifyConfig(fs, projectRoot, manifest, mounts, chosen);
       break;
     case 'aws':
-      writeAWSConfig(projectRoot, template);
+      writeAWSConfig(fs, projectRoot, projectName, manifest, mounts);
       break;
     case 'gcp':
-      writeGCPConfig(projectRoot, template);
+      writeGCPConfig(fs, projectRoot, manifest, mounts, chosen);
       break;
     default:
-      writeVercelConfig(projectRoot, template);
+      // validateCreateOptions rejects these before anything is written.
+      throw new Error(`Unknown deploy target '${deployTarget}'.`);
   }
 }
 
-function writeVercelConfig(projectRoot: string, template: string): void {
+// The code that answers API requests: the api mount of a composed project, or
+// the template itself.
+function deployedService(manifest: TemplateManifest, mounts: Mount[]): { language: TemplateLanguage; entryPoint: string } {
+  const api = apiMount(mounts);
+  if (!api) {
+    return { language: manifest.language, entryPoint: manifest.entryPoint };
+  }
+  return {
+    language: api.template.manifest.language,
+    entryPoint: path.posix.join(api.path, api.template.manifest.entryPoint)
+  };
+}
+
+function writeVercelConfig(fs: FileSystem, projectRoot: string, manifest: TemplateManifest, mounts: Mount[]): void {
   const vercelJsonPath = path.join(projectRoot, 'vercel.json');
   let vercelConfig: any;
 
-  if (template === 'python') {
+  if (mounts.some(mount => mount.role === 'api' || mount.role === 'web')) {
+    // Workers and libraries are not deployed. API routes must come before the
+    // catch-all route of the web client.
+    const deployed = mounts.filter(mount => mount.role === 'api' || mount.role === 'web');
+    const ordered = [...deployed].sort((a, b) => (a.role === b.role ? 0 : a.role === 'api' ? -1 : 1));
+    const isPythonApi = (mount: Mount) => mount.role === 'api' && mount.template.manifest.language === 'python';
+    vercelConfig = {
+      version: 2,
+      builds: deployed.map(mount => isPythonApi(mount)
+        ? { src: `${mount.path}/${mount.template.manifest.entryPoint}`, use: '@vercel/python' }
+        : { src: `${mount.path}/package.json`, use: mount.role === 'web' ? '@vercel/static-build' : '@vercel/node' }),
+      routes: ordered.map(mount => ({
+        src: mount.role === 'api' ? '/api/(.*)' : '/(.*)',
+        dest: isPythonApi(mount) ? `/${mount.path}/${mount.template.manifest.entryPoint}` : `/${mount.path}/$1`
+      }))
+    };
+  } else if (manifest.language === 'python') {
     vercelConfig = {
       version: 2,
       functions: {
-        'src/main.py': {
+        [manifest.entryPoint]: {
           runtime: 'python3.9'
         }
       },
       routes: [
-        { src: '/(.*)', dest: '/src/main.py' }
-      ]
-    };
-  } else if (template === 'full-stack') {
-    vercelConfig = {
-      version: 2,
-      builds: [
-        { src: 'client/package.json', use: '@vercel/static-build' },
-        { src: 'server/package.json', use: '@vercel/node' }
-      ],
-      routes: [
-        { src: '/api/(.*)', dest: '/server/$1' },
-        { src: '/(.*)', dest: '/client/$1' }
+        { src: '/(.*)', dest: `/${manifest.entryPoint}` }
       ]
     };
   } else {
@@ -333,668 +551,416 @@ function writeVercelConfig(projectRoot: string, template: string): void {
     };
   }
 
-  writeFileSync(vercelJsonPath, JSON.stringify(vercelConfig, null, 2), 'utf8');
+  fs.writeFile(vercelJsonPath, JSON.stringify(vercelConfig, null, 2));
 }
 
-function writeNetlifyConfig(projectRoot: string, template: string): void {
+function writeNetlifyConfig(fs: FileSystem, projectRoot: string, manifest: TemplateManifest, mounts: Mount[], chosen: string | undefined): void {
   const netlifyTomlPath = path.join(projectRoot, 'netlify.toml');
-  let netlifyConfig: string;
-
-  if (template === 'python') {
-    netlifyConfig = `[build]
-  command = "pip install -r requirements.txt"
-  publish = "public"
-
-[build.environment]
-  PYTHON_VERSION = "3.9"
-
-[[redirects]]
+  // A composed project with a web mount is built and served like a Node app.
+  const isPython = manifest.language === 'python' && !mounts.some(mount => mount.role === 'web');
+  const servesApi = isPython || apiMount(mounts) !== undefined;
+
+  const sections = [
+    `[build]
+  command = "${commandFor(manifest, manifest.buildCommand || manifest.installCommand, chosen)}"
+  publish = "${manifest.buildOutputDir}"`,
+    isPython
+      ? `[build.environment]
+  PYTHON_VERSION = "3.9"`
+      : `[build.environment]
+  NODE_VERSION = "18"`
+  ];
+
+  if (servesApi) {
+    sections.push(`[[redirects]]
   from = "/api/*"
   to = "/.netlify/functions/:splat"
-  status = 200`;
-  } else if (template === 'full-stack') {
-    netlifyConfig = `[build]
-  command = "npm run build"
-  publish = "client/build"
-
-[build.environment]
-  NODE_VERSION = "18"
-
-[[redirects]]
-  from = "/api/*"
-  to = "/.netlify/functions/:splat"
-  status = 200
-
-[[redirects]]
-  from = "/*"
-  to = "/index.html"
-  status = 200`;
-  } else {
-    netlifyConfig = `[build]
-  command = "npm run build"
-  publish = "dist"
-
-[build.environment]
-  NODE_VERSION = "18"
-
-[[redirects]]
+  status = 200`);
+  }
+  if (!isPython) {
+    sections.push(`[[redirects]]
   from = "/*"
   to = "/index.html"
-  status = 200`;
+  status = 200`);
   }
 
-  writeFileSync(netlifyTomlPath, netlifyConfig, 'utf8');
+  fs.writeFile(netlifyTomlPath, sections.join('\n\n'));
 }
 
-function writeAWSConfig(projectRoot: string, template: string): void {
+function writeAWSConfig(fs: FileSystem, projectRoot: string, projectName: string, manifest: TemplateManifest, mounts: Mount[]): void {
   const serverlessYmlPath = path.join(projectRoot, 'serverless.yml');
-  let serverlessConfig: any;
-
-  if (template === 'python') {
-    serverlessConfig = {
-      service: '{{projectName}}',
-      provider: {
-        name: 'aws',
-        runtime: 'python3.9',
-        region: 'us-east-1'
-      },
-      functions: {
-        api: {
-          handler: 'src/main.handler',
-          events: [
-            { http: { path: '/{proxy+}', method: 'ANY' } }
-          ]
-        }
-      }
-    };
-  } else {
-    serverlessConfig = {
-      service: '{{projectName}}',
-      provider: {
-        name: 'aws',
-        runtime: 'nodejs18.x',
-        region: 'us-east-1'
-      },
-      functions: {
-        api: {
-          handler: 'src/index.handler',
-          events: [
-            { http: { path: '/{proxy+}', method: 'ANY' } }
-          ]
-        }
+  const service = deployedService(manifest, mounts);
+  const handlerModule = service.entryPoint.replace(/\.[^/.]+$/, '');
+
+  const serverlessConfig = {
+    service: deriveProjectNames(projectName).serviceName,
+    provider: {
+      name: 'aws',
+      runtime: service.language === 'python' ? 'python3.9' : 'nodejs18.x',
+      region: 'us-east-1'
+    },
+    functions: {
+      api: {
+        handler: `${handlerModule}.handler`,
+        events: [
+          { http: { path: '/{proxy+}', method: 'ANY' } }
+        ]
       }
-    };
-  }
+    }
+  };
 
-  writeFileSync(serverlessYmlPath, JSON.stringify(serverlessConfig, null, 2), 'utf8');
+  fs.writeFile(serverlessYmlPath, JSON.stringify(serverlessConfig, null, 2));
 }
 
-function writeGCPConfig(projectRoot: string, template: string): void {
+function writeGCPConfig(fs: FileSystem, projectRoot: string, manifest: TemplateManifest, mounts: Mount[], chosen: string | undefined): void {
   const appYamlPath = path.join(projectRoot, 'app.yaml');
-  let appConfig: string;
+  const runtime = deployedService(manifest, mounts).language === 'python' ? 'python39' : 'nodejs18';
 
-  if (template === 'python') {
-    appConfig = `runtime: python39
-entrypoint: python src/main.py
+  const appConfig = `runtime: ${runtime}
+entrypoint: ${commandFor(manifest, manifest.startCommand, chosen)}
 
 env_variables:
   NODE_ENV: production`;
-  } else {
-    appConfig = `runtime: nodejs18
-entrypoint: node dist/index.js
 
-env_variables:
-  NODE_ENV: production`;
-  }
+  fs.writeFile(appYamlPath, appConfig);
+}
 
-  writeFileSync(appYamlPath, appConfig, 'utf8');
+function addDemoApp(fs: FileSystem, projectRoot: string, template: Template, context: TemplateContext): boolean {
+  const demoPath = template.manifest.demo ? path.join(template.path, template.manifest.demo) : undefined;
+  if (!demoPath || !fs.exists(demoPath)) {
+    return false;
   }
-  
-  function addDemoApp(projectRoot: string, template: string): void {
-  const demoSpinner = ora('Adding demo application...').start();
-  
-  try {
-    if (template === 'node') {
-      const demoPath = path.join(projectRoot, 'src/demo.js');
-      const demoContent = `const express = require('express');
-const app = express();
-const port = process.env.PORT || 3000;
-
-app.use(express.json());
-
-// Demo endpoints
-app.get('/api/hello', (req, res) => {
-  res.json({ message: 'Hello from the demo API!' });
-});
-
-app.get('/api/users', (req, res) => {
-  res.json([
-    { id: 1, name: 'John Doe', email: 'john@example.com' },
-    { id: 2, name: 'Jane Smith', email: 'jane@example.com' }
-  ]);
-});
-
-app.post('/api/users', (req, res) => {
-  const { name, email } = req.body;
-  res.json({ 
-    id: Math.floor(Math.random() * 1000),
-    name,
-    email,
-    message: 'User created successfully!'
-  });
-});
-
-app.listen(port, () => {
-  console.log(\`Demo server running at http://localhost:\${port}\`);
-  console.log('Available endpoints:');
-  console.log('  GET  /api/hello');
-  console.log('  GET  /api/users');
-  console.log('  POST /api/users');
-});
-`;
-      writeFileSync(demoPath, demoContent, 'utf8');
-    } else if (template === 'react') {
-      const demoPath = path.join(projectRoot, 'src/components/Demo.jsx');
-      const demoContent = `import React, { useState, useEffect } from 'react';
-
-const Demo = () => {
-  const [users, setUsers] = useState([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetch('/api/users')
-      .then(res => res.json())
-      .then(data => {
-        setUsers(data);
-        setLoading(false);
-      })
-      .catch(err => {
-        console.error('Error fetching users:', err);
-        setLoading(false);
-      });
-  }, []);
-
-  if (loading) return <div>Loading...</div>;
-
-  return (
-    <div className="demo">
-      <h2>Demo Component</h2>
-      <p>This is a demo component showing API integration.</p>
-      <div className="users">
-        <h3>Users:</h3>
-        <ul>
-          {users.map(user => (
-            <li key={user.id}>
-              {user.name} ({user.email})
-            </li>
-          ))}
-        </ul>
-      </div>
-    </div>
-  );
-};
-
-export default Demo;
-`;
-      writeFileSync(demoPath, demoContent, 'utf8');
-    } else if (template === 'python') {
-      const demoPath = path.join(projectRoot, 'src/demo.py');
-      const demoContent = `from flask import Flask, jsonify, request
-
-app = Flask(__name__)
-
-# Demo data
-users = [
-    {"id": 1, "name": "John Doe", "email": "john@example.com"},
-    {"id": 2, "name": "Jane Smith", "email": "jane@example.com"}
-]
-
-@app.route('/api/hello')
-def hello():
-    return jsonify({"message": "Hello from the demo API!"})
-
-@app.route('/api/users')
-def get_users():
-    return jsonify(users)
-
-@app.route('/api/users', methods=['POST'])
-def create_user():
-    data = request.get_json()
-    new_user = {
-        "id": len(users) + 1,
-        "name": data.get('name'),
-        "email": data.get('email')
-    }
-    users.append(new_user)
-    return jsonify(new_user), 201
-
-if __name__ == '__main__':
-    print("Demo server starting...")
-    print("Available endpoints:")
-    print("  GET  /api/hello")
-    print("  GET  /api/users")
-    print("  POST /api/users")
-    app.run(debug=True, port=5000)
-`;
-      writeFileSync(demoPath, demoContent, 'utf8');
-    } else if (template === 'full-stack') {
-      const serverDemoPath = path.join(projectRoot, 'server/src/index.js');
-      const serverDemoContent = `const express = require('express');
-const app = express();
-const port = process.env.PORT || 3001;
-
-app.use(express.json());
-
-app.use((req, res, next) => {
-  res.header('Access-Control-Allow-Origin', 'http://localhost:5173');
-  res.header('Access-Control-Allow-Headers', 'Content-Type');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
-  next();
-});
-
-// Demo endpoints
-app.get('/api/hello', (req, res) => {
-  res.json({ message: 'Hello from the {{projectName}} API!' });
-});
-
-app.get('/api/users', (req, res) => {
-  res.json([
-    { id: 1, name: 'John Doe', email: 'john@example.com' },
-    { id: 2, name: 'Jane Smith', email: 'jane@example.com' },
-    { id: 3, name: 'Bob Johnson', email: 'bob@example.com' }
-  ]);
-});
-
-app.post('/api/users', (req, res) => {
-  const { name, email } = req.body;
-  res.json({ 
-    id: Math.floor(Math.random() * 1000),
-    name,
-    email,
-    message: 'User created successfully!'
-  });
-});
-
-app.listen(port, () => {
-  console.log(\`🚀 Server running at http://localhost:\${port}\`);
-  console.log('📍 Available endpoints:');
-  console.log('  GET  /api/hello');
-  console.log('  GET  /api/users');
-  console.log('  POST /api/users');
-});
-`;
-      writeFileSync(serverDemoPath, serverDemoContent, 'utf8');
-
-      const clientDemoPath = path.join(projectRoot, 'client/src/App.jsx');
-      const clientDemoContent = `import React, { useState, useEffect } from 'react';
-import './App.css';
-
-function App() {
-  const [users, setUsers] = useState([]);
-  const [loading, setLoading] = useState(true);
-  const [message, setMessage] = useState('');
-  const [newUser, setNewUser] = useState({ name: '', email: '' });
-
-  useEffect(() => {
-    fetch('http://localhost:3001/api/hello')
-      .then(res => res.json())
-      .then(data => setMessage(data.message))
-      .catch(err => console.error('Error fetching message:', err));
-  }, []);
-
-  useEffect(() => {
-    fetch('http://localhost:3001/api/users')
-      .then(res => res.json())
-      .then(data => {
-        setUsers(data);
-        setLoading(false);
-      })
-      .catch(err => {
-        console.error('Error fetching users:', err);
-        setLoading(false);
-      });
-  }, []);
-
-  const handleSubmit = async (e) => {
-    e.preventDefault();
-    try {
-      const response = await fetch('http://localhost:3001/api/users', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(newUser),
-      });
-      const result = await response.json();
-      setUsers([...users, result]);
-      setNewUser({ name: '', email: '' });
-      alert(result.message);
-    } catch (err) {
-      console.error('Error creating user:', err);
-    }
-  };
 
-  if (loading) {
-    return <div className="loading">Loading...</div>;
+  try {
+    copyTemplateFiles(demoPath, projectRoot, context, {
+      render: template.manifest.render,
+      copyOnly: template.manifest.copyOnly
+    }, fs);
+    return true;
+  } catch (error) {
+    return false;
   }
-
-  return (
-    <div className="App">
-      <header className="header">
-        <h1>🚀 {{projectName}}</h1>
-        <p className="message">{message}</p>
-      </header>
-
-      <main className="main">
-        <section className="users-section">
-          <h2>👥 Users</h2>
-          <div className="users-grid">
-            {users.map(user => (
-              <div key={user.id} className="user-card">
-                <h3>{user.name}</h3>
-                <p>{user.email}</p>
-                <small>ID: {user.id}</small>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <section className="add-user-section">
-          <h2>➕ Add New User</h2>
-          <form onSubmit={handleSubmit} className="user-form">
-            <input
-              type="text"
-              placeholder="Name"
-              value={newUser.name}
-              onChange={(e) => setNewUser({...newUser, name: e.target.value})}
-              required
-            />
-            <input
-              type="email"
-              placeholder="Email"
-              value={newUser.email}
-              onChange={(e) => setNewUser({...newUser, email: e.target.value})}
-              required
-            />
-            <button type="submit">Add User</button>
-          </form>
-        </section>
-      </main>
-    </div>
-  );
-}
-
-export default App;
-`;
-      writeFileSync(clientDemoPath, clientDemoContent, 'utf8');
-
-      const clientCSSPath = path.join(projectRoot, 'client/src/App.css');
-      const clientCSSContent = `/* App.css */
-.App {
-  max-width: 1200px;
-  margin: 0 auto;
-  padding: 20px;
-  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-}
-
-.header {
-  text-align: center;
-  margin-bottom: 40px;
-  padding: 20px;
-  background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-  color: white;
-  border-radius: 12px;
-  box-shadow: 0 4px 20px rgba(0,0,0,0.1);
-}
-
-.header h1 {
-  margin: 0 0 10px 0;
-  font-size: 2.5rem;
-  font-weight: 700;
-}
-
-.message {
-  font-size: 1.2rem;
-  margin: 0;
-  opacity: 0.9;
-}
-
-.main {
-  display: grid;
-  grid-template-columns: 1fr 1fr;
-  gap: 40px;
-}
-
-.users-section, .add-user-section {
-  background: white;
-  padding: 30px;
-  border-radius: 12px;
-  box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-}
-
-.users-section h2, .add-user-section h2 {
-  color: #333;
-  margin-bottom: 20px;
-  font-size: 1.5rem;
 }
 
-.users-grid {
-  display: grid;
-  gap: 15px;
-}
-
-.user-card {
-  background: #f8f9fa;
-  padding: 20px;
-  border-radius: 8px;
-  border-left: 4px solid #667eea;
-}
-
-.user-card h3 {
-  margin: 0 0 8px 0;
-  color: #333;
-  font-size: 1.1rem;
-}
-
-.user-card p {
-  margin: 0 0 8px 0;
-  color: #666;
-}
-
-.user-card small {
-  color: #999;
-  font-size: 0.9rem;
-}
-
-.user-form {
-  display: grid;
-  gap: 15px;
-}
-
-.user-form input {
-  padding: 12px;
-  border: 2px solid #e9ecef;
-  border-radius: 6px;
-  font-size: 1rem;
-  transition: border-color 0.3s ease;
+async function installDependencies(runtime: ScaffoldRuntime, cwd: string, installCommand: string, label: string): Promise<void> {
+  const [command, ...args] = installCommand.split(/\s+/);
+  const { emit } = runtime;
+  const step = `install:${path.relative(runtime.projectRoot, cwd) || '.'}`;
+  checkAborted(runtime.signal);
+  if (!runtime.dryRun) emit({ type: 'step-started', step, message: `Installing ${label} (${installCommand})...` });
+  recordCommand(runtime, cwd, command, args);
+  if (runtime.dryRun) return;
+
+  const child = execa(command, args, { cwd, stdio: runtime.interactive ? 'inherit' : 'pipe' });
+  const kill = () => child.kill();
+  if (runtime.signal) runtime.signal.addEventListener('abort', kill);
+  try {
+    await child;
+    emit({ type: 'step-succeeded', step, message: 'Dependencies installed' });
+  } catch (err) {
+    const error = runtime.signal && runtime.signal.aborted ? new Error('Scaffolding was cancelled') : err as Error;
+    emit({ type: 'step-failed', step, message: 'Dependency installation failed', error: error.message });
+    throw error;
+  } finally {
+    if (runtime.signal) runtime.signal.removeEventListener('abort', kill);
+  }
 }
 
-.user-form input:focus {
-  outline: none;
-  border-color: #667eea;
-}
+// Whether the initial commit was made.
+async function initializeGit(runtime: ScaffoldRuntime, message: string[]): Promise<boolean> {
+  const { projectRoot } = runtime;
+  recordCommand(runtime, projectRoot, 'git', ['init']);
+  recordCommand(runtime, projectRoot, 'git', ['add', '.']);
+  recordCommand(runtime, projectRoot, 'git', ['commit', ...message.flatMap(paragraph => ['-m', paragraph])]);
+  if (runtime.dryRun) return false;
 
-.user-form button {
-  padding: 12px 24px;
-  background: #667eea;
-  color: white;
-  border: none;
-  border-radius: 6px;
-  font-size: 1rem;
-  cursor: pointer;
-  transition: background 0.3s ease;
-}
-
-.user-form button:hover {
-  background: #5a67d8;
+  runtime.emit({ type: 'step-started', step: 'git', message: 'Initializing git repository...' });
+  try {
+    const git = simpleGit(projectRoot);
+    await git.init();
+    await git.add('.');
+    await git.commit(message.length === 1 ? message[0] : message);
+    runtime.emit({ type: 'step-succeeded', step: 'git', message: 'Git repository initialized' });
+    return true;
+  } catch (err) {
+    runtime.emit({ type: 'step-failed', step: 'git', message: 'Git initialization failed', error: (err as Error).message });
+    runtime.emit({ type: 'warning', message: `Git initialization failed (${(err as Error).message}); run git init yourself` });
+    return false;
+  }
 }
 
-.loading {
-  text-align: center;
-  padding: 40px;
-  font-size: 1.2rem;
-  color: #666;
-}
+async function createGithubRepository(runtime: ScaffoldRuntime, projectName: string, template: string, org?: string): Promise<void> {
+  recordCommand(runtime, runtime.projectRoot, 'github', ['create-repository', org ? `${org}/${projectName}` : projectName]);
+  if (runtime.dryRun) return;
 
-/* Responsive design */
-@media (max-width: 768px) {
-  .main {
-    grid-template-columns: 1fr;
-    gap: 20px;
-  }
-  
-  .header h1 {
-    font-size: 2rem;
-  }
-  
-  .users-section, .add-user-section {
-    padding: 20px;
-  }
-}
-`;
-      writeFileSync(clientCSSPath, clientCSSContent, 'utf8');
+  runtime.emit({ type: 'step-started', step: 'github', message: 'Creating GitHub repository...' });
+  try {
+    const { Octokit } = await import('@octokit/rest');
+    const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
+    const repository = {
+      name: projectName,
+      private: false,
+      description: `Generated with StackStart - ${template} template`,
+      auto_init: false
+    };
+    if (org) {
+      await octokit.rest.repos.createInOrg({ ...repository, org });
+    } else {
+      await octokit.rest.repos.createForAuthenticatedUser(repository);
     }
-    
-    demoSpinner.succeed('Demo application added');
-  } catch (error) {
-    demoSpinner.fail('Failed to add demo application');
-    console.log(chalk.yellow('Continuing without demo application...'));
+    runtime.emit({ type: 'step-succeeded', step: 'github', message: 'GitHub repository created' });
+  } catch (err) {
+    runtime.emit({ type: 'step-failed', step: 'github', message: 'GitHub repository creation failed', error: (err as Error).message });
+    runtime.emit({ type: 'warning', message: `GitHub repository creation failed (${(err as Error).message}); you can create it manually on GitHub` });
   }
 }
 
-export async function generateScaffold(
-  projectName: string,
-  { template, aiEnhanced, deployTarget, withDemo }: ScaffoldOptions
-): Promise<void> {
-  const projectRoot = path.resolve(process.cwd(), projectName);
-
-  const isFullStack = template === 'full-stack';
-  const isPython = template === 'python';
-
-  if (existsSync(projectRoot)) {
-    throw new Error(`Directory ${projectName} already exists.`);
-  }
-
-  if (isFullStack) {
-    const serverTemplatePath = path.resolve(process.cwd(), 'templates', 'node');
-    const clientTemplatePath = path.resolve(process.cwd(), 'templates', 'react');
-    const skeletonTemplatePath = path.resolve(process.cwd(), 'templates', 'full-stack');
-    if (!existsSync(serverTemplatePath) || !existsSync(clientTemplatePath)) {
-      throw new Error('Full-stack template requires both "node" and "react" templates.');
-    }
-    mkdirSync(projectRoot);
-
-    const copySpinner = ora('Generating full-stack project structure...').start();
-    if (existsSync(skeletonTemplatePath)) {
-      copyRecursive(skeletonTemplatePath, projectRoot);
-    }
-    copyRecursive(serverTemplatePath, path.join(projectRoot, 'server'));
-    copyRecursive(clientTemplatePath, path.join(projectRoot, 'client'));
-    replacePlaceholders(projectRoot, { projectName, port: '3000' });
-    
-    const serverPackageJsonPath = path.join(projectRoot, 'server', 'package.json');
-    const serverPackageJson = JSON.parse(readFileSync(serverPackageJsonPath, 'utf8'));
-    serverPackageJson.dependencies = serverPackageJson.dependencies || {};
-    serverPackageJson.dependencies.express = '^4.18.2';
-    writeFileSync(serverPackageJsonPath, JSON.stringify(serverPackageJson, null, 2), 'utf8');
-    
-    writeCiWorkflow(projectRoot, 'full-stack');
-    writeDependabotConfig(projectRoot, 'full-stack');
-    writeCodeQLConfig(projectRoot, 'full-stack');
-    copySpinner.succeed('Project files generated');
-  } else {
-    const templatePath = path.resolve(process.cwd(), 'templates', template);
-    if (!existsSync(templatePath)) {
-      throw new Error(`Template '${template}' not found at ${templatePath}`);
+// Falling short of the policy does not fail the run: the violations are
+// warnings, to fix with `stackstart add` or in the template.
+async function checkNewProject(projectRoot: string, policy: Policy, emit: EventListener): Promise<PolicyReport | undefined> {
+  try {
+    const report = await checkPolicy(policy, { cwd: projectRoot });
+    for (const violation of report.violations) {
+      emit({ type: 'warning', message: `Policy: ${violation.message}${violation.fix ? ` (stackstart add ${violation.fix})` : ''}` });
     }
-    mkdirSync(projectRoot);
-
-    const copySpinner = ora('Generating project structure...').start();
-    copyRecursive(templatePath, projectRoot);
-    replacePlaceholders(projectRoot, { projectName, port: '3000' });
-    writeCiWorkflow(projectRoot, template);
-    writeDependabotConfig(projectRoot, template);
-    writeCodeQLConfig(projectRoot, template);
-    copySpinner.succeed('Project files generated');
+    return report;
+  } catch (err) {
+    emit({ type: 'warning', message: `Could not check the project against ${policy.file} (${(err as Error).message})` });
+    return undefined;
   }
+}
 
-  writeDeploymentConfig(projectRoot, deployTarget, template);
-
-  if (withDemo) {
-    addDemoApp(projectRoot, template);
-    replacePlaceholders(projectRoot, { projectName, port: '3001' });
+export async function generateScaffold(projectName: string, options: ScaffoldOptions): Promise<ScaffoldResult> {
+  const { template, aiEnhanced, deployTarget, withDemo } = options;
+  const names = deriveProjectNames(projectName);
+  const cwd = path.resolve(options.cwd || process.cwd());
+  const chosenDirectory = options.here || options.directory !== undefined;
+  const finalRoot = path.resolve(cwd, options.directory !== undefined ? options.directory : options.here ? '.' : names.directoryName);
+  const dryRun = Boolean(options.dryRun);
+  checkAborted(options.signal);
+
+  // A directory picked with --here or `directory` is fine when empty or a
+  // fresh clone; anything else needs a mode.
+  if (diskFileSystem.exists(finalRoot) && !options.onExisting && !(chosenDirectory && isEmptyDirectory(finalRoot))) {
+    throw new Error(`Directory ${path.basename(finalRoot)} ${chosenDirectory ? 'is not empty' : 'already exists'}. Use --merge or --force to scaffold into it.`);
   }
 
-  const installDependencies = async (cwd: string, spinner: ora.Ora) => {
-    try {
-      await execa('npm', ['install'], { cwd, stdio: 'inherit' });
-      spinner.succeed('Dependencies installed');
-    } catch (err) {
-      spinner.fail('Dependency installation failed');
-      throw err;
+  const searchOptions = { cwd, extraPaths: options.templatePaths };
+  const resolved = await fetchTemplate(template, searchOptions);
+  checkAborted(options.signal);
+  const { manifest } = resolved;
+  const mounts = await resolveMounts(resolved, searchOptions);
+  validateProjectName(projectName, Array.from(new Set([manifest.language, ...mounts.map(mount => mount.template.manifest.language)])));
+  validateCreateOptions(options, manifest);
+  // A broken policy file fails the run before anything is written.
+  const policyFile = options.policy || findPolicy(finalRoot);
+  const policy = policyFile ? readPolicy(policyFile) : undefined;
+
+  // A dry run writes to memory; reads of anything not written fall through to
+  // disk, so templates are found as usual. A real run is a transaction: a new
+  // directory is staged next to its final place, an existing one is journaled.
+  const transaction = dryRun ? undefined : diskFileSystem.exists(finalRoot) ? journalDirectory(finalRoot) : stageDirectory(finalRoot);
+  // The journal restores files, not history: a commit in a clone that was
+  // already there survives a rollback.
+  const existingRepository = Boolean(transaction) && diskFileSystem.exists(path.join(finalRoot, '.git'));
+  let committedToExistingRepository = false;
+  const projectRoot = transaction ? transaction.root : finalRoot;
+  const target = transaction ? transaction.fs : new MemoryFileSystem();
+  const warnings: string[] = [];
+  const listener = options.onEvent || ignoreEvents;
+  const emit: EventListener = event => {
+    if (event.type === 'warning') warnings.push(event.message);
+    listener(event);
+  };
+  const result: ScaffoldResult = {
+    projectRoot: finalRoot,
+    names,
+    dryRun,
+    files: [],
+    updates: {},
+    commands: [],
+    deferred: [],
+    conflicts: [],
+    warnings,
+    fs: target,
+    origin: resolved.origin
+  };
+  const recorded = recordWrites(target, (written, bytes) => {
+    const relative = path.relative(projectRoot, written).split(path.sep).join('/');
+    const updated = result.files.includes(relative);
+    if (updated) {
+      result.updates[relative] = (result.updates[relative] || 0) + 1;
+    } else {
+      result.files.push(relative);
     }
+    emit({ type: 'file-written', path: relative, bytes, updated });
+  });
+  const conflicts = options.onExisting
+    ? new ConflictingFileSystem(recorded, {
+      root: projectRoot,
+      mode: options.onExisting,
+      policy: options.conflictPolicy || 'skip',
+      onResolved: record => emit({ type: 'warning', message: describeConflict(record) })
+    })
+    : undefined;
+  const fs = conflicts || recorded;
+  if (conflicts) result.conflicts = conflicts.conflicts;
+  // Deferred conflicts are settled before anything needs the files on disk.
+  const settleConflicts = async () => {
+    if (!conflicts || !conflicts.hasPending || dryRun) return;
+    await conflicts.resolvePending(options.resolveConflict || (async () => 'skip'));
+  };
+  const runtime: ScaffoldRuntime = {
+    fs,
+    dryRun,
+    interactive: Boolean(options.interactive),
+    projectRoot,
+    commands: result.commands,
+    emit,
+    signal: options.signal
   };
+  try {
+    fs.mkdir(projectRoot);
 
-  if (isFullStack) {
-    await installDependencies(projectRoot, ora('Installing root dependencies...').start());
-    await installDependencies(path.join(projectRoot, 'server'), ora('Installing server dependencies...').start());
-    await installDependencies(path.join(projectRoot, 'client'), ora('Installing client dependencies...').start());
-  } else if (isPython) {
-    const spinner = ora('Installing dependencies (pip install)...').start();
+    const context = buildTemplateContext(names, options, manifest, mounts);
+    const packageManager = packageManagerFor(manifest, options.packageManager);
+    emit({ type: 'step-started', step: 'generate', message: `Generating ${manifest.displayName} project structure...` });
+    let demoAdded = false;
     try {
-      await execa('pip', ['install', '-r', 'requirements.txt'], { cwd: projectRoot, stdio: 'inherit' });
-      spinner.succeed('Dependencies installed');
+      copyTemplateFiles(resolved.path, projectRoot, context, templateCopyRules(manifest), fs);
+      for (const mount of mounts) {
+        copyTemplateFiles(
+          mount.template.path,
+          path.join(projectRoot, mount.path),
+          mountContext(context, mount),
+          templateCopyRules(mount.template.manifest),
+          fs
+        );
+      }
+      demoAdded = withDemo && addDemoApp(fs, projectRoot, resolved, context);
+      for (const mount of mounts) {
+        addDependencies(fs, path.join(projectRoot, mount.path), mount.template.manifest, mount.dependencies);
+      }
+      if (packageManager) {
+        writeWorkspaceConfig(fs, projectRoot, packageManager, workspaceMounts(fs, projectRoot, manifest, mounts));
+      }
+
+      writeCiWorkflow(fs, projectRoot, manifest, mounts, options.packageManager);
+      writeDependabotConfig(fs, projectRoot, manifest, mounts, options.packageManager);
+      writeCodeQLConfig(fs, projectRoot, manifest, mounts);
+      if (options.license) {
+        writeLicense(fs, projectRoot, options.license, options.author || `${projectName} contributors`, mounts);
+      }
     } catch (err) {
-      spinner.fail('Dependency installation failed');
+      emit({ type: 'step-failed', step: 'generate', message: 'Project generation failed', error: (err as Error).message });
       throw err;
     }
-  } else {
-    await installDependencies(projectRoot, ora('Installing dependencies (npm install)...').start());
-  }
+    emit({ type: 'step-succeeded', step: 'generate', message: 'Project files generated' });
+
+    if (withDemo) {
+      if (demoAdded) {
+        emit({ type: 'step-succeeded', step: 'demo', message: 'Demo application added' });
+      } else {
+        emit({ type: 'step-failed', step: 'demo', message: 'Failed to add demo application' });
+        emit({ type: 'warning', message: 'The demo application could not be added; the project was created without it' });
+      }
+    }
 
-  const gitSpinner = ora('Initializing git repository...').start();
-  try {
-    const git = simpleGit(projectRoot);
-    await git.init();
-    await git.add('.');
-    await git.commit('chore: initial commit via stackstart');
-    gitSpinner.succeed('Git repository initialized');
-  } catch (err) {
-    gitSpinner.fail('Git initialization failed');
-  }
+    writeDeploymentConfig(fs, projectRoot, projectName, deployTarget, manifest, mounts, options.packageManager);
+
+    await settleConflicts();
+    // Written before the first commit, with the hashes of every file so far,
+    // so that later commands know how the project was made. It is stackstart's
+    // own file, so it skips conflict handling.
+    const createdAt = new Date().toISOString();
+    result.manifest = {
+      manifestVersion: PROJECT_MANIFEST_VERSION,
+      stackstartVersion: STACKSTART_VERSION,
+      createdAt,
+      updatedAt: createdAt,
+      projectName,
+      template: recordTemplate(template, resolved),
+      options: recordOptions(options),
+      enhancements: [],
+      files: hashFiles(projectRoot, result.files, recorded)
+    };
+    writeProjectManifest(projectRoot, result.manifest, recorded);
 
-  if (process.env.GITHUB_TOKEN) {
-    const ghSpinner = ora('Creating GitHub repository...').start();
-    try {
-      const { Octokit } = await import('@octokit/rest');
-      const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
-      await octokit.rest.repos.createForAuthenticatedUser({
-        name: projectName,
-        private: false,
-        description: `Generated with StackStart - ${template} template`,
-        auto_init: false
+    const installs: Array<{ cwd: string; command: string; label: string }> = [];
+    if (mounts.length === 0 || hasDependencyManifest(fs, projectRoot)) {
+      installs.push({ cwd: projectRoot, command: installCommandFor(manifest, options.packageManager), label: 'dependencies' });
+    }
+    // Workspaces are installed with the root.
+    const members = workspaceMounts(fs, projectRoot, manifest, mounts);
+    for (const mount of mounts.filter(mount => !members.includes(mount))) {
+      installs.push({
+        cwd: path.join(projectRoot, mount.path),
+        command: installCommandFor(mount.template.manifest, options.packageManager),
+        label: `${mount.name} dependencies`
       });
-      ghSpinner.succeed('GitHub repository created');
-    } catch (err) {
-      ghSpinner.fail('GitHub repository creation failed');
-      console.log(chalk.yellow('You can create the repository manually on GitHub'));
     }
+    for (const install of installs) {
+      if (options.skipInstall) {
+        const [command, ...args] = install.command.split(/\s+/);
+        result.deferred.push({ cwd: path.relative(projectRoot, install.cwd) || '.', command, args });
+      } else {
+        await installDependencies(runtime, install.cwd, install.command, install.label);
+      }
+    }
+
+    // Pin fetched templates in history so the exact revision can be traced later.
+    const commitMessage = resolved.origin
+      ? ['chore: initial commit via stackstart', formatTemplateOrigin(resolved.origin)]
+      : ['chore: initial commit via stackstart'];
+    checkAborted(options.signal);
+    if (options.skipGit) {
+      result.deferred.push(
+        { cwd: '.', command: 'git', args: ['init'] },
+        { cwd: '.', command: 'git', args: ['add', '.'] },
+        { cwd: '.', command: 'git', args: ['commit', ...commitMessage.flatMap(paragraph => ['-m', paragraph])] }
+      );
+    } else {
+      committedToExistingRepository = (await initializeGit(runtime, commitMessage)) && existingRepository;
+    }
+
+    checkAborted(options.signal);
+    if (aiEnhanced) {
+      const applied = await enhanceWithAI(projectRoot, template, fs, emit, options.enhancements);
+      await settleConflicts();
+      result.manifest = {
+        ...result.manifest,
+        updatedAt: new Date().toISOString(),
+        enhancements: applied,
+        files: hashFiles(projectRoot, result.files, recorded)
+      };
+      writeProjectManifest(projectRoot, result.manifest, recorded);
+    }
+    if (transaction) transaction.commit();
+  } catch (err) {
+    if (transaction && options.keepOnFailure) {
+      transaction.commit();
+      emit({ type: 'warning', message: `Kept the partial project in ${finalRoot} for debugging` });
+    } else if (transaction) {
+      transaction.rollback();
+      if (committedToExistingRepository) {
+        emit({
+          type: 'warning',
+          message: `The files were restored, but the initial commit in ${path.join(finalRoot, '.git')} was kept; ` +
+            'undo it with `git reset HEAD~1` (or `git update-ref -d HEAD && git rm -r -q --cached .` if it was the first commit)'
+        });
+      }
+    }
+    throw err;
   }
 
-  if (aiEnhanced) {
-    await enhanceWithAI(projectRoot, template);
+  // Only once the project is final: a failed or cancelled run cannot take a
+  // remote repository back.
+  if (process.env.GITHUB_TOKEN && options.createGithubRepo !== false) {
+    await createGithubRepository(runtime, names.directoryName, template, options.githubOrg);
   }
 
-  console.log();
-  console.log(chalk.green('All done! Happy hacking ✨'));
-}
\ No newline at end of file
+  if (policy && !dryRun) {
+    result.policy = await checkNewProject(finalRoot, policy, emit);
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+// Edit distance between two strings: insertions, deletions, substitutions
+// and swapping two neighbouring characters, the most common typo.
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// The candidate the user most likely meant, if any is close enough. A typo
+// is a small edit; `aws-lambda` for `aws` is a prefix, which counts too.
+export function closestMatch(input: string, candidates: string[]): string | undefined {
+  const wanted = input.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const name = candidate.toLowerCase();
+    if (name === wanted) return candidate;
+    const prefix = Math.min(wanted.length, name.length) >= 2 && (wanted.startsWith(name) || name.startsWith(wanted));
+    const distance = prefix ? 1 : editDistance(wanted, name);
+    if (distance <= Math.max(1, Math.floor(name.length / 3)) && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// ` Did you mean 'x'?` or nothing, for the end of an error message.
+export function didYouMean(input: string, candidates: string[]): string {
+  const match = closestMatch(input, candidates);
+  return match ? ` Did you mean '${match}'?` : '';
+}
@@ -0,0 +1,92 @@
+import path from 'path';
+import { SubprojectRole, Template, variableDefaults } from './template-manifest';
+import { fetchTemplate, TemplateFetchOptions } from './template-sources';
+import { renderTemplate, TemplateContext } from './template-engine';
+import { deriveProjectNames } from './project-name';
+
+// A template mounted at a subpath of the generated project. Mounts of nested
+// composite templates are flattened, so `path` is always relative to the
+// project root.
+export interface Mount {
+  name: string;
+  path: string;
+  role: SubprojectRole;
+  template: Template;
+  parent?: Mount;
+  dependencies?: Record<string, string>;
+  context: Record<string, unknown>;
+}
+
+// Resolves every subproject of a template, depth first, into a flat list of
+// mounts. A template that (indirectly) mounts itself is rejected.
+export async function resolveMounts(root: Template, options: TemplateFetchOptions = {}): Promise<Mount[]> {
+  const mounts: Mount[] = [];
+
+  const visit = async (template: Template, parent: Mount | undefined, chain: string[]) => {
+    for (const spec of template.manifest.subprojects) {
+      const child = await fetchTemplate(spec.template, { ...options, baseDir: template.path });
+      if (chain.includes(child.path)) {
+        const names = [...chain, child.path].map(entry => path.basename(entry));
+        throw new Error(`Template composition cycle: ${names.join(' -> ')}`);
+      }
+      const mountPath = path.posix.join(parent ? parent.path : '', spec.path);
+      if (mountPath.startsWith('..') || path.posix.isAbsolute(mountPath)) {
+        throw new Error(`Subproject "${spec.name}" of template '${template.name}' must stay inside the project.`);
+      }
+
+      const mount: Mount = {
+        name: parent ? `${parent.name}-${spec.name}` : spec.name,
+        path: mountPath,
+        role: spec.role,
+        template: child,
+        parent,
+        dependencies: spec.dependencies,
+        context: spec.context || {}
+      };
+      mounts.push(mount);
+      await visit(child, mount, [...chain, child.path]);
+    }
+  };
+
+  await visit(root, undefined, [root.path]);
+  return mounts;
+}
+
+// The placeholder context of a mount: its own template's variable defaults,
+// then everything the enclosing template sees, then the mount's `context`
+// entries. String entries are rendered against the enclosing context, so a
+// mount can say `"packageName": "{{projectName}}-api"`. A mount that renames
+// the project gets matching npmName, serviceName and friends.
+export function mountContext(rootContext: TemplateContext, mount: Mount): TemplateContext {
+  const parentContext = mount.parent ? mountContext(rootContext, mount.parent) : rootContext;
+  const overrides: TemplateContext = {};
+  for (const [key, value] of Object.entries(mount.context)) {
+    overrides[key] = typeof value === 'string' ? renderTemplate(value, parentContext) : value;
+  }
+
+  const renamed = typeof overrides.projectName === 'string' ? deriveProjectNames(overrides.projectName) : {};
+
+  return {
+    ...variableDefaults(mount.template.manifest),
+    ...parentContext,
+    ...renamed,
+    ...overrides,
+    mount: { name: mount.name, path: mount.path, role: mount.role, template: mount.template.name }
+  };
+}
+
+// What the root template can iterate over, e.g. `{{#each subprojects}}{{path}}{{/each}}`.
+export function describeMounts(mounts: Mount[]): TemplateContext[] {
+  return mounts.map(mount => ({
+    name: mount.name,
+    path: mount.path,
+    role: mount.role,
+    template: mount.template.name,
+    language: mount.template.manifest.language
+  }));
+}
+
+// The mount that serves the API, if the project has one.
+export function apiMount(mounts: Mount[]): Mount | undefined {
+  return mounts.find(mount => mount.role === 'api');
+}
@@ -0,0 +1,320 @@
+// A deliberately small template language for files inside templates.
+//
+//   {{projectName}}                      variable (the original syntax)
+//   {{ projectName | snake | upper }}    filters: pascal, camel, snake, kebab, upper, lower, json
+//   {{#if deployTarget == "aws"}} ... {{else}} ... {{/if}}
+//   {{#each services as service}} {{service.name}} {{@index}} {{/each}}
+//   \{{ literal }}                       escaped, rendered as "{{ literal }}"
+//
+// Anything between braces that is not valid syntax, or that names a variable the
+// context does not define, is left untouched. That keeps JSX (style={{ ... }}),
+// GitHub Actions expressions (${{ matrix.node-version }}) and other templating
+// languages intact without requiring template authors to escape them.
+
+export type TemplateContext = Record<string, unknown>;
+
+type Filter = (value: unknown) => string;
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'var'; raw: string; path: string; filters: string[] }
+  | { type: 'if'; condition: string; then: Node[]; otherwise: Node[] }
+  | { type: 'each'; path: string; alias?: string; body: Node[] };
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'var'; raw: string; path: string; filters: string[] }
+  | { type: 'open'; block: 'if' | 'each'; argument: string }
+  | { type: 'else' }
+  | { type: 'close'; block: 'if' | 'each' };
+
+const PATH = '@?[A-Za-z_][\\w]*(?:\\.[A-Za-z_][\\w]*)*';
+const VAR_PATTERN = new RegExp(`^\\s*(${PATH})\\s*((?:\\|\\s*[A-Za-z]+\\s*)*)$`);
+const IF_PATTERN = /^#if\s+(.+?)\s*$/;
+const EACH_PATTERN = new RegExp(`^#each\\s+(${PATH})(?:\\s+as\\s+([A-Za-z_]\\w*))?\\s*$`);
+const CONDITION_PATTERN = new RegExp(`^(!)?\\s*(${PATH})(?:\\s*(==|!=)\\s*("[^"]*"|'[^']*'|-?\\d+(?:\\.\\d+)?|true|false))?$`);
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+export const FILTERS: Record<string, Filter> = {
+  pascal: value => words(String(value)).map(capitalize).join(''),
+  camel: value => {
+    const pascal = words(String(value)).map(capitalize).join('');
+    return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  },
+  snake: value => words(String(value)).map(word => word.toLowerCase()).join('_'),
+  kebab: value => words(String(value)).map(word => word.toLowerCase()).join('-'),
+  title: value => words(String(value)).map(capitalize).join(' '),
+  upper: value => String(value).toUpperCase(),
+  lower: value => String(value).toLowerCase(),
+  json: value => JSON.stringify(value)
+};
+
+function lookup(context: TemplateContext, path: string): unknown {
+  let current: unknown = context;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function parseTag(content: string): Token | undefined {
+  const trimmed = content.trim();
+  if (trimmed === 'else') return { type: 'else' };
+  if (trimmed === '/if') return { type: 'close', block: 'if' };
+  if (trimmed === '/each') return { type: 'close', block: 'each' };
+
+  const ifMatch = IF_PATTERN.exec(trimmed);
+  if (ifMatch && CONDITION_PATTERN.test(ifMatch[1])) {
+    return { type: 'open', block: 'if', argument: ifMatch[1] };
+  }
+  const eachMatch = EACH_PATTERN.exec(trimmed);
+  if (eachMatch) {
+    return { type: 'open', block: 'each', argument: trimmed.slice('#each'.length).trim() };
+  }
+  const varMatch = VAR_PATTERN.exec(content);
+  if (varMatch) {
+    const filters = varMatch[2].split('|').map(filter => filter.trim()).filter(Boolean);
+    return { type: 'var', raw: `{{${content}}}`, path: varMatch[1], filters };
+  }
+  return undefined;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let text = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('{{', index);
+    if (open === -1) {
+      text += source.slice(index);
+      break;
+    }
+    text += source.slice(index, open);
+
+    if (source[open - 1] === '\\') {
+      text = text.slice(0, -1) + '{{';
+      index = open + 2;
+      continue;
+    }
+    if (source[open - 1] === '$') {
+      text += '{{';
+      index = open + 2;
+      continue;
+    }
+
+    const close = source.indexOf('}}', open + 2);
+    const tag = close === -1 ? undefined : parseTag(source.slice(open + 2, close));
+    if (!tag) {
+      text += '{{';
+      index = open + 2;
+      continue;
+    }
+
+    if (text) tokens.push({ type: 'text', value: text });
+    text = '';
+    tokens.push(tag);
+    index = close + 2;
+  }
+
+  if (text) tokens.push({ type: 'text', value: text });
+  return stripStandaloneBlocks(tokens);
+}
+
+// A block tag that sits alone on its line takes the whole line with it, so
+// conditionals in YAML or Markdown do not leave blank lines behind.
+function stripStandaloneBlocks(tokens: Token[]): Token[] {
+  const textAt = (i: number) => {
+    const token = tokens[i];
+    return token && token.type === 'text' ? token.value : undefined;
+  };
+
+  const standalone = tokens.map((token, i) => {
+    if (token.type !== 'open' && token.type !== 'else' && token.type !== 'close') return false;
+    const before = i === 0 ? '' : textAt(i - 1);
+    const after = i === tokens.length - 1 ? '' : textAt(i + 1);
+    if (before === undefined || after === undefined) return false;
+    const startsLine = /\n[ \t]*$/.test(before) || (i <= 1 && /^[ \t]*$/.test(before));
+    return startsLine && /^[ \t]*(\r?\n|$)/.test(after);
+  });
+
+  standalone.forEach((isStandalone, i) => {
+    if (!isStandalone) return;
+    const before = tokens[i - 1];
+    const after = tokens[i + 1];
+    if (before && before.type === 'text') before.value = before.value.replace(/[ \t]*$/, '');
+    if (after && after.type === 'text') after.value = after.value.replace(/^[ \t]*(\r?\n)?/, '');
+  });
+  return tokens;
+}
+
+function parse(tokens: Token[]): Node[] {
+  let position = 0;
+
+  const parseUntil = (closing?: 'if' | 'each'): { nodes: Node[]; sawElse: boolean } => {
+    const nodes: Node[] = [];
+    while (position < tokens.length) {
+      const token = tokens[position++];
+      if (token.type === 'text' || token.type === 'var') {
+        nodes.push(token);
+      } else if (token.type === 'else') {
+        if (closing !== 'if') throw new Error('Unexpected {{else}} outside of an {{#if}} block');
+        return { nodes, sawElse: true };
+      } else if (token.type === 'close') {
+        if (token.block !== closing) throw new Error(`Unexpected {{/${token.block}}}`);
+        return { nodes, sawElse: false };
+      } else if (token.block === 'if') {
+        const then = parseUntil('if');
+        const otherwise = then.sawElse ? parseUntil('if') : { nodes: [], sawElse: false };
+        if (otherwise.sawElse) throw new Error('An {{#if}} block can only have one {{else}}');
+        nodes.push({ type: 'if', condition: token.argument, then: then.nodes, otherwise: otherwise.nodes });
+      } else {
+        const [path, , alias] = token.argument.split(/\s+/);
+        nodes.push({ type: 'each', path, alias, body: parseUntil('each').nodes });
+      }
+    }
+    if (closing) throw new Error(`Unclosed {{#${closing}}} block`);
+    return { nodes, sawElse: false };
+  };
+
+  return parseUntil().nodes;
+}
+
+function evaluateCondition(condition: string, context: TemplateContext): boolean {
+  const match = CONDITION_PATTERN.exec(condition) as RegExpExecArray;
+  const [, negate, path, operator, literal] = match;
+  const value = lookup(context, path);
+
+  let result: boolean;
+  if (operator) {
+    const expected = /^["']/.test(literal) ? literal.slice(1, -1) : JSON.parse(literal);
+    const equal = value === expected || (value !== undefined && value !== null && String(value) === String(expected));
+    result = operator === '==' ? equal : !equal;
+  } else {
+    result = Array.isArray(value) ? value.length > 0 : Boolean(value);
+  }
+  return negate ? !result : result;
+}
+
+function renderNodes(nodes: Node[], context: TemplateContext): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'var': {
+        const value = lookup(context, node.path);
+        if (value === undefined || node.filters.some(filter => !FILTERS[filter])) {
+          output += node.raw;
+          break;
+        }
+        output += node.filters.length > 0
+          ? node.filters.reduce<unknown>((current, filter) => FILTERS[filter](current), value)
+          : typeof value === 'string' ? value : JSON.stringify(value);
+        break;
+      }
+      case 'if':
+        output += renderNodes(evaluateCondition(node.condition, context) ? node.then : node.otherwise, context);
+        break;
+      case 'each': {
+        const items = lookup(context, node.path);
+        if (!Array.isArray(items)) break;
+        items.forEach((item, index) => {
+          const scope: TemplateContext = { ...context, this: item, '@index': index };
+          if (node.alias) {
+            scope[node.alias] = item;
+          } else if (item && typeof item === 'object' && !Array.isArray(item)) {
+            Object.assign(scope, item);
+          }
+          output += renderNodes(node.body, scope);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+export function renderTemplate(source: string, context: TemplateContext): string {
+  if (!source.includes('{{')) return source;
+  return renderNodes(parse(tokenize(source)), context);
+}
+
+export interface TemplateReference {
+  // First segment of the path, e.g. `service` for `{{ service.name }}`.
+  name: string;
+  // Used inside an {{#each}} without an alias, where a bare name may be a
+  // field of the current item rather than a context variable.
+  itemScoped: boolean;
+}
+
+// Lists the variables a template reads, without rendering it. Throws the same
+// errors as renderTemplate for unbalanced blocks.
+export function templateReferences(source: string): TemplateReference[] {
+  if (!source.includes('{{')) return [];
+  const references: TemplateReference[] = [];
+
+  const visit = (nodes: Node[], aliases: string[], itemScoped: boolean) => {
+    const note = (path: string) => {
+      const name = path.split('.')[0];
+      if (name.startsWith('@') || name === 'this' || aliases.includes(name)) return;
+      references.push({ name, itemScoped });
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'var') {
+        note(node.path);
+      } else if (node.type === 'if') {
+        note((CONDITION_PATTERN.exec(node.condition) as RegExpExecArray)[2]);
+        visit(node.then, aliases, itemScoped);
+        visit(node.otherwise, aliases, itemScoped);
+      } else if (node.type === 'each') {
+        note(node.path);
+        visit(node.body, node.alias ? [...aliases, node.alias] : aliases, itemScoped || !node.alias);
+      }
+    }
+  };
+
+  visit(parse(tokenize(source)), [], false);
+  return references;
+}
+
+// The inverse of rendering for plain text: escapes every tag the engine would
+// interpret, so the source renders back to itself.
+export function escapeTemplate(source: string): string {
+  let output = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('{{', index);
+    if (open === -1) {
+      output += source.slice(index);
+      break;
+    }
+    output += source.slice(index, open);
+
+    // Rendering drops the backslash before an escaped tag, so one already in
+    // the source needs another to survive.
+    const escaped = source[open - 1] === '\\';
+    const close = source.indexOf('}}', open + 2);
+    if (escaped || (source[open - 1] !== '$' && close !== -1 && parseTag(source.slice(open + 2, close)))) {
+      output += '\\';
+    }
+    output += '{{';
+    index = open + 2;
+  }
+  return output;
+}
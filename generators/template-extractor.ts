@@ -0,0 +1,288 @@
+import path from 'path';
+import {
+  chmodSync,
+  copyFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync
+} from 'fs';
+import { escapeTemplate, FILTERS } from './template-engine';
+import { isBinaryFile } from './template-files';
+import { MANIFEST_FILE, TemplateLanguage, CiFlavor } from './template-manifest';
+import { PROJECT_MANIFEST_FILE } from './project-manifest';
+import { DOTFILE_NAMES } from './template-paths';
+
+export interface ExtractOptions {
+  // Template name for the manifest; defaults to the project directory name.
+  name?: string;
+  // The name to replace with {{projectName}}; defaults to package.json/pyproject name.
+  projectName?: string;
+}
+
+// A template.json as written by extract, before anyone has reviewed it.
+export interface DraftManifest {
+  name: string;
+  displayName: string;
+  description: string;
+  language: TemplateLanguage;
+  packageManager: string;
+  installCommand: string;
+  testCommand: string;
+  buildCommand?: string;
+  buildOutputDir: string;
+  entryPoint: string;
+  startCommand: string;
+  ci: CiFlavor;
+  deployTargets: string[];
+  subprojects: never[];
+  variables: Record<string, never>;
+}
+
+export interface ExtractResult {
+  templatePath: string;
+  projectName: string;
+  manifest: DraftManifest;
+  files: string[];
+  skipped: string[];
+  replacements: number;
+}
+
+const SKIPPED_DIRECTORIES = [
+  'node_modules',
+  '.git',
+  'dist',
+  'build',
+  'out',
+  '.next',
+  '.nuxt',
+  '.turbo',
+  '.cache',
+  'coverage',
+  '__pycache__',
+  '.pytest_cache',
+  '.mypy_cache',
+  '.venv',
+  'venv',
+  '.stackstart'
+];
+
+const SKIPPED_FILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'poetry.lock',
+  'Pipfile.lock',
+  '.DS_Store',
+  // Local secrets never belong in a template; .env.example is kept.
+  '.env',
+  MANIFEST_FILE,
+  PROJECT_MANIFEST_FILE
+];
+
+const SKIPPED_EXTENSIONS = ['.pyc', '.log'];
+
+const BUILD_OUTPUT_DIRS = ['dist', 'build', 'out'];
+
+const LOCKFILES: Array<[string, string]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['package-lock.json', 'npm']
+];
+
+const PYTHON_ENTRY_POINTS = ['src/main.py', 'main.py', 'app.py', 'src/app.py', 'manage.py'];
+
+function isSkipped(name: string, isDirectory: boolean): boolean {
+  if (isDirectory) return SKIPPED_DIRECTORIES.includes(name);
+  return SKIPPED_FILES.includes(name) || SKIPPED_EXTENSIONS.includes(path.extname(name));
+}
+
+function readJson(filePath: string): any {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    throw new Error(`Could not parse ${filePath}: ${(err as Error).message}`);
+  }
+}
+
+function pyprojectName(projectDir: string): string | undefined {
+  const pyprojectPath = path.join(projectDir, 'pyproject.toml');
+  if (!existsSync(pyprojectPath)) return undefined;
+  const match = /^\s*name\s*=\s*["']([^"']+)["']/m.exec(readFileSync(pyprojectPath, 'utf8'));
+  return match ? match[1] : undefined;
+}
+
+function detectProjectName(projectDir: string): string {
+  const packageJsonPath = path.join(projectDir, 'package.json');
+  if (existsSync(packageJsonPath)) {
+    const { name } = readJson(packageJsonPath);
+    if (typeof name === 'string' && name) return name;
+  }
+  return pyprojectName(projectDir) || path.basename(projectDir);
+}
+
+// Reads the package manager, commands and entry point off the project the
+// same way a person setting up the template by hand would.
+function detectManifest(projectDir: string, name: string, projectName: string): DraftManifest {
+  const has = (file: string) => existsSync(path.join(projectDir, file));
+  const buildOutputDir = BUILD_OUTPUT_DIRS.find(dir => has(dir));
+  const words = FILTERS.kebab(name).split('-');
+  const base = {
+    name,
+    displayName: words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+    description: `Extracted from ${projectName}`,
+    deployTargets: ['vercel', 'netlify', 'aws', 'gcp'],
+    subprojects: [] as never[],
+    variables: {}
+  };
+
+  if (has('package.json')) {
+    const packageJson = readJson(path.join(projectDir, 'package.json'));
+    const scripts: Record<string, string> = packageJson.scripts || {};
+    const declared = typeof packageJson.packageManager === 'string' ? packageJson.packageManager.split('@')[0] : undefined;
+    const lockfile = LOCKFILES.find(([file]) => has(file));
+    const packageManager = declared || (lockfile ? lockfile[1] : 'npm');
+    const entryPoint = [packageJson.main, 'src/index.js', 'src/index.ts', 'index.js', 'src/main.jsx', 'src/main.tsx']
+      .find(candidate => typeof candidate === 'string' && has(candidate)) || 'src/index.js';
+
+    return {
+      ...base,
+      language: 'javascript',
+      packageManager,
+      installCommand: `${packageManager} install`,
+      testCommand: `${packageManager} test`,
+      buildCommand: scripts.build ? `${packageManager} run build` : undefined,
+      buildOutputDir: buildOutputDir || 'dist',
+      entryPoint,
+      startCommand: scripts.start ? `${packageManager} start` : `node ${entryPoint}`,
+      ci: 'node'
+    };
+  }
+
+  if (has('requirements.txt') || has('pyproject.toml')) {
+    const requirements = has('requirements.txt') ? readFileSync(path.join(projectDir, 'requirements.txt'), 'utf8') : '';
+    const usesPytest = /^pytest\b/m.test(requirements) || has('pytest.ini') || has('conftest.py');
+    const entryPoint = PYTHON_ENTRY_POINTS.find(candidate => has(candidate)) || 'src/main.py';
+
+    return {
+      ...base,
+      language: 'python',
+      packageManager: 'pip',
+      installCommand: has('requirements.txt') ? 'pip install -r requirements.txt' : 'pip install .',
+      testCommand: usesPytest ? 'pytest' : 'python -m unittest',
+      buildOutputDir: buildOutputDir || 'public',
+      entryPoint,
+      startCommand: `python ${entryPoint}`,
+      ci: 'python'
+    };
+  }
+
+  throw new Error(`Could not detect the stack of ${projectDir}: no package.json, requirements.txt or pyproject.toml found.`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Every spelling of the project name, mapped to the placeholder that renders
+// it. Longer spellings are matched first and the original spelling wins ties.
+function nameVariants(projectName: string): Array<[string, string]> {
+  const candidates: Array<[string, string]> = [
+    [projectName, '{{projectName}}'],
+    [FILTERS.kebab(projectName), '{{ projectName | kebab }}'],
+    [FILTERS.snake(projectName), '{{ projectName | snake }}'],
+    [FILTERS.snake(projectName).toUpperCase(), '{{ projectName | snake | upper }}'],
+    [FILTERS.pascal(projectName), '{{ projectName | pascal }}'],
+    [FILTERS.camel(projectName), '{{ projectName | camel }}']
+  ];
+  const variants = new Map<string, string>();
+  for (const [literal, placeholder] of candidates) {
+    if (literal && !variants.has(literal)) variants.set(literal, placeholder);
+  }
+  return Array.from(variants.entries()).sort((a, b) => b[0].length - a[0].length);
+}
+
+// Replaces whole-word occurrences only, so `app` in `apple` is left alone.
+function replaceNames(source: string, variants: Array<[string, string]>): { text: string; count: number } {
+  const pattern = new RegExp(`(?<![A-Za-z0-9])(?:${variants.map(([literal]) => escapeRegExp(literal)).join('|')})(?![A-Za-z0-9])`, 'g');
+  const lookup = new Map(variants);
+  let count = 0;
+  const text = source.replace(pattern, match => {
+    count++;
+    return lookup.get(match) as string;
+  });
+  return { text, count };
+}
+
+// The inverse of renderEntryName's dotfile mapping: .gitignore -> _gitignore.
+function templateEntryName(entry: string, variants: Array<[string, string]>): { name: string; count: number } {
+  const match = /^\.([^._]+)/.exec(entry);
+  const undotted = match && DOTFILE_NAMES.includes(match[1]) ? `_${entry.slice(1)}` : entry;
+  const { text, count } = replaceNames(escapeTemplate(undotted), variants);
+  return { name: text, count };
+}
+
+// Copies an existing project into a new template directory: skips dependencies,
+// VCS data, build output and lockfiles, turns the project's name into
+// placeholders and writes a draft template.json for the author to review.
+export function extractTemplate(projectDir: string, outputDir: string, options: ExtractOptions = {}): ExtractResult {
+  const source = path.resolve(projectDir);
+  const templatePath = path.resolve(outputDir);
+  if (!existsSync(source) || !lstatSync(source).isDirectory()) {
+    throw new Error(`Project directory ${projectDir} does not exist.`);
+  }
+  if (existsSync(templatePath)) {
+    throw new Error(`Directory ${outputDir} already exists.`);
+  }
+  if (templatePath.startsWith(source + path.sep)) {
+    throw new Error('The template cannot be written inside the project it is extracted from.');
+  }
+
+  const projectName = options.projectName || detectProjectName(source);
+  const name = options.name || FILTERS.kebab(path.basename(source));
+  const manifest = detectManifest(source, name, projectName);
+  const variants = nameVariants(projectName);
+  const result: ExtractResult = { templatePath, projectName, manifest, files: [], skipped: [], replacements: 0 };
+
+  const visit = (sourceDir: string, targetDir: string, relativeDir: string, targetRelativeDir: string) => {
+    mkdirSync(targetDir, { recursive: true });
+    for (const entry of readdirSync(sourceDir)) {
+      const sourcePath = path.join(sourceDir, entry);
+      const relativePath = relativeDir ? `${relativeDir}/${entry}` : entry;
+      const stats = lstatSync(sourcePath);
+      if (stats.isSymbolicLink() || isSkipped(entry, stats.isDirectory())) {
+        result.skipped.push(relativePath);
+        continue;
+      }
+
+      const renamed = templateEntryName(entry, variants);
+      result.replacements += renamed.count;
+      const targetPath = path.join(targetDir, renamed.name);
+      const targetRelativePath = targetRelativeDir ? `${targetRelativeDir}/${renamed.name}` : renamed.name;
+      if (stats.isDirectory()) {
+        visit(sourcePath, targetPath, relativePath, targetRelativePath);
+        continue;
+      }
+
+      const content = readFileSync(sourcePath).toString('utf8');
+      if (isBinaryFile(sourcePath) || content.includes('\uFFFD')) {
+        copyFileSync(sourcePath, targetPath);
+      } else {
+        const replaced = replaceNames(escapeTemplate(content), variants);
+        result.replacements += replaced.count;
+        writeFileSync(targetPath, replaced.text, 'utf8');
+      }
+      chmodSync(targetPath, stats.mode);
+      result.files.push(targetRelativePath);
+    }
+  };
+
+  visit(source, templatePath, '', '');
+  writeFileSync(path.join(templatePath, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+  return result;
+}
@@ -0,0 +1,98 @@
+import path from 'path';
+import { readdirSync, lstatSync, readFileSync, openSync, readSync, closeSync } from 'fs';
+import { renderTemplate, TemplateContext } from './template-engine';
+import { diskFileSystem, FileSystem } from './filesystem';
+import { matchesGlob, renderEntryName } from './template-paths';
+
+export interface TemplateCopyRules {
+  // Top-level entries of the source that are never copied (manifest, demo overlay).
+  exclude?: string[];
+  // When set, only files matching one of these globs are rendered.
+  render?: string[];
+  // Files matching these globs are copied byte for byte.
+  copyOnly?: string[];
+}
+
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'webp', 'avif', 'tiff', 'psd',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'tar', 'jar',
+  'pdf', 'mp3', 'mp4', 'mov', 'avi', 'wav', 'ogg', 'webm',
+  'wasm', 'exe', 'dll', 'so', 'dylib', 'class', 'pyc', 'node', 'sqlite', 'db'
+]);
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary.
+const SNIFF_BYTES = 8000;
+
+export function isBinaryFile(filePath: string): boolean {
+  if (BINARY_EXTENSIONS.has(path.extname(filePath).slice(1).toLowerCase())) return true;
+
+  const fd = openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const bytesRead = readSync(fd, buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+export function shouldRender(relativePath: string, filePath: string, rules: TemplateCopyRules): boolean {
+  if (rules.copyOnly && rules.copyOnly.some(pattern => matchesGlob(relativePath, pattern))) return false;
+  if (rules.render && !rules.render.some(pattern => matchesGlob(relativePath, pattern))) return false;
+  return !isBinaryFile(filePath);
+}
+
+function renderFile(src: string, context: TemplateContext): string | Buffer {
+  const raw = readFileSync(src);
+  const content = raw.toString('utf8');
+  // Files without tags, or that are not valid UTF-8, are copied untouched so
+  // their bytes can never be altered by a decode/encode round trip.
+  if (!content.includes('{{') || content.includes('\uFFFD')) {
+    return raw;
+  }
+  try {
+    return renderTemplate(content, context);
+  } catch (err) {
+    throw new Error(`Failed to render ${src}: ${(err as Error).message}`);
+  }
+}
+
+// Copies a template into place and renders it in a single traversal: names go
+// through renderEntryName, text files through the template engine, and binary
+// or copy-only files are copied as-is without being read into memory. The template is read from disk and the
+// result written through `fs`. Returns the files that were written.
+export function copyTemplateFiles(
+  src: string,
+  dest: string,
+  context: TemplateContext,
+  rules: TemplateCopyRules = {},
+  fs: FileSystem = diskFileSystem
+): string[] {
+  const written: string[] = [];
+
+  const visit = (source: string, target: string, relativePath: string) => {
+    const stats = lstatSync(source);
+    if (stats.isDirectory()) {
+      fs.mkdir(target);
+      for (const entry of readdirSync(source)) {
+        if (!relativePath && rules.exclude && rules.exclude.includes(entry)) continue;
+        const name = renderEntryName(entry, context);
+        if (!name) continue;
+        visit(path.join(source, entry), path.join(target, name), relativePath ? `${relativePath}/${entry}` : entry);
+      }
+      return;
+    }
+
+    fs.mkdir(path.dirname(target));
+    if (shouldRender(relativePath, source, rules)) {
+      fs.writeFile(target, renderFile(source, context), stats.mode);
+    } else {
+      fs.copyFile(source, target, stats.mode);
+    }
+    written.push(target);
+  };
+
+  visit(src, dest, '');
+  return written;
+}
@@ -0,0 +1,170 @@
+import path from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { TemplateCopyRules } from './template-files';
+
+export const MANIFEST_FILE = 'template.json';
+
+export type TemplateLanguage = 'javascript' | 'python';
+
+export type CiFlavor = 'node' | 'python';
+
+export type SubprojectRole = 'api' | 'web' | 'worker' | 'library';
+
+export interface SubprojectManifest {
+  name: string;
+  template: string;
+  path: string;
+  role: SubprojectRole;
+  dependencies?: Record<string, string>;
+  // Extra placeholder values for this mount only.
+  context?: Record<string, unknown>;
+}
+
+export interface TemplateVariable {
+  description?: string;
+  default?: string | number | boolean;
+}
+
+export interface TemplateManifest {
+  name: string;
+  displayName: string;
+  description: string;
+  // Recorded in generated projects; bundled templates go with stackstart's version.
+  version?: string;
+  language: TemplateLanguage;
+  packageManager: string;
+  installCommand: string;
+  testCommand: string;
+  buildCommand?: string;
+  buildOutputDir: string;
+  entryPoint: string;
+  startCommand: string;
+  ci: CiFlavor;
+  deployTargets: string[];
+  subprojects: SubprojectManifest[];
+  variables: Record<string, TemplateVariable>;
+  render?: string[];
+  copyOnly: string[];
+  demo?: string;
+}
+
+export type TemplateSource = 'override' | 'project' | 'user' | 'bundled' | 'local' | 'git' | 'archive';
+
+// Where a template fetched from outside the search path came from, pinned to
+// the exact revision that was used.
+export interface TemplateOrigin {
+  spec: string;
+  url?: string;
+  ref?: string;
+  commit?: string;
+  integrity?: string;
+}
+
+export interface Template {
+  name: string;
+  path: string;
+  source: TemplateSource;
+  manifest: TemplateManifest;
+  origin?: TemplateOrigin;
+}
+
+const REQUIRED_FIELDS: Array<keyof TemplateManifest> = [
+  'language',
+  'packageManager',
+  'installCommand',
+  'testCommand',
+  'buildOutputDir',
+  'entryPoint',
+  'startCommand',
+  'ci'
+];
+
+const LANGUAGES: TemplateLanguage[] = ['javascript', 'python'];
+const CI_FLAVORS: CiFlavor[] = ['node', 'python'];
+const ROLES: SubprojectRole[] = ['api', 'web', 'worker', 'library'];
+
+export function loadTemplateManifest(templatePath: string): TemplateManifest {
+  const manifestPath = path.join(templatePath, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    throw new Error(`Template at ${templatePath} has no ${MANIFEST_FILE} manifest.`);
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  } catch (err) {
+    throw new Error(`Invalid template manifest at ${manifestPath}: ${(err as Error).message}`);
+  }
+
+  const invalid = (reason: string) => new Error(`Invalid template manifest at ${manifestPath}: ${reason}`);
+
+  for (const field of REQUIRED_FIELDS) {
+    if (typeof raw[field] !== 'string' || raw[field].length === 0) {
+      throw invalid(`"${field}" must be a non-empty string`);
+    }
+  }
+  if (!LANGUAGES.includes(raw.language)) {
+    throw invalid(`"language" must be one of ${LANGUAGES.join(', ')}`);
+  }
+  if (!CI_FLAVORS.includes(raw.ci)) {
+    throw invalid(`"ci" must be one of ${CI_FLAVORS.join(', ')}`);
+  }
+
+  const subprojects: SubprojectManifest[] = Array.isArray(raw.subprojects) ? raw.subprojects : [];
+  for (const sub of subprojects) {
+    if (!sub.name || !sub.template || !sub.path) {
+      throw invalid('every subproject needs "name", "template" and "path"');
+    }
+    if (!ROLES.includes(sub.role)) {
+      throw invalid(`subproject "${sub.name}" must have a role of ${ROLES.join(', ')}`);
+    }
+    if (sub.context !== undefined && (typeof sub.context !== 'object' || Array.isArray(sub.context))) {
+      throw invalid(`subproject "${sub.name}" has a "context" that is not an object`);
+    }
+  }
+
+  const name = raw.name || path.basename(templatePath);
+
+  return {
+    name,
+    displayName: raw.displayName || name,
+    description: raw.description || '',
+    version: typeof raw.version === 'string' ? raw.version : undefined,
+    language: raw.language,
+    packageManager: raw.packageManager,
+    installCommand: raw.installCommand,
+    testCommand: raw.testCommand,
+    buildCommand: raw.buildCommand,
+    buildOutputDir: raw.buildOutputDir,
+    entryPoint: raw.entryPoint,
+    startCommand: raw.startCommand,
+    ci: raw.ci,
+    deployTargets: Array.isArray(raw.deployTargets) ? raw.deployTargets : [],
+    subprojects,
+    variables: raw.variables && typeof raw.variables === 'object' ? raw.variables : {},
+    render: Array.isArray(raw.render) ? raw.render : undefined,
+    copyOnly: Array.isArray(raw.copyOnly) ? raw.copyOnly : [],
+    demo: raw.demo
+  };
+}
+
+export function variableDefaults(manifest: TemplateManifest): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  for (const [name, variable] of Object.entries(manifest.variables)) {
+    if (variable.default !== undefined) defaults[name] = variable.default;
+  }
+  return defaults;
+}
+
+// Files that describe the template itself and must not end up in the project.
+export function templateMetadataEntries(manifest: TemplateManifest): string[] {
+  return manifest.demo ? [MANIFEST_FILE, manifest.demo] : [MANIFEST_FILE];
+}
+
+export function templateCopyRules(manifest: TemplateManifest): TemplateCopyRules {
+  return {
+    exclude: templateMetadataEntries(manifest),
+    render: manifest.render,
+    copyOnly: manifest.copyOnly
+  };
+}
@@ -0,0 +1,76 @@
+import { renderTemplate, TemplateContext } from './template-engine';
+
+// npm strips these files when a package is published, so templates store them
+// with a leading underscore (_gitignore, _npmrc, _github/...) and they are
+// renamed on copy. Only names in this list are renamed, which keeps files like
+// __init__.py or Next.js' _app.js intact.
+export const DOTFILE_NAMES = [
+  'gitignore',
+  'gitattributes',
+  'npmrc',
+  'npmignore',
+  'nvmrc',
+  'editorconfig',
+  'env',
+  'eslintrc',
+  'eslintignore',
+  'prettierrc',
+  'prettierignore',
+  'dockerignore',
+  'github'
+];
+
+// Renders a single file or directory name from a template. An empty result
+// means the entry is conditional and should be skipped.
+export function renderEntryName(entry: string, context: TemplateContext): string {
+  const rendered = renderTemplate(entry, context);
+  if (/[/\\]/.test(rendered) || rendered === '.' || rendered === '..') {
+    throw new Error(`Template path '${entry}' rendered to an invalid name '${rendered}'.`);
+  }
+
+  const match = /^_([^._]+)/.exec(rendered);
+  if (match && DOTFILE_NAMES.includes(match[1])) {
+    return `.${rendered.slice(1)}`;
+  }
+  return rendered;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function globSource(pattern: string): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(globSource).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+// Matches a template-relative path against a glob (*, **, ?, {a,b}). Like
+// .gitignore, a pattern without a slash matches the file name at any depth.
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const normalized = relativePath.split('\\').join('/');
+  const anchored = pattern.includes('/');
+  const target = anchored ? normalized : normalized.slice(normalized.lastIndexOf('/') + 1);
+  return new RegExp(`^${globSource(anchored ? pattern.replace(/^\//, '') : pattern)}$`).test(target);
+}
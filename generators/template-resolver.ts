@@ -0,0 +1,111 @@
+import os from 'os';
+import path from 'path';
+import { existsSync, lstatSync, readdirSync } from 'fs';
+import { didYouMean } from './suggest';
+import { loadTemplateManifest, MANIFEST_FILE, Template, TemplateSource } from './template-manifest';
+
+export const TEMPLATES_ENV_VAR = 'STACKSTART_TEMPLATES';
+
+export interface TemplateSearchOptions {
+  cwd?: string;
+  homeDir?: string;
+  env?: NodeJS.ProcessEnv;
+  extraPaths?: string[];
+}
+
+export interface TemplateLocation {
+  source: TemplateSource;
+  root: string;
+}
+
+// Walks up from this module until it finds the templates/ directory shipped
+// with the package, so it works from both the sources and the compiled dist/.
+export function bundledTemplatesRoot(): string {
+  let dir = __dirname;
+  for (;;) {
+    const candidate = path.join(dir, 'templates');
+    if (existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir) return path.resolve(__dirname, '..', 'templates');
+    dir = parent;
+  }
+}
+
+// Ordered from highest to lowest precedence: earlier locations shadow later ones.
+export function templateSearchPath(options: TemplateSearchOptions = {}): TemplateLocation[] {
+  const cwd = options.cwd || process.cwd();
+  const homeDir = options.homeDir || os.homedir();
+  const env = options.env || process.env;
+
+  const envPaths = (env[TEMPLATES_ENV_VAR] || '').split(path.delimiter).filter(Boolean);
+  const overrides = [...(options.extraPaths || []), ...envPaths];
+
+  const locations: TemplateLocation[] = overrides.map(root => ({
+    source: 'override' as const,
+    root: path.resolve(cwd, root)
+  }));
+  locations.push({ source: 'project', root: path.join(cwd, '.stackstart', 'templates') });
+  locations.push({ source: 'user', root: path.join(homeDir, '.stackstart', 'templates') });
+  locations.push({ source: 'bundled', root: bundledTemplatesRoot() });
+
+  return locations;
+}
+
+export interface TemplateListing {
+  name: string;
+  path: string;
+  source: TemplateSource;
+  template?: Template;
+  // Why the manifest could not be loaded.
+  error?: string;
+  // A template with the same name earlier in the search path wins.
+  shadowed: boolean;
+}
+
+// Every template on the search path, in precedence order. Directories without
+// a manifest are ignored; broken manifests are listed with their error.
+export function listTemplates(options: TemplateSearchOptions = {}): TemplateListing[] {
+  const listings: TemplateListing[] = [];
+  const seen = new Set<string>();
+
+  for (const location of templateSearchPath(options)) {
+    if (!existsSync(location.root)) continue;
+    for (const name of readdirSync(location.root).sort()) {
+      const templatePath = path.join(location.root, name);
+      if (!lstatSync(templatePath).isDirectory() || !existsSync(path.join(templatePath, MANIFEST_FILE))) continue;
+
+      const listing: TemplateListing = { name, path: templatePath, source: location.source, shadowed: seen.has(name) };
+      try {
+        listing.template = { name, path: templatePath, source: location.source, manifest: loadTemplateManifest(templatePath) };
+      } catch (err) {
+        listing.error = (err as Error).message;
+      }
+      seen.add(name);
+      listings.push(listing);
+    }
+  }
+  return listings;
+}
+
+export function resolveTemplate(name: string, options: TemplateSearchOptions = {}): Template {
+  const locations = templateSearchPath(options);
+
+  for (const location of locations) {
+    const templatePath = path.join(location.root, name);
+    // Like listTemplates, a directory without a manifest is not a template.
+    if (existsSync(path.join(templatePath, MANIFEST_FILE))) {
+      return {
+        name,
+        path: templatePath,
+        source: location.source,
+        manifest: loadTemplateManifest(templatePath)
+      };
+    }
+  }
+
+  const searched = locations
+    .map(location => `  - ${path.join(location.root, name)} (${location.source})`)
+    .join('\n');
+  const known = Array.from(new Set(listTemplates(options).filter(listing => !listing.error).map(listing => listing.name)));
+  throw new Error(`Template '${name}' not found.${didYouMean(name, known)} Searched:\n${searched}`);
+}
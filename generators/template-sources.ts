@@ -0,0 +1,240 @@
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  lstatSync,
+  statSync,
+  renameSync,
+  rmSync,
+  writeFileSync
+} from 'fs';
+import execa from 'execa';
+import simpleGit from 'simple-git';
+import { loadTemplateManifest, Template, TemplateOrigin, TemplateSource } from './template-manifest';
+import { resolveTemplate, TemplateSearchOptions } from './template-resolver';
+
+export const CACHE_ENV_VAR = 'STACKSTART_CACHE_DIR';
+
+export type TemplateSpecKind = 'name' | 'path' | 'git' | 'archive';
+
+export interface TemplateSpec {
+  kind: TemplateSpecKind;
+  raw: string;
+  location: string;
+  ref?: string;
+}
+
+export interface TemplateFetchOptions extends TemplateSearchOptions {
+  cacheDir?: string;
+  // Directory that relative paths and archives are resolved against.
+  baseDir?: string;
+}
+
+const ARCHIVE_PATTERN = /\.(tgz|tar\.gz)$/i;
+const COMMIT_PATTERN = /^[0-9a-f]{40}$/i;
+
+export function parseTemplateSpec(raw: string): TemplateSpec {
+  if (raw.startsWith('git+') || /^[a-z][a-z0-9+.-]*:\/\/.+\.git(#.*)?$/i.test(raw)) {
+    const [url, ref] = raw.replace(/^git\+/, '').split('#');
+    return { kind: 'git', raw, location: url, ref: ref || undefined };
+  }
+  if (ARCHIVE_PATTERN.test(raw)) {
+    return { kind: 'archive', raw, location: raw };
+  }
+  if (raw.startsWith('.') || raw.startsWith('~') || path.isAbsolute(raw)) {
+    return { kind: 'path', raw, location: raw };
+  }
+  return { kind: 'name', raw, location: raw };
+}
+
+export function templateCacheDir(options: TemplateFetchOptions = {}): string {
+  const env = options.env || process.env;
+  if (options.cacheDir) return options.cacheDir;
+  if (env[CACHE_ENV_VAR]) return env[CACHE_ENV_VAR] as string;
+  return path.join(options.homeDir || os.homedir(), '.stackstart', 'cache', 'templates');
+}
+
+export function formatTemplateOrigin(origin: TemplateOrigin): string {
+  const pins = [
+    origin.commit ? `commit ${origin.commit}` : undefined,
+    origin.integrity ? `sha256 ${origin.integrity}` : undefined
+  ].filter(Boolean);
+  return pins.length > 0 ? `Template: ${origin.spec} (${pins.join(', ')})` : `Template: ${origin.spec}`;
+}
+
+function expandPath(location: string, options: TemplateFetchOptions): string {
+  if (location.startsWith('~')) {
+    return path.join(options.homeDir || os.homedir(), location.slice(1));
+  }
+  return path.resolve(options.baseDir || options.cwd || process.cwd(), location);
+}
+
+function hash(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Each cache entry has a sidecar file recording where it came from, so cached
+// templates can be listed without fetching anything.
+function recordOrigin(dest: string, source: TemplateSource, origin: TemplateOrigin): void {
+  writeFileSync(`${dest}.json`, JSON.stringify({ source, ...origin }, null, 2), 'utf8');
+}
+
+function loadFetchedTemplate(templatePath: string, source: TemplateSource, origin: TemplateOrigin): Template {
+  const manifest = loadTemplateManifest(templatePath);
+  return { name: manifest.name, path: templatePath, source, manifest, origin };
+}
+
+// Populates a cache entry atomically so an interrupted fetch never leaves a
+// half-written directory that a later run would mistake for a valid template.
+async function populateCache(dest: string, fill: (staging: string) => Promise<void>): Promise<void> {
+  if (existsSync(dest)) return;
+  const staging = `${dest}.tmp-${process.pid}`;
+  rmSync(staging, { recursive: true, force: true });
+  mkdirSync(staging, { recursive: true });
+  try {
+    await fill(staging);
+    renameSync(staging, dest);
+  } catch (err) {
+    rmSync(staging, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+async function resolveRemoteRef(url: string, ref: string): Promise<string> {
+  if (COMMIT_PATTERN.test(ref)) return ref.toLowerCase();
+
+  const output = await simpleGit().listRemote([url, ref, `${ref}^{}`]);
+  const lines = output.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error(`Ref '${ref}' not found in ${url}`);
+  }
+  // Annotated tags are listed twice; the peeled "^{}" entry is the commit.
+  const peeled = lines.find(line => line.endsWith('^{}'));
+  return (peeled || lines[0]).split(/\s+/)[0];
+}
+
+async function fetchGitTemplate(spec: TemplateSpec, options: TemplateFetchOptions): Promise<Template> {
+  const url = spec.location;
+  const ref = spec.ref || 'HEAD';
+  const commit = await resolveRemoteRef(url, ref);
+  const dest = path.join(templateCacheDir(options), 'git', hash(url).slice(0, 16), commit);
+
+  await populateCache(dest, async staging => {
+    await simpleGit().clone(url, staging, ['--no-checkout']);
+    await simpleGit(staging).checkout(commit);
+    rmSync(path.join(staging, '.git'), { recursive: true, force: true });
+  });
+
+  const origin = { spec: spec.raw, url, ref, commit };
+  recordOrigin(dest, 'git', origin);
+  return loadFetchedTemplate(dest, 'git', origin);
+}
+
+// npm-style tarballs wrap everything in a single top-level directory.
+function unwrapSingleDirectory(dir: string): string {
+  const entries = readdirSync(dir);
+  if (entries.length === 1 && lstatSync(path.join(dir, entries[0])).isDirectory()) {
+    return path.join(dir, entries[0]);
+  }
+  return dir;
+}
+
+async function fetchArchiveTemplate(spec: TemplateSpec, options: TemplateFetchOptions): Promise<Template> {
+  const archivePath = expandPath(spec.location, options);
+  if (!existsSync(archivePath)) {
+    throw new Error(`Template archive ${archivePath} does not exist.`);
+  }
+  const integrity = hash(readFileSync(archivePath));
+  const dest = path.join(templateCacheDir(options), 'archives', integrity);
+
+  await populateCache(dest, async staging => {
+    await execa('tar', ['-xzf', archivePath, '-C', staging]);
+  });
+
+  const origin = { spec: spec.raw, url: archivePath, integrity };
+  recordOrigin(dest, 'archive', origin);
+  return loadFetchedTemplate(unwrapSingleDirectory(dest), 'archive', origin);
+}
+
+function loadPathTemplate(spec: TemplateSpec, options: TemplateFetchOptions): Template {
+  const templatePath = expandPath(spec.location, options);
+  if (!existsSync(templatePath)) {
+    throw new Error(`Template path ${templatePath} does not exist.`);
+  }
+  return loadFetchedTemplate(templatePath, 'local', { spec: spec.raw, url: templatePath });
+}
+
+export async function fetchTemplate(raw: string, options: TemplateFetchOptions = {}): Promise<Template> {
+  const spec = parseTemplateSpec(raw);
+  switch (spec.kind) {
+    case 'git':
+      return fetchGitTemplate(spec, options);
+    case 'archive':
+      return fetchArchiveTemplate(spec, options);
+    case 'path':
+      return loadPathTemplate(spec, options);
+    default:
+      return resolveTemplate(raw, options);
+  }
+}
+
+// The directory an archive with this sha256 was unpacked to, if it is still cached.
+export function cachedArchivePath(integrity: string, options: TemplateFetchOptions = {}): string | undefined {
+  const dest = path.join(templateCacheDir(options), 'archives', integrity);
+  return existsSync(dest) ? unwrapSingleDirectory(dest) : undefined;
+}
+
+// A bundled template as it shipped in an earlier stackstart, taken from the
+// package published to npm.
+export async function fetchPublishedTemplate(name: string, version: string, options: TemplateFetchOptions = {}): Promise<string> {
+  const dest = path.join(templateCacheDir(options), 'stackstart', version);
+  await populateCache(dest, async staging => {
+    await execa('npm', ['pack', `stackstart@${version}`, '--pack-destination', staging]);
+    const tarball = path.join(staging, `stackstart-${version}.tgz`);
+    await execa('tar', ['-xzf', tarball, '-C', staging]);
+    rmSync(tarball, { force: true });
+  });
+  const templatePath = path.join(dest, 'package', 'templates', name);
+  if (!existsSync(templatePath)) {
+    throw new Error(`stackstart ${version} has no bundled template '${name}'.`);
+  }
+  return templatePath;
+}
+
+// Templates that were fetched from git or an archive before, newest first.
+// Entries that no longer load are left out.
+export function listCachedTemplates(options: TemplateFetchOptions = {}): Template[] {
+  const cacheDir = templateCacheDir(options);
+  const sidecars: string[] = [];
+  const gitDir = path.join(cacheDir, 'git');
+  if (existsSync(gitDir)) {
+    for (const repo of readdirSync(gitDir)) {
+      for (const entry of readdirSync(path.join(gitDir, repo))) {
+        if (entry.endsWith('.json')) sidecars.push(path.join(gitDir, repo, entry));
+      }
+    }
+  }
+  const archivesDir = path.join(cacheDir, 'archives');
+  if (existsSync(archivesDir)) {
+    for (const entry of readdirSync(archivesDir)) {
+      if (entry.endsWith('.json')) sidecars.push(path.join(archivesDir, entry));
+    }
+  }
+
+  const templates: Template[] = [];
+  for (const sidecar of sidecars.sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)) {
+    const dest = sidecar.slice(0, -'.json'.length);
+    if (!existsSync(dest)) continue;
+    try {
+      const { source, ...origin } = JSON.parse(readFileSync(sidecar, 'utf8'));
+      templates.push(loadFetchedTemplate(source === 'archive' ? unwrapSingleDirectory(dest) : dest, source, origin));
+    } catch (err) {
+      continue;
+    }
+  }
+  return templates;
+}
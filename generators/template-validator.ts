@@ -0,0 +1,260 @@
+import path from 'path';
+import os from 'os';
+import { existsSync, lstatSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import {
+  loadTemplateManifest,
+  templateCopyRules,
+  variableDefaults,
+  Template,
+  TemplateManifest,
+  MANIFEST_FILE
+} from './template-manifest';
+import { describeMounts, Mount, mountContext, resolveMounts } from './template-composition';
+import { TemplateContext, templateReferences } from './template-engine';
+import { copyTemplateFiles, isBinaryFile } from './template-files';
+import { matchesGlob } from './template-paths';
+import { deriveProjectNames } from './project-name';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  message: string;
+  // Path relative to the template (or to the trial render for output checks).
+  file?: string;
+}
+
+export interface ValidationReport {
+  templatePath: string;
+  issues: ValidationIssue[];
+  // Number of files the trial render produced; 0 when it did not run.
+  renderedFiles: number;
+}
+
+export const SAMPLE_PROJECT_NAME = 'sample-app';
+
+// Variables that generateScaffold always provides, plus `mount` for templates
+// that are mounted into a composed project.
+const BUILTIN_VARIABLES = [
+  ...Object.keys(deriveProjectNames(SAMPLE_PROJECT_NAME)),
+  'author',
+  'packageManager',
+  'runScript',
+  'template',
+  'deployTarget',
+  'aiEnhanced',
+  'withDemo',
+  'port',
+  'subprojects',
+  'mount'
+];
+
+const REQUIREMENT_LINE = /^(?:-[rce]\s+\S+|--[\w-]+(?:[=\s]\S+)?|(?:git\+|https?:\/\/|file:)\S+|[A-Za-z0-9][A-Za-z0-9._-]*(?:\[[\w,\s.-]*\])?\s*(?:(?:===|==|>=|<=|~=|!=|>|<)\s*[^\s,;]+(?:\s*,\s*(?:===|==|>=|<=|~=|!=|>|<)\s*[^\s,;]+)*)?\s*(?:;.*)?)$/;
+
+function listFiles(root: string, exclude: string[] = []): string[] {
+  const files: string[] = [];
+  const visit = (dir: string, relativeDir: string) => {
+    for (const entry of readdirSync(dir)) {
+      if (!relativeDir && exclude.includes(entry)) continue;
+      const relativePath = relativeDir ? `${relativeDir}/${entry}` : entry;
+      if (lstatSync(path.join(dir, entry)).isDirectory()) {
+        visit(path.join(dir, entry), relativePath);
+      } else {
+        files.push(relativePath);
+      }
+    }
+  };
+  visit(root, '');
+  return files;
+}
+
+function sampleContext(manifest: TemplateManifest, mounts: Mount[]): TemplateContext {
+  const context: TemplateContext = {};
+  // Variables without a default still get a value so the trial render can
+  // exercise every branch that depends on them being set.
+  for (const name of Object.keys(manifest.variables)) {
+    context[name] = name;
+  }
+  return {
+    ...context,
+    ...variableDefaults(manifest),
+    ...deriveProjectNames(SAMPLE_PROJECT_NAME),
+    author: 'Sample Author',
+    packageManager: manifest.packageManager,
+    runScript: manifest.language === 'javascript' ? 'npm run' : '',
+    template: manifest.name,
+    deployTarget: manifest.deployTargets[0] || 'vercel',
+    aiEnhanced: false,
+    withDemo: true,
+    port: '3000',
+    subprojects: describeMounts(mounts)
+  };
+}
+
+// Checks the template's own files: placeholder usage, files that contain
+// placeholders but will be copied verbatim, and globs that match nothing.
+function checkSources(template: Template, issues: ValidationIssue[]): void {
+  const { manifest } = template;
+  const defined = new Set([...BUILTIN_VARIABLES, ...Object.keys(manifest.variables)]);
+  const used = new Set<string>();
+  const undefinedReported = new Set<string>();
+  const files = listFiles(template.path, [MANIFEST_FILE]);
+
+  const inspect = (source: string, file: string) => {
+    let references;
+    try {
+      references = templateReferences(source);
+    } catch (err) {
+      issues.push({ severity: 'error', file, message: (err as Error).message });
+      return;
+    }
+    for (const reference of references) {
+      used.add(reference.name);
+      if (defined.has(reference.name) || reference.itemScoped) continue;
+      const key = `${file}:${reference.name}`;
+      if (undefinedReported.has(key)) continue;
+      undefinedReported.add(key);
+      issues.push({
+        severity: 'error',
+        file,
+        message: `Placeholder '${reference.name}' is used but not defined in the manifest "variables"`
+      });
+    }
+  };
+
+  for (const file of files) {
+    for (const segment of file.split('/')) {
+      inspect(segment, file);
+    }
+
+    const fullPath = path.join(template.path, file);
+    if (manifest.copyOnly.some(pattern => matchesGlob(file, pattern))) continue;
+    if (manifest.render && !manifest.render.some(pattern => matchesGlob(file, pattern))) continue;
+
+    // There is no size check: rendering reads every text file whatever its
+    // size, so binary and non-UTF-8 files are the only ones left unrendered.
+    const raw = readFileSync(fullPath);
+    if (!raw.includes('{{')) continue;
+    if (isBinaryFile(fullPath)) {
+      issues.push({ severity: 'warning', file, message: 'Looks like a binary file, so its placeholders will not be rendered' });
+      continue;
+    }
+    const content = raw.toString('utf8');
+    if (content.includes('\uFFFD')) {
+      issues.push({ severity: 'warning', file, message: 'Is not valid UTF-8, so its placeholders will not be rendered' });
+      continue;
+    }
+    inspect(content, file);
+  }
+
+  for (const name of Object.keys(manifest.variables)) {
+    if (!used.has(name)) {
+      issues.push({ severity: 'warning', message: `Variable '${name}' is defined but never used` });
+    }
+  }
+
+  for (const [field, patterns] of [['render', manifest.render || []], ['copyOnly', manifest.copyOnly]] as const) {
+    for (const pattern of patterns) {
+      if (!files.some(file => matchesGlob(file, pattern))) {
+        issues.push({ severity: 'warning', message: `"${field}" pattern '${pattern}' does not match any file` });
+      }
+    }
+  }
+}
+
+// Checks that the files a generated project depends on came out well formed.
+function checkOutput(outputRoot: string, manifest: TemplateManifest, issues: ValidationIssue[]): number {
+  const files = listFiles(outputRoot);
+
+  for (const file of files) {
+    const name = path.posix.basename(file);
+    if (name.endsWith('.json')) {
+      try {
+        JSON.parse(readFileSync(path.join(outputRoot, file), 'utf8'));
+      } catch (err) {
+        // Only package.json is strict JSON by definition; tsconfig and friends allow comments.
+        issues.push({
+          severity: name === 'package.json' ? 'error' : 'warning',
+          file,
+          message: `Renders to invalid JSON: ${(err as Error).message}`
+        });
+      }
+    } else if (name === 'requirements.txt') {
+      readFileSync(path.join(outputRoot, file), 'utf8').split(/\r?\n/).forEach((line, index) => {
+        const requirement = line.replace(/(^|\s)#.*$/, '').trim();
+        if (requirement && !REQUIREMENT_LINE.test(requirement)) {
+          issues.push({ severity: 'error', file, message: `Line ${index + 1} is not a valid requirement: ${line.trim()}` });
+        }
+      });
+    }
+  }
+
+  if (!existsSync(path.join(outputRoot, manifest.entryPoint))) {
+    issues.push({
+      severity: 'error',
+      file: MANIFEST_FILE,
+      message: `"entryPoint" ${manifest.entryPoint} does not exist in the generated project`
+    });
+  }
+
+  return files.length;
+}
+
+// Validates a template directory the way a template author would want before
+// publishing it, finishing with a trial render into a temporary directory.
+export async function validateTemplate(templateDir: string): Promise<ValidationReport> {
+  const templatePath = path.resolve(templateDir);
+  const report: ValidationReport = { templatePath, issues: [], renderedFiles: 0 };
+  const { issues } = report;
+
+  let manifest: TemplateManifest;
+  try {
+    manifest = loadTemplateManifest(templatePath);
+  } catch (err) {
+    issues.push({ severity: 'error', file: MANIFEST_FILE, message: (err as Error).message });
+    return report;
+  }
+  const template: Template = { name: manifest.name, path: templatePath, source: 'local', manifest };
+
+  const demoPath = manifest.demo ? path.join(templatePath, manifest.demo) : undefined;
+  if (demoPath && !existsSync(demoPath)) {
+    issues.push({ severity: 'error', file: MANIFEST_FILE, message: `"demo" directory ${manifest.demo} does not exist` });
+  }
+
+  let mounts: Mount[] | undefined;
+  try {
+    mounts = await resolveMounts(template);
+  } catch (err) {
+    issues.push({ severity: 'error', file: MANIFEST_FILE, message: (err as Error).message });
+  }
+
+  checkSources(template, issues);
+
+  if (!mounts || issues.some(issue => issue.severity === 'error')) {
+    return report;
+  }
+
+  const outputRoot = mkdtempSync(path.join(os.tmpdir(), 'stackstart-validate-'));
+  try {
+    const context = sampleContext(manifest, mounts);
+    copyTemplateFiles(templatePath, outputRoot, context, templateCopyRules(manifest));
+    for (const mount of mounts) {
+      copyTemplateFiles(
+        mount.template.path,
+        path.join(outputRoot, mount.path),
+        mountContext(context, mount),
+        templateCopyRules(mount.template.manifest)
+      );
+    }
+    if (demoPath) {
+      copyTemplateFiles(demoPath, outputRoot, context, { render: manifest.render, copyOnly: manifest.copyOnly });
+    }
+    report.renderedFiles = checkOutput(outputRoot, manifest, issues);
+  } catch (err) {
+    issues.push({ severity: 'error', message: `Trial render failed: ${(err as Error).message}` });
+  } finally {
+    rmSync(outputRoot, { recursive: true, force: true });
+  }
+
+  return report;
+}
@@ -0,0 +1,107 @@
+import path from 'path';
+import { randomBytes } from 'crypto';
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync
+} from 'fs';
+import { diskFileSystem, FileSystem } from './filesystem';
+
+// A scaffold run against the disk that can be undone. Generation happens
+// under `root` through `fs`; commit makes the result final and rollback
+// removes every trace of the run.
+export interface ScaffoldTransaction {
+  root: string;
+  fs: FileSystem;
+  commit(): void;
+  rollback(): void;
+}
+
+// For a directory that does not exist yet: everything is built in a hidden
+// sibling and renamed into place at the end, so a failed run leaves nothing
+// behind under the project's name.
+export function stageDirectory(target: string): ScaffoldTransaction {
+  const parent = path.dirname(target);
+  mkdirSync(parent, { recursive: true });
+  // Not mkdtempSync: its 0700 would stay on the project once renamed.
+  const root = path.join(parent, `.${path.basename(target)}.stackstart-${randomBytes(6).toString('hex')}`);
+  mkdirSync(root);
+  return {
+    root,
+    fs: diskFileSystem,
+    commit() {
+      renameSync(root, target);
+    },
+    rollback() {
+      rmSync(root, { recursive: true, force: true });
+    }
+  };
+}
+
+// For a directory that already exists (--here, --merge, --force): files are
+// written in place and an undo log restores what was overwritten. Entries
+// that commands such as installs create at the top level are removed too.
+export function journalDirectory(target: string): ScaffoldTransaction {
+  const before = new Set(existsSync(target) ? readdirSync(target) : []);
+  const backups = new Map<string, { data: Buffer; mode: number }>();
+  const created = new Set<string>();
+
+  const remember = (file: string) => {
+    const resolved = path.resolve(file);
+    if (backups.has(resolved) || created.has(resolved)) return;
+    if (existsSync(resolved)) {
+      backups.set(resolved, { data: readFileSync(resolved), mode: statSync(resolved).mode });
+    } else {
+      created.add(resolved);
+    }
+  };
+
+  const fs: FileSystem = {
+    ...diskFileSystem,
+    writeFile(file, data, mode) {
+      remember(file);
+      diskFileSystem.writeFile(file, data, mode);
+    },
+    copyFile(source, file, mode) {
+      remember(file);
+      diskFileSystem.copyFile(source, file, mode);
+    },
+    mkdir(dir) {
+      // Remember the topmost directory this run creates; removing it removes the rest.
+      let missing: string | undefined;
+      for (let current = path.resolve(dir); !existsSync(current); current = path.dirname(current)) {
+        missing = current;
+      }
+      if (missing) created.add(missing);
+      diskFileSystem.mkdir(dir);
+    }
+  };
+
+  return {
+    root: target,
+    fs,
+    commit() {
+      backups.clear();
+      created.clear();
+    },
+    rollback() {
+      for (const entry of readdirSync(target)) {
+        if (!before.has(entry)) rmSync(path.join(target, entry), { recursive: true, force: true });
+      }
+      for (const file of created) {
+        rmSync(file, { recursive: true, force: true });
+      }
+      for (const [file, { data, mode }] of backups) {
+        mkdirSync(path.dirname(file), { recursive: true });
+        writeFileSync(file, data);
+        chmodSync(file, mode);
+      }
+    }
+  };
+}
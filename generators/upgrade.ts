@@ -0,0 +1,248 @@
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { unlinkSync } from 'fs';
+import { formatUnifiedDiff, mergeText } from './diff';
+import { diskFileSystem } from './filesystem';
+import { generateScaffold } from './scaffold';
+import {
+  hashContent,
+  ProjectManifest,
+  PROJECT_MANIFEST_FILE,
+  readProjectManifest,
+  RecordedTemplate,
+  STACKSTART_VERSION,
+  updateProjectManifest
+} from './project-manifest';
+import {
+  cachedArchivePath,
+  fetchPublishedTemplate,
+  fetchTemplate,
+  parseTemplateSpec,
+  TemplateFetchOptions
+} from './template-sources';
+
+export interface UpgradeOptions {
+  // The project root; defaults to process.cwd().
+  cwd?: string;
+  // The template as the project was generated from it, when stackstart
+  // cannot find that version itself. Relative paths here and in `to` start
+  // at the project root.
+  from?: string;
+  // The template to upgrade to; the recorded one at its latest by default.
+  to?: string;
+  // Leave edited files alone and write the template's change next to them
+  // as <file>.rej, instead of conflict markers in the file.
+  reject?: boolean;
+  dryRun?: boolean;
+  templatePaths?: string[];
+}
+
+export type UpgradeAction = 'updated' | 'merged' | 'conflict' | 'added' | 'deleted' | 'kept';
+
+export interface UpgradeChange {
+  // Project-relative, with forward slashes.
+  path: string;
+  action: UpgradeAction;
+  // Why a file was kept or how a conflict was left.
+  detail?: string;
+}
+
+export interface UpgradeResult {
+  projectRoot: string;
+  from: RecordedTemplate;
+  to: RecordedTemplate;
+  dryRun: boolean;
+  // Only the files the template changed between the two versions.
+  changes: UpgradeChange[];
+  conflicts: number;
+}
+
+interface RenderedTemplate {
+  template: RecordedTemplate;
+  files: Map<string, Buffer>;
+}
+
+export function describeTemplateVersion(template: RecordedTemplate): string {
+  const pin = template.version || (template.origin && template.origin.commit ? template.origin.commit.slice(0, 7) : undefined);
+  return pin ? `${template.name} ${pin}` : template.name;
+}
+
+// Renders a template with the options the project was created with, in
+// memory. AI enhancements are left out: they are not part of the template.
+async function renderTemplate(spec: string, projectRoot: string, manifest: ProjectManifest, templatePaths?: string[]): Promise<RenderedTemplate> {
+  const result = await generateScaffold(manifest.projectName, {
+    ...manifest.options,
+    template: spec,
+    aiEnhanced: false,
+    templatePaths,
+    cwd: path.dirname(projectRoot),
+    directory: path.join(os.tmpdir(), `stackstart-upgrade-${randomBytes(6).toString('hex')}`),
+    createGithubRepo: false,
+    skipInstall: true,
+    skipGit: true,
+    dryRun: true
+  });
+  const files = new Map<string, Buffer>();
+  for (const file of result.files) {
+    if (file === PROJECT_MANIFEST_FILE) continue;
+    files.set(file, result.fs.readFile(path.join(result.projectRoot, file)));
+  }
+  return { template: result.manifest!.template, files };
+}
+
+// Where the template version the project was generated from can be found.
+async function baseSpec(manifest: ProjectManifest, target: string, fetchOptions: TemplateFetchOptions): Promise<string> {
+  const { template } = manifest;
+  const { origin } = template;
+  if (template.source === 'git' && origin && origin.url && origin.commit) {
+    return `git+${origin.url}#${origin.commit}`;
+  }
+  if (template.source === 'archive' && origin && origin.integrity) {
+    const cached = cachedArchivePath(origin.integrity, fetchOptions);
+    if (cached) return cached;
+    throw new Error(`The archive ${describeTemplateVersion(template)} was generated from is no longer cached. Pass --from with the original archive.`);
+  }
+  if (template.source === 'bundled' && template.version && template.version !== STACKSTART_VERSION) {
+    // npm pack fails offline and on mirrors without stackstart.
+    try {
+      return await fetchPublishedTemplate(template.name, template.version, fetchOptions);
+    } catch (err) {
+      throw new Error(
+        `Cannot fetch ${describeTemplateVersion(template)} from npm as the project was generated from it: ${(err as Error).message}\n` +
+        `Pass --from with that version of the template, e.g. templates/${template.name} of stackstart ${template.version}.`
+      );
+    }
+  }
+  // Anything else can only serve as the base while it is still the same version.
+  const current = await fetchTemplate(target, fetchOptions);
+  const currentVersion = current.manifest.version || (current.source === 'bundled' ? STACKSTART_VERSION : undefined);
+  if (template.version && template.version === currentVersion) return target;
+  throw new Error(
+    `Cannot find ${template.name} ${template.version || '(unversioned)'} as the project was generated from it; ` +
+    `${target} is ${currentVersion || 'unversioned'}. Pass --from with that version of the template.`
+  );
+}
+
+function targetSpec(template: RecordedTemplate): string {
+  const { origin } = template;
+  if (template.source === 'git' && origin && origin.url) return `git+${origin.url}#${origin.ref || 'HEAD'}`;
+  if ((template.source === 'local' || template.source === 'archive') && origin && origin.url) return origin.url;
+  return template.spec;
+}
+
+function resolveSpec(spec: string | undefined, projectRoot: string): string | undefined {
+  if (!spec) return undefined;
+  const { kind } = parseTemplateSpec(spec);
+  return (kind === 'path' || kind === 'archive') && !spec.startsWith('~') ? path.resolve(projectRoot, spec) : spec;
+}
+
+function isBinary(data: Buffer): boolean {
+  return data.includes(0);
+}
+
+// Re-renders the template the project was generated from and the version to
+// upgrade to, then three-way merges the difference into the project: files
+// nobody edited are replaced, edits on both sides are merged line by line and
+// clashing edits are left as conflicts. .stackstart.json moves to the new
+// version, so conflicts are resolved by hand rather than by upgrading again.
+export async function upgradeProject(options: UpgradeOptions = {}): Promise<UpgradeResult> {
+  const projectRoot = path.resolve(options.cwd || process.cwd());
+  const manifest = readProjectManifest(projectRoot);
+  if (!manifest) {
+    throw new Error(`No ${PROJECT_MANIFEST_FILE} in ${projectRoot}. Only projects created with stackstart can be upgraded.`);
+  }
+  const dryRun = Boolean(options.dryRun);
+  const fetchOptions = { cwd: path.dirname(projectRoot), extraPaths: options.templatePaths };
+  const from = resolveSpec(options.from, projectRoot);
+  const requested = resolveSpec(options.to, projectRoot);
+  const target = requested || targetSpec(manifest.template);
+  const base = await renderTemplate(from || await baseSpec(manifest, target, fetchOptions), projectRoot, manifest, options.templatePaths);
+  const theirs = await renderTemplate(target, projectRoot, manifest, options.templatePaths);
+  const to: RecordedTemplate = { ...theirs.template, spec: requested || manifest.template.spec };
+  const labels: [string, string] = ['yours', describeTemplateVersion(to)];
+
+  const changes: UpgradeChange[] = [];
+  const writes = new Map<string, string | Buffer>();
+  const deletions: string[] = [];
+  let conflicts = 0;
+  const files = Array.from(new Set([...base.files.keys(), ...theirs.files.keys()])).sort();
+  for (const file of files) {
+    const before = base.files.get(file);
+    const after = theirs.files.get(file);
+    const fullPath = path.join(projectRoot, file);
+    const ours = diskFileSystem.exists(fullPath) ? diskFileSystem.readFile(fullPath) : undefined;
+
+    if (!after) {
+      if (!ours || !before) continue;
+      if (ours.equals(before)) {
+        deletions.push(file);
+        changes.push({ path: file, action: 'deleted' });
+      } else {
+        changes.push({ path: file, action: 'kept', detail: 'no longer in the template, but you changed it' });
+      }
+      continue;
+    }
+    if (before && after.equals(before)) continue;
+    if (!ours) {
+      if (before) {
+        changes.push({ path: file, action: 'kept', detail: 'you deleted it; the template changed it' });
+      } else {
+        writes.set(file, after);
+        changes.push({ path: file, action: 'added' });
+      }
+      continue;
+    }
+    if (ours.equals(after)) continue;
+    if (before && ours.equals(before)) {
+      writes.set(file, after);
+      changes.push({ path: file, action: 'updated' });
+      continue;
+    }
+    if (isBinary(ours) || isBinary(after) || (before && isBinary(before))) {
+      conflicts++;
+      changes.push({ path: file, action: 'conflict', detail: 'binary file changed on both sides; kept yours' });
+      continue;
+    }
+
+    const merged = mergeText(before ? before.toString('utf8') : '', ours.toString('utf8'), after.toString('utf8'), labels);
+    if (merged.conflicts === 0) {
+      writes.set(file, merged.text);
+      changes.push({ path: file, action: 'merged' });
+    } else if (options.reject) {
+      conflicts++;
+      writes.set(`${file}.rej`, `${formatUnifiedDiff(file, before ? before.toString('utf8') : '', after.toString('utf8'), 3, ['template', labels[1]])}\n`);
+      changes.push({ path: file, action: 'conflict', detail: `kept yours; the template's change is in ${file}.rej` });
+    } else {
+      conflicts++;
+      writes.set(file, merged.text);
+      changes.push({ path: file, action: 'conflict', detail: `${merged.conflicts} conflict${merged.conflicts === 1 ? '' : 's'} marked in the file` });
+    }
+  }
+
+  if (!dryRun) {
+    for (const [file, data] of writes) {
+      const fullPath = path.join(projectRoot, file);
+      diskFileSystem.mkdir(path.dirname(fullPath));
+      diskFileSystem.writeFile(fullPath, data);
+    }
+    for (const file of deletions) {
+      unlinkSync(path.join(projectRoot, file));
+    }
+    // Hashes follow the template, so merged files keep showing up as edited.
+    updateProjectManifest(projectRoot, current => {
+      const hashes = { ...current.files };
+      for (const change of changes) {
+        const after = theirs.files.get(change.path);
+        if (after && change.action !== 'kept') {
+          hashes[change.path] = hashContent(after);
+        } else if (!after) {
+          delete hashes[change.path];
+        }
+      }
+      return { ...current, template: to, files: hashes };
+    });
+  }
+
+  return { projectRoot, from: manifest.template, to, dryRun, changes, conflicts };
+}
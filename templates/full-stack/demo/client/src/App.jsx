@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import './App.css';
+
+function App() {
+  const [users, setUsers] = useState([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+  const [newUser, setNewUser] = useState({ name: '', email: '' });
+
+  useEffect(() => {
+    fetch('http://localhost:3001/api/hello')
+      .then(res => res.json())
+      .then(data => setMessage(data.message))
+      .catch(err => console.error('Error fetching message:', err));
+  }, []);
+
+  useEffect(() => {
+    fetch('http://localhost:3001/api/users')
+      .then(res => res.json())
+      .then(data => {
+        setUsers(data);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error fetching users:', err);
+        setLoading(false);
+      });
+  }, []);
+
+  const handleSubmit = async (e) => {
+    e.preventDefault();
+    try {
+      const response = await fetch('http://localhost:3001/api/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newUser),
+      });
+      const result = await response.json();
+      setUsers([...users, result]);
+      setNewUser({ name: '', email: '' });
+      alert(result.message);
+    } catch (err) {
+      console.error('Error creating user:', err);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="App">
+      <header className="header">
+        <h1>🚀 {{projectName}}</h1>
+        <p className="message">{message}</p>
+      </header>
+
+      <main className="main">
+        <section className="users-section">
+          <h2>👥 Users</h2>
+          <div className="users-grid">
+            {users.map(user => (
+              <div key={user.id} className="user-card">
+                <h3>{user.name}</h3>
+                <p>{user.email}</p>
+                <small>ID: {user.id}</small>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="add-user-section">
+          <h2>➕ Add New User</h2>
+          <form onSubmit={handleSubmit} className="user-form">
+            <input
+              type="text"
+              placeholder="Name"
+              value={newUser.name}
+              onChange={(e) => setNewUser({...newUser, name: e.target.value})}
+              required
+            />
+            <input
+              type="email"
+              placeholder="Email"
+              value={newUser.email}
+              onChange={(e) => setNewUser({...newUser, email: e.target.value})}
+              required
+            />
+            <button type="submit">Add User</button>
+          </form>
+        </section>
+      </main>
+    </div>
+  );
+}
+
+export default App;
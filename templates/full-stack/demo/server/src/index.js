@@ -0,0 +1,43 @@
+const express = require('express');
+const app = express();
+const port = process.env.PORT || 3001;
+
+app.use(express.json());
+
+app.use((req, res, next) => {
+  res.header('Access-Control-Allow-Origin', 'http://localhost:5173');
+  res.header('Access-Control-Allow-Headers', 'Content-Type');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
+  next();
+});
+
+// Demo endpoints
+app.get('/api/hello', (req, res) => {
+  res.json({ message: 'Hello from the {{projectName}} API!' });
+});
+
+app.get('/api/users', (req, res) => {
+  res.json([
+    { id: 1, name: 'John Doe', email: 'john@example.com' },
+    { id: 2, name: 'Jane Smith', email: 'jane@example.com' },
+    { id: 3, name: 'Bob Johnson', email: 'bob@example.com' }
+  ]);
+});
+
+app.post('/api/users', (req, res) => {
+  const { name, email } = req.body;
+  res.json({ 
+    id: Math.floor(Math.random() * 1000),
+    name,
+    email,
+    message: 'User created successfully!'
+  });
+});
+
+app.listen(port, () => {
+  console.log(`🚀 Server running at http://localhost:${port}`);
+  console.log('📍 Available endpoints:');
+  console.log('  GET  /api/hello');
+  console.log('  GET  /api/users');
+  console.log('  POST /api/users');
+});
@@ -0,0 +1,35 @@
+const express = require('express');
+const app = express();
+const port = process.env.PORT || 3000;
+
+app.use(express.json());
+
+// Demo endpoints
+app.get('/api/hello', (req, res) => {
+  res.json({ message: 'Hello from the demo API!' });
+});
+
+app.get('/api/users', (req, res) => {
+  res.json([
+    { id: 1, name: 'John Doe', email: 'john@example.com' },
+    { id: 2, name: 'Jane Smith', email: 'jane@example.com' }
+  ]);
+});
+
+app.post('/api/users', (req, res) => {
+  const { name, email } = req.body;
+  res.json({ 
+    id: Math.floor(Math.random() * 1000),
+    name,
+    email,
+    message: 'User created successfully!'
+  });
+});
+
+app.listen(port, () => {
+  console.log(`Demo server running at http://localhost:${port}`);
+  console.log('Available endpoints:');
+  console.log('  GET  /api/hello');
+  console.log('  GET  /api/users');
+  console.log('  POST /api/users');
+});
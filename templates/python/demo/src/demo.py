@@ -0,0 +1,36 @@
+from flask import Flask, jsonify, request
+
+app = Flask(__name__)
+
+# Demo data
+users = [
+    {"id": 1, "name": "John Doe", "email": "john@example.com"},
+    {"id": 2, "name": "Jane Smith", "email": "jane@example.com"}
+]
+
+@app.route('/api/hello')
+def hello():
+    return jsonify({"message": "Hello from the demo API!"})
+
+@app.route('/api/users')
+def get_users():
+    return jsonify(users)
+
+@app.route('/api/users', methods=['POST'])
+def create_user():
+    data = request.get_json()
+    new_user = {
+        "id": len(users) + 1,
+        "name": data.get('name'),
+        "email": data.get('email')
+    }
+    users.append(new_user)
+    return jsonify(new_user), 201
+
+if __name__ == '__main__':
+    print("Demo server starting...")
+    print("Available endpoints:")
+    print("  GET  /api/hello")
+    print("  GET  /api/users")
+    print("  POST /api/users")
+    app.run(debug=True, port=5000)
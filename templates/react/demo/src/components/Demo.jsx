@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+
+const Demo = () => {
+  const [users, setUsers] = useState([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/users')
+      .then(res => res.json())
+      .then(data => {
+        setUsers(data);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error fetching users:', err);
+        setLoading(false);
+      });
+  }, []);
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <div className="demo">
+      <h2>Demo Component</h2>
+      <p>This is a demo component showing API integration.</p>
+      <div className="users">
+        <h3>Users:</h3>
+        <ul>
+          {users.map(user => (
+            <li key={user.id}>
+              {user.name} ({user.email})
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default Demo;